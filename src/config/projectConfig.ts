@@ -0,0 +1,261 @@
+import { readFile } from "fs/promises";
+import { join, posix, win32 } from "path";
+import { z } from "zod";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { FORGE_PROVIDERS } from "../forge/ForgeProvider.js";
+import { PR_SECTION_ALIASES, PR_SECTIONS } from "../templates/pr-template.js";
+import type { PRSection } from "../templates/pr-template.js";
+import { KEY_POINT_DETECTORS } from "../helpers/index.js";
+
+// Config file looked up in the repository root
+export const CONFIG_FILE_NAME = ".generate-pr.json";
+// Key holding the config when it lives in package.json instead
+export const PACKAGE_JSON_KEY = "generatePr";
+
+// Where generate_pr puts the PR document
+export const OUTPUT_MODES = ["file", "return", "clipboard-safe"] as const;
+
+export type OutputMode = (typeof OUTPUT_MODES)[number];
+
+// Smallest output budget, a chunk needs room for its markers and a section
+export const MIN_OUTPUT_TOKENS = 200;
+
+// Line patterns are regular expressions, reported when they do not compile
+const linePatternSchema = z
+  .string()
+  .min(1)
+  .refine(
+    (pattern) => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "must be a valid regular expression" }
+  );
+
+// Paths from the repository's config must stay inside it, so a cloned
+// project cannot make the server read or write files elsewhere
+const repoPathSchema = z
+  .string()
+  .min(1)
+  .refine(
+    (path) =>
+      !posix.isAbsolute(path) &&
+      !win32.isAbsolute(path) &&
+      !path.split(/[\\/]/).includes(".."),
+    { message: "must be a relative path without .. segments" }
+  );
+
+const keyPointConditionShape = {
+  paths: z.array(z.string().min(1)).optional(),
+  excludePaths: z.array(z.string().min(1)).optional(),
+  status: z
+    .array(z.enum(["added", "deleted", "modified", "renamed", "copied"]))
+    .optional(),
+  addedLines: z.array(linePatternSchema).optional(),
+  removedLines: z.array(linePatternSchema).optional(),
+  keywords: z.array(z.string().min(1)).optional(),
+  detector: z.enum(KEY_POINT_DETECTORS).optional(),
+  minFiles: z.number().int().min(1).optional(),
+  minLines: z.number().int().min(1).optional(),
+};
+
+// Helper to move sections set under an earlier name to their current one,
+// the current name winning when both are set
+function resolveSectionAliases(
+  sections: Record<string, boolean>
+): Partial<Record<PRSection, boolean>> {
+  const resolved: Partial<Record<PRSection, boolean>> = {};
+  for (const [name, enabled] of Object.entries(sections)) {
+    if (name in PR_SECTION_ALIASES) {
+      const section =
+        PR_SECTION_ALIASES[name as keyof typeof PR_SECTION_ALIASES];
+      resolved[section] ??= enabled;
+    } else {
+      resolved[name as PRSection] = enabled;
+    }
+  }
+  return resolved;
+}
+
+const keyPointRuleSchema = z
+  .object({
+    label: z.string().min(1, "label must not be empty"),
+    ...keyPointConditionShape,
+    anyOf: z.array(z.object(keyPointConditionShape).strict()).optional(),
+  })
+  .strict();
+
+export const projectConfigSchema = z
+  .object({
+    // Globs for files left out of the logic analysis (added to the defaults)
+    ignore: z.array(z.string().min(1)).optional(),
+    // Base branch used when generate_pr is called without baseRef
+    baseBranch: z.string().min(1).optional(),
+    // Template file path relative to the repo root, or a template name
+    template: z.string().min(1).optional(),
+    output: z
+      .object({
+        // Write the document to a file or only return it
+        mode: z.enum(OUTPUT_MODES).optional(),
+        // Directory for the generated file, relative to the repo root
+        directory: repoPathSchema.optional(),
+        // File name pattern with {title}, {branch} and {date} placeholders
+        fileName: repoPathSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    // Sections of the built-in template, all enabled unless set to false
+    sections: z
+      .record(
+        z.enum([
+          ...PR_SECTIONS,
+          ...(Object.keys(
+            PR_SECTION_ALIASES
+          ) as (keyof typeof PR_SECTION_ALIASES)[]),
+        ]),
+        z.boolean()
+      )
+      .transform(resolveSectionAliases)
+      .optional(),
+    // Extra key point rules, replacing built-in rules with the same label
+    keyPoints: z.array(keyPointRuleSchema).optional(),
+    // Scanning the added lines for credentials
+    secrets: z
+      .object({
+        // Refuse to generate the PR when potential secrets are found
+        block: z.boolean().optional(),
+        // Globs of files that are not scanned, e.g. test fixtures
+        excludePaths: z.array(z.string().min(1)).optional(),
+        // Regular expressions of values that are not secrets
+        allow: z.array(linePatternSchema).optional(),
+      })
+      .strict()
+      .optional(),
+    // Coverage reports compared in the Testing Done section
+    coverage: z
+      .object({
+        // Report of the last test run, found in the usual places by default
+        report: repoPathSchema.optional(),
+        // Report of the base branch, for per-file coverage deltas
+        baseline: repoPathSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    // Size limits for big diffs
+    budget: z
+      .object({
+        // Longest response in tokens, longer documents are split into chunks
+        maxOutputTokens: z.number().int().min(MIN_OUTPUT_TOKENS).optional(),
+        // Most files listed and analyzed, the least relevant are collapsed
+        maxFiles: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    // Where publish: true opens the pull request
+    forge: z
+      .object({
+        // Detected from the remote's host when left out
+        provider: z.enum(FORGE_PROVIDERS).optional(),
+        // API root on the remote's host, e.g. https://github.example.com/api/v3
+        baseUrl: z.string().url().optional(),
+        // One of the provider's token variables, e.g. GH_TOKEN
+        tokenEnv: z.string().min(1).optional(),
+        // Remote the branch is pushed to, "origin" by default
+        remote: z.string().min(1).optional(),
+        // Defaults for the generate_pr arguments of the same name
+        labels: z.array(z.string().min(1)).optional(),
+        reviewers: z.array(z.string().min(1)).optional(),
+        draft: z.boolean().optional(),
+        push: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+// Helper to read a JSON file, returning undefined when it does not exist
+async function readJson(
+  path: string,
+  displayName: string
+): Promise<unknown | undefined> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf8");
+  } catch (error) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error: any) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid JSON in ${displayName}: ${error.message}`
+    );
+  }
+}
+
+// Helper to turn zod issues into one readable line per problem
+function formatIssues(source: string, error: z.ZodError): string {
+  const issues = error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+    return `  - ${path}: ${issue.message}`;
+  });
+  return `Invalid generate-pr configuration in ${source}:\n${issues.join(
+    "\n"
+  )}`;
+}
+
+/**
+ * Loads and validates the project configuration of the target repository
+ *
+ * The config is read from `.generate-pr.json` in the repository root, or
+ * from the `generatePr` key of `package.json` when that file is missing.
+ *
+ * @param projectDirectory The repository root
+ * @returns The validated configuration, empty when the project has none
+ */
+export default async function loadProjectConfig(
+  projectDirectory: string
+): Promise<ProjectConfig> {
+  let source = CONFIG_FILE_NAME;
+  let raw = await readJson(
+    join(projectDirectory, CONFIG_FILE_NAME),
+    CONFIG_FILE_NAME
+  );
+
+  if (raw === undefined) {
+    const packageJson = await readJson(
+      join(projectDirectory, "package.json"),
+      "package.json"
+    );
+    if (
+      packageJson &&
+      typeof packageJson === "object" &&
+      PACKAGE_JSON_KEY in packageJson
+    ) {
+      source = `package.json "${PACKAGE_JSON_KEY}"`;
+      raw = (packageJson as Record<string, unknown>)[PACKAGE_JSON_KEY];
+    }
+  }
+
+  if (raw === undefined) {
+    return {};
+  }
+
+  const result = projectConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      formatIssues(source, result.error)
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,95 @@
+import requestJson from "./requestJson.js";
+import type {
+  CreatedPullRequest,
+  ExistingPullRequest,
+  ForgeProvider,
+  ForgeProviderOptions,
+  PullRequestRequest,
+} from "./ForgeProvider.js";
+
+/**
+ * Opens pull requests through the Bitbucket Cloud REST API (2.0)
+ */
+export class BitbucketProvider implements ForgeProvider {
+  readonly name = "bitbucket";
+
+  constructor(private readonly options: ForgeProviderOptions) {}
+
+  // "user:app-password" tokens use basic auth, anything else is a bearer
+  // token (repository, project or workspace access token)
+  private authorization(): string {
+    const { token } = this.options;
+    return token.includes(":")
+      ? `Basic ${Buffer.from(token).toString("base64")}`
+      : `Bearer ${token}`;
+  }
+
+  // Helper to build the URL of the repository's pull requests
+  private pullRequestsUrl(): string {
+    const { baseUrl, repository } = this.options;
+    return `${baseUrl.replace(/\/+$/, "")}/repositories/${encodeURIComponent(
+      repository.owner
+    )}/${encodeURIComponent(repository.name)}/pullrequests`;
+  }
+
+  async createPullRequest(
+    request: PullRequestRequest
+  ): Promise<CreatedPullRequest> {
+    const notes: string[] = [];
+    if (request.labels.length > 0) {
+      notes.push("Bitbucket has no pull request labels, labels were skipped");
+    }
+
+    const pull = await requestJson<{
+      id: number;
+      links: { html: { href: string } };
+    }>(this.pullRequestsUrl(), {
+      method: "POST",
+      headers: { Authorization: this.authorization() },
+      body: {
+        title: request.title,
+        description: request.body,
+        source: { branch: { name: request.head } },
+        destination: { branch: { name: request.base } },
+        draft: request.draft,
+        // Bitbucket identifies users by UUID ("{...}") or account id
+        reviewers: request.reviewers.map((reviewer) =>
+          reviewer.startsWith("{")
+            ? { uuid: reviewer }
+            : { account_id: reviewer }
+        ),
+      },
+    });
+
+    return { number: pull.id, url: pull.links.html.href, notes };
+  }
+
+  async getPullRequest(number: number): Promise<ExistingPullRequest> {
+    const pull = await requestJson<{
+      id: number;
+      title: string;
+      description: string | null;
+      source: { branch: { name: string } };
+      destination: { branch: { name: string } };
+      links: { html: { href: string } };
+    }>(`${this.pullRequestsUrl()}/${number}`, {
+      headers: { Authorization: this.authorization() },
+    });
+    return {
+      number: pull.id,
+      url: pull.links.html.href,
+      title: pull.title,
+      body: pull.description || "",
+      head: pull.source.branch.name,
+      base: pull.destination.branch.name,
+    };
+  }
+
+  async updatePullRequestBody(number: number, body: string): Promise<void> {
+    await requestJson(`${this.pullRequestsUrl()}/${number}`, {
+      method: "PUT",
+      headers: { Authorization: this.authorization() },
+      body: { description: body },
+    });
+  }
+}
@@ -0,0 +1,90 @@
+// Forges a pull request can be opened on
+export const FORGE_PROVIDERS = [
+  "github",
+  "gitlab",
+  "gitea",
+  "bitbucket",
+] as const;
+
+export type ForgeProviderName = (typeof FORGE_PROVIDERS)[number];
+
+// Repository on a forge, read from a git remote URL
+export interface ForgeRepository {
+  // Host name of the remote, e.g. "github.com"
+  host: string;
+  // Everything before the repository name, e.g. "owner" or "group/subgroup"
+  owner: string;
+  // Repository name without ".git"
+  name: string;
+}
+
+export interface PullRequestRequest {
+  title: string;
+  body: string;
+  // Branch with the changes
+  head: string;
+  // Branch the changes should be merged into
+  base: string;
+  labels: string[];
+  // User names; "org/team" entries are teams where the forge supports them
+  reviewers: string[];
+  draft: boolean;
+}
+
+export interface CreatedPullRequest {
+  // PR number on GitHub/Gitea/Bitbucket, MR iid on GitLab
+  number: number;
+  url: string;
+  // Requested options the forge could not apply, e.g. unknown labels
+  notes: string[];
+}
+
+// A pull request that is already open on the forge
+export interface ExistingPullRequest {
+  number: number;
+  url: string;
+  title: string;
+  body: string;
+  // Source branch name
+  head: string;
+  // Target branch name
+  base: string;
+}
+
+/**
+ * Opens pull requests (merge requests on GitLab) through a forge's HTTP API
+ */
+export interface ForgeProvider {
+  readonly name: ForgeProviderName;
+
+  /**
+   * Creates the pull request, then applies labels and reviewers
+   *
+   * @param request Title, body, branches and options of the pull request
+   * @returns The number and web URL of the new pull request
+   */
+  createPullRequest(request: PullRequestRequest): Promise<CreatedPullRequest>;
+
+  /**
+   * Fetches an existing pull request
+   *
+   * @param number PR number (MR iid on GitLab)
+   * @returns Title, body and branches of the pull request
+   */
+  getPullRequest(number: number): Promise<ExistingPullRequest>;
+
+  /**
+   * Replaces the description of an existing pull request
+   *
+   * @param number PR number (MR iid on GitLab)
+   * @param body The new description
+   */
+  updatePullRequestBody(number: number, body: string): Promise<void>;
+}
+
+export interface ForgeProviderOptions {
+  // API root, e.g. "https://api.github.com" or a local mock server
+  baseUrl: string;
+  token: string;
+  repository: ForgeRepository;
+}
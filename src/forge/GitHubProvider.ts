@@ -0,0 +1,113 @@
+import requestJson from "./requestJson.js";
+import type {
+  CreatedPullRequest,
+  ExistingPullRequest,
+  ForgeProvider,
+  ForgeProviderOptions,
+  PullRequestRequest,
+} from "./ForgeProvider.js";
+
+/**
+ * Opens pull requests through the GitHub REST API (github.com and
+ * GitHub Enterprise Server)
+ */
+export class GitHubProvider implements ForgeProvider {
+  readonly name = "github";
+
+  constructor(private readonly options: ForgeProviderOptions) {}
+
+  // Helper to call an endpoint below /repos/{owner}/{repo}
+  private request<T>(
+    path: string,
+    body?: unknown,
+    method: "GET" | "POST" | "PATCH" = "POST"
+  ): Promise<T> {
+    const { baseUrl, token, repository } = this.options;
+    return requestJson<T>(
+      `${baseUrl.replace(/\/+$/, "")}/repos/${encodeURIComponent(
+        repository.owner
+      )}/${encodeURIComponent(repository.name)}${path}`,
+      {
+        method,
+        headers: {
+          Accept: "application/vnd.github+json",
+          Authorization: `Bearer ${token}`,
+          "X-GitHub-Api-Version": "2022-11-28",
+        },
+        body,
+      }
+    );
+  }
+
+  async createPullRequest(
+    request: PullRequestRequest
+  ): Promise<CreatedPullRequest> {
+    const pull = await this.request<{ number: number; html_url: string }>(
+      "/pulls",
+      {
+        title: request.title,
+        body: request.body,
+        head: request.head,
+        base: request.base,
+        draft: request.draft,
+      }
+    );
+
+    // The pull request exists now, so failures below only become notes;
+    // throwing would lose its number and a retry would open a duplicate
+    const notes: string[] = [];
+
+    // Labels live on the issue that backs every pull request
+    if (request.labels.length > 0) {
+      try {
+        await this.request(`/issues/${pull.number}/labels`, {
+          labels: request.labels,
+        });
+      } catch (error) {
+        notes.push(`labels were not added: ${(error as Error).message}`);
+      }
+    }
+
+    if (request.reviewers.length > 0) {
+      const teams = request.reviewers.filter((reviewer) =>
+        reviewer.includes("/")
+      );
+      try {
+        await this.request(`/pulls/${pull.number}/requested_reviewers`, {
+          reviewers: request.reviewers.filter(
+            (reviewer) => !reviewer.includes("/")
+          ),
+          // "org/team" becomes the team slug
+          team_reviewers: teams.map((team) => team.split("/").pop()),
+        });
+      } catch (error) {
+        notes.push(`reviewers were not requested: ${(error as Error).message}`);
+      }
+    }
+
+    return { number: pull.number, url: pull.html_url, notes };
+  }
+
+  async getPullRequest(number: number): Promise<ExistingPullRequest> {
+    const pull = await this.request<{
+      number: number;
+      html_url: string;
+      title: string;
+      body: string | null;
+      head: { ref: string };
+      base: { ref: string };
+    }>(`/pulls/${number}`, undefined, "GET");
+    return {
+      number: pull.number,
+      url: pull.html_url,
+      title: pull.title,
+      body: pull.body || "",
+      head: pull.head.ref,
+      base: pull.base.ref,
+    };
+  }
+
+  async updatePullRequestBody(number: number, body: string): Promise<void> {
+    await this.request(`/pulls/${number}`, { body }, "PATCH");
+  }
+}
@@ -0,0 +1,113 @@
+import requestJson from "./requestJson.js";
+import type {
+  CreatedPullRequest,
+  ExistingPullRequest,
+  ForgeProvider,
+  ForgeProviderOptions,
+  PullRequestRequest,
+} from "./ForgeProvider.js";
+
+/**
+ * Opens merge requests through the GitLab REST API (v4)
+ */
+export class GitLabProvider implements ForgeProvider {
+  readonly name = "gitlab";
+
+  constructor(private readonly options: ForgeProviderOptions) {}
+
+  // Helper to call an endpoint of the API
+  private request<T>(
+    path: string,
+    body?: unknown,
+    method: "GET" | "POST" | "PUT" = "POST"
+  ): Promise<T> {
+    return requestJson<T>(
+      `${this.options.baseUrl.replace(/\/+$/, "")}${path}`,
+      {
+        method,
+        headers: { "PRIVATE-TOKEN": this.options.token },
+        body,
+      }
+    );
+  }
+
+  // Helper to look up the numeric ids GitLab expects for reviewers
+  private async findUserIds(
+    usernames: string[],
+    notes: string[]
+  ): Promise<number[]> {
+    const ids: number[] = [];
+    for (const username of usernames) {
+      const users = await this.request<{ id: number }[]>(
+        `/users?username=${encodeURIComponent(username)}`,
+        undefined,
+        "GET"
+      );
+      if (users.length > 0) {
+        ids.push(users[0].id);
+      } else {
+        notes.push(
+          `unknown GitLab user "${username}" was not added as reviewer`
+        );
+      }
+    }
+    return ids;
+  }
+
+  // Helper to build the path of the project's merge requests
+  private mergeRequestsPath(): string {
+    const { owner, name } = this.options.repository;
+    return `/projects/${encodeURIComponent(`${owner}/${name}`)}/merge_requests`;
+  }
+
+  async createPullRequest(
+    request: PullRequestRequest
+  ): Promise<CreatedPullRequest> {
+    const notes: string[] = [];
+    const reviewerIds = await this.findUserIds(request.reviewers, notes);
+
+    const mergeRequest = await this.request<{ iid: number; web_url: string }>(
+      this.mergeRequestsPath(),
+      {
+        source_branch: request.head,
+        target_branch: request.base,
+        // GitLab marks merge requests as drafts by their title
+        title: request.draft ? `Draft: ${request.title}` : request.title,
+        description: request.body,
+        ...(request.labels.length > 0
+          ? { labels: request.labels.join(",") }
+          : {}),
+        ...(reviewerIds.length > 0 ? { reviewer_ids: reviewerIds } : {}),
+      }
+    );
+
+    return { number: mergeRequest.iid, url: mergeRequest.web_url, notes };
+  }
+
+  async getPullRequest(number: number): Promise<ExistingPullRequest> {
+    const mergeRequest = await this.request<{
+      iid: number;
+      web_url: string;
+      title: string;
+      description: string | null;
+      source_branch: string;
+      target_branch: string;
+    }>(`${this.mergeRequestsPath()}/${number}`, undefined, "GET");
+    return {
+      number: mergeRequest.iid,
+      url: mergeRequest.web_url,
+      title: mergeRequest.title,
+      body: mergeRequest.description || "",
+      head: mergeRequest.source_branch,
+      base: mergeRequest.target_branch,
+    };
+  }
+
+  async updatePullRequestBody(number: number, body: string): Promise<void> {
+    await this.request(
+      `${this.mergeRequestsPath()}/${number}`,
+      { description: body },
+      "PUT"
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import requestJson from "./requestJson.js";
+import type {
+  CreatedPullRequest,
+  ExistingPullRequest,
+  ForgeProvider,
+  ForgeProviderOptions,
+  PullRequestRequest,
+} from "./ForgeProvider.js";
+
+/**
+ * Opens pull requests through the Gitea (and Forgejo) REST API
+ */
+export class GiteaProvider implements ForgeProvider {
+  readonly name = "gitea";
+
+  constructor(private readonly options: ForgeProviderOptions) {}
+
+  // Helper to call an endpoint below /repos/{owner}/{repo}
+  private request<T>(
+    path: string,
+    body?: unknown,
+    method: "GET" | "POST" | "PATCH" = "POST"
+  ): Promise<T> {
+    const { baseUrl, token, repository } = this.options;
+    return requestJson<T>(
+      `${baseUrl.replace(/\/+$/, "")}/repos/${encodeURIComponent(
+        repository.owner
+      )}/${encodeURIComponent(repository.name)}${path}`,
+      {
+        method,
+        headers: { Authorization: `token ${token}` },
+        body,
+      }
+    );
+  }
+
+  // Helper to map label names to the ids Gitea expects
+  private async findLabelIds(
+    names: string[],
+    notes: string[]
+  ): Promise<number[]> {
+    if (names.length === 0) {
+      return [];
+    }
+    const labels = await this.request<{ id: number; name: string }[]>(
+      "/labels?limit=100",
+      undefined,
+      "GET"
+    );
+    const ids: number[] = [];
+    for (const name of names) {
+      const label = labels.find(
+        (candidate) => candidate.name.toLowerCase() === name.toLowerCase()
+      );
+      if (label) {
+        ids.push(label.id);
+      } else {
+        notes.push(`label "${name}" does not exist in the repository`);
+      }
+    }
+    return ids;
+  }
+
+  async createPullRequest(
+    request: PullRequestRequest
+  ): Promise<CreatedPullRequest> {
+    const notes: string[] = [];
+    const labelIds = await this.findLabelIds(request.labels, notes);
+
+    const pull = await this.request<{ number: number; html_url: string }>(
+      "/pulls",
+      {
+        // Gitea treats a "WIP:" title prefix as draft
+        title: request.draft ? `WIP: ${request.title}` : request.title,
+        body: request.body,
+        head: request.head,
+        base: request.base,
+        ...(labelIds.length > 0 ? { labels: labelIds } : {}),
+      }
+    );
+
+    // The pull request exists now, so a failure only becomes a note
+    if (request.reviewers.length > 0) {
+      try {
+        await this.request(`/pulls/${pull.number}/requested_reviewers`, {
+          reviewers: request.reviewers,
+        });
+      } catch (error) {
+        notes.push(`reviewers were not requested: ${(error as Error).message}`);
+      }
+    }
+
+    return { number: pull.number, url: pull.html_url, notes };
+  }
+
+  async getPullRequest(number: number): Promise<ExistingPullRequest> {
+    const pull = await this.request<{
+      number: number;
+      html_url: string;
+      title: string;
+      body: string | null;
+      head: { ref: string };
+      base: { ref: string };
+    }>(`/pulls/${number}`, undefined, "GET");
+    return {
+      number: pull.number,
+      url: pull.html_url,
+      title: pull.title,
+      body: pull.body || "",
+      head: pull.head.ref,
+      base: pull.base.ref,
+    };
+  }
+
+  async updatePullRequestBody(number: number, body: string): Promise<void> {
+    await this.request(`/pulls/${number}`, { body }, "PATCH");
+  }
+}
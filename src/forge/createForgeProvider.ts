@@ -0,0 +1,151 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BitbucketProvider } from "./BitbucketProvider.js";
+import { GitHubProvider } from "./GitHubProvider.js";
+import { GiteaProvider } from "./GiteaProvider.js";
+import { GitLabProvider } from "./GitLabProvider.js";
+import parseRemoteUrl from "./parseRemoteUrl.js";
+import type {
+  ForgeProvider,
+  ForgeProviderName,
+  ForgeRepository,
+} from "./ForgeProvider.js";
+
+export interface ForgeSettings {
+  // Which forge the remote is on, detected from the host when left out
+  provider?: ForgeProviderName;
+  // API root, e.g. for GitHub Enterprise; must be on the remote's host
+  baseUrl?: string;
+  // Which of the provider's token variables to use
+  tokenEnv?: string;
+}
+
+// Environment variables checked for a token; tokenEnv can only pick one of
+// them, since the settings come from the repository being described
+const TOKEN_VARIABLES: Record<ForgeProviderName, string[]> = {
+  github: ["GITHUB_TOKEN", "GH_TOKEN"],
+  gitlab: ["GITLAB_TOKEN"],
+  gitea: ["GITEA_TOKEN"],
+  bitbucket: ["BITBUCKET_TOKEN"],
+};
+
+// Helper to guess the forge from the remote's host name
+function detectProvider(host: string): ForgeProviderName | undefined {
+  const lower = host.toLowerCase();
+  if (lower === "github.com" || lower.endsWith(".github.com")) {
+    return "github";
+  }
+  if (lower === "bitbucket.org") {
+    return "bitbucket";
+  }
+  if (lower.includes("gitlab")) {
+    return "gitlab";
+  }
+  if (lower.includes("gitea") || lower === "codeberg.org") {
+    return "gitea";
+  }
+  return undefined;
+}
+
+// Helper to build the default API root for a forge host
+function defaultBaseUrl(
+  provider: ForgeProviderName,
+  repository: ForgeRepository
+): string {
+  switch (provider) {
+    case "github":
+      // GitHub Enterprise Server serves the API below /api/v3
+      return repository.host === "github.com"
+        ? "https://api.github.com"
+        : `https://${repository.host}/api/v3`;
+    case "gitlab":
+      return `https://${repository.host}/api/v4`;
+    case "gitea":
+      return `https://${repository.host}/api/v1`;
+    case "bitbucket":
+      return "https://api.bitbucket.org/2.0";
+  }
+}
+
+/**
+ * Creates the provider for the forge a git remote points at
+ *
+ * @param remoteUrl URL of the remote the branch is pushed to
+ * @param settings Provider, API root and token variable overrides
+ * @param env Environment to read the token from
+ * @returns A provider ready to open pull requests
+ */
+export default function createForgeProvider(
+  remoteUrl: string,
+  settings: ForgeSettings = {},
+  env: NodeJS.ProcessEnv = process.env
+): ForgeProvider {
+  const repository = parseRemoteUrl(remoteUrl);
+  if (!repository) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Cannot read the owner and repository from the remote URL ${remoteUrl}`
+    );
+  }
+
+  const provider = settings.provider || detectProvider(repository.host);
+  if (!provider) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Cannot tell which forge ${repository.host} is. Set forge.provider in the project configuration`
+    );
+  }
+
+  // A repository's configuration must not send a token somewhere else, or
+  // send another secret from the environment as a token
+  const defaultUrl = defaultBaseUrl(provider, repository);
+  if (settings.baseUrl) {
+    const allowedHosts = [repository.host, new URL(defaultUrl).hostname].map(
+      (host) => host.toLowerCase()
+    );
+    const host = new URL(settings.baseUrl).hostname.toLowerCase();
+    if (!allowedHosts.includes(host)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `forge.baseUrl must be on the remote's host (${allowedHosts.join(
+          " or "
+        )}), not ${host}`
+      );
+    }
+  }
+  if (
+    settings.tokenEnv &&
+    !TOKEN_VARIABLES[provider].includes(settings.tokenEnv)
+  ) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `forge.tokenEnv must be one of ${TOKEN_VARIABLES[provider].join(", ")}`
+    );
+  }
+
+  const tokenVariables = settings.tokenEnv
+    ? [settings.tokenEnv]
+    : TOKEN_VARIABLES[provider];
+  const token = tokenVariables.map((name) => env[name]).find((value) => value);
+  if (!token) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No ${provider} token found. Set ${tokenVariables.join(" or ")}`
+    );
+  }
+
+  const options = {
+    baseUrl: settings.baseUrl || defaultUrl,
+    token,
+    repository,
+  };
+  switch (provider) {
+    case "github":
+      return new GitHubProvider(options);
+    case "gitlab":
+      return new GitLabProvider(options);
+    case "gitea":
+      return new GiteaProvider(options);
+    case "bitbucket":
+      return new BitbucketProvider(options);
+  }
+}
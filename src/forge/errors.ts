@@ -0,0 +1,13 @@
+// A forge API request failed or returned an unexpected response
+export class ForgeError extends Error {
+  constructor(
+    message: string,
+    // HTTP status of the failed request, when there was a response
+    readonly status?: number,
+    // Raw response body, for logging
+    readonly responseBody = ""
+  ) {
+    super(message);
+    this.name = "ForgeError";
+  }
+}
@@ -0,0 +1,46 @@
+import type { ForgeRepository } from "./ForgeProvider.js";
+
+/**
+ * Reads the host, owner and repository name out of a git remote URL
+ *
+ * Handles https URLs, `ssh://` URLs and scp-like `git@host:owner/repo.git`.
+ *
+ * @param url The remote URL as printed by `git remote get-url`
+ * @returns The repository, or undefined when the URL has no owner/name path
+ */
+export default function parseRemoteUrl(
+  url: string
+): ForgeRepository | undefined {
+  const trimmed = url.trim();
+  let host: string;
+  let path: string;
+
+  const scpLike = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (scpLike) {
+    host = scpLike[1];
+    path = scpLike[2];
+  } else {
+    try {
+      const parsed = new URL(trimmed);
+      host = parsed.hostname;
+      path = decodeURIComponent(parsed.pathname);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  const segments = path
+    .replace(/\.git\/?$/, "")
+    .split("/")
+    .filter(Boolean);
+  // Nested GitLab groups keep every segment but the last as the owner
+  if (segments.length < 2) {
+    return undefined;
+  }
+
+  return {
+    host,
+    owner: segments.slice(0, -1).join("/"),
+    name: segments[segments.length - 1],
+  };
+}
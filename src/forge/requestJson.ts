@@ -0,0 +1,77 @@
+import { ForgeError } from "./errors.js";
+
+export interface JsonRequest {
+  method?: "GET" | "POST" | "PUT" | "PATCH";
+  headers?: Record<string, string>;
+  // Sent as JSON when given
+  body?: unknown;
+}
+
+// Helper to pull a readable message out of a forge's error response
+function describeErrorBody(body: string): string {
+  try {
+    const json = JSON.parse(body);
+    const message =
+      json.message || json.error?.message || json.error || json.errors;
+    if (message) {
+      return typeof message === "string" ? message : JSON.stringify(message);
+    }
+  } catch (error) {
+    // Not JSON, fall through to the raw body
+  }
+  return body.trim().slice(0, 200);
+}
+
+/**
+ * Sends a request to a forge API and parses the JSON response
+ *
+ * @param url Absolute URL of the endpoint
+ * @param request Method, headers and JSON body
+ * @returns The parsed response body
+ */
+export default async function requestJson<T>(
+  url: string,
+  request: JsonRequest = {}
+): Promise<T> {
+  const method = request.method || "GET";
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: {
+        Accept: "application/json",
+        ...(request.body !== undefined
+          ? { "Content-Type": "application/json" }
+          : {}),
+        ...request.headers,
+      },
+      body:
+        request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    });
+  } catch (error: any) {
+    throw new ForgeError(
+      `${method} ${url} failed: ${error.cause?.message || error.message}`
+    );
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new ForgeError(
+      `${method} ${url} returned ${response.status}: ${
+        describeErrorBody(text) || response.statusText
+      }`,
+      response.status,
+      text
+    );
+  }
+
+  try {
+    return (text ? JSON.parse(text) : undefined) as T;
+  } catch (error) {
+    throw new ForgeError(
+      `${method} ${url} returned invalid JSON`,
+      response.status,
+      text
+    );
+  }
+}
@@ -0,0 +1,570 @@
+import { execFile as execFileCallback } from "child_process";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+import {
+  DetachedHeadError,
+  GitError,
+  NotARepositoryError,
+  ShallowCloneError,
+  UnknownRefError,
+} from "./errors.js";
+
+const execFile = promisify(execFileCallback);
+
+// Large enough for diffs of big refactors and lockfile churn
+const DEFAULT_MAX_BUFFER = 256 * 1024 * 1024;
+
+// Where to read a file from: a commit, the index or the working tree
+export type FileRevision = { commit: string } | "index" | "working-tree";
+
+export interface GitClientOptions {
+  // Maximum stdout size in bytes before a command fails
+  maxBuffer?: number;
+}
+
+/**
+ * Runs git in one repository without going through a shell
+ *
+ * Arguments are passed as an array, so branch names with spaces or `$()`
+ * reach git untouched, and every command runs with its own `cwd` instead of
+ * changing the working directory of the whole server process.
+ */
+export class GitClient {
+  private readonly maxBuffer: number;
+
+  constructor(readonly cwd: string, options: GitClientOptions = {}) {
+    this.maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+  }
+
+  /**
+   * Runs a git command and returns its stdout
+   *
+   * @param args Arguments passed to git as-is
+   * @param allowedExitCodes Exit codes that do not count as failures
+   * @returns The command output
+   */
+  async run(args: string[], allowedExitCodes: number[] = [0]): Promise<string> {
+    try {
+      const { stdout } = await execFile("git", args, {
+        cwd: this.cwd,
+        maxBuffer: this.maxBuffer,
+        encoding: "utf8",
+      });
+      return stdout;
+    } catch (error: any) {
+      // Some commands, like `diff --no-index`, exit with 1 on success
+      if (
+        typeof error.code === "number" &&
+        allowedExitCodes.includes(error.code)
+      ) {
+        return error.stdout || "";
+      }
+      const stderr: string = error.stderr || "";
+      if (/not a git repository/i.test(stderr)) {
+        throw new NotARepositoryError(this.cwd, stderr);
+      }
+      if (error.code === "ERR_CHILD_PROCESS_STDIO_MAXBUFFER") {
+        throw new GitError(
+          `Output of git ${args[0]} is larger than ${this.maxBuffer} bytes`,
+          args
+        );
+      }
+      if (error.code === "ENOENT") {
+        throw new GitError("git is not installed or not on the PATH", args);
+      }
+      throw new GitError(
+        `git ${args[0]} failed: ${stderr.trim() || error.message}`,
+        args,
+        stderr
+      );
+    }
+  }
+
+  /**
+   * Runs a git command, returning undefined instead of throwing on failure
+   *
+   * @param args Arguments passed to git as-is
+   * @returns The command output, or undefined if git exited with an error
+   */
+  async tryRun(args: string[]): Promise<string | undefined> {
+    try {
+      return await this.run(args);
+    } catch (error) {
+      if (error instanceof NotARepositoryError) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
+
+  // Throws NotARepositoryError unless cwd is inside a work tree
+  async ensureRepository(): Promise<void> {
+    const inside = await this.tryRun(["rev-parse", "--is-inside-work-tree"]);
+    if (inside?.trim() !== "true") {
+      throw new NotARepositoryError(this.cwd);
+    }
+  }
+
+  // Name of the checked out branch, throws DetachedHeadError if there is none
+  async currentBranch(): Promise<string> {
+    const branch = (
+      await this.run(["rev-parse", "--abbrev-ref", "HEAD"])
+    ).trim();
+    if (branch === "HEAD") {
+      throw new DetachedHeadError();
+    }
+    return branch;
+  }
+
+  // Full SHA of the commit a ref points at, throws UnknownRefError otherwise
+  async resolveCommit(ref: string): Promise<string> {
+    const sha = await this.tryRun([
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      "--end-of-options",
+      `${ref}^{commit}`,
+    ]);
+    if (!sha?.trim()) {
+      throw new UnknownRefError(ref);
+    }
+    return sha.trim();
+  }
+
+  // Whether two refs resolve to the same commit
+  async isSameCommit(firstRef: string, secondRef: string): Promise<boolean> {
+    const [first, second] = await Promise.all([
+      this.resolveCommit(firstRef),
+      this.resolveCommit(secondRef),
+    ]);
+    return first === second;
+  }
+
+  // Short name of the branch a remote's HEAD points at, e.g. "origin/main"
+  async remoteHead(remote = "origin"): Promise<string | undefined> {
+    const ref = await this.tryRun([
+      "symbolic-ref",
+      "--quiet",
+      "--short",
+      `refs/remotes/${remote}/HEAD`,
+    ]);
+    return ref?.trim() || undefined;
+  }
+
+  // Short name of the upstream tracking branch of a local branch
+  async upstreamOf(branch: string): Promise<string | undefined> {
+    const upstream = await this.tryRun([
+      "rev-parse",
+      "--abbrev-ref",
+      "--symbolic-full-name",
+      "--end-of-options",
+      `${branch}@{upstream}`,
+    ]);
+    return upstream?.trim() || undefined;
+  }
+
+  // Whether a local branch with this name exists
+  async hasLocalBranch(branch: string): Promise<boolean> {
+    const result = await this.tryRun([
+      "show-ref",
+      "--verify",
+      "--quiet",
+      `refs/heads/${branch}`,
+    ]);
+    return result !== undefined;
+  }
+
+  // Names of all local branches
+  async localBranches(): Promise<string[]> {
+    const branches = await this.run(["branch", "--format=%(refname:short)"]);
+    return branches
+      .split("\n")
+      .map((branch) => branch.trim())
+      .filter(Boolean);
+  }
+
+  // Names of the configured remotes
+  async remotes(): Promise<string[]> {
+    const remotes = await this.run(["remote"]);
+    return remotes
+      .split("\n")
+      .map((remote) => remote.trim())
+      .filter(Boolean);
+  }
+
+  // Fetch URL of a remote, or undefined if there is no such remote
+  async remoteUrl(remote: string): Promise<string | undefined> {
+    const url = await this.tryRun(["remote", "get-url", "--", remote]);
+    return url?.trim() || undefined;
+  }
+
+  /**
+   * Pushes a local branch and sets it as the upstream
+   *
+   * @param remote Remote to push to
+   * @param branch Local branch, pushed under the same name
+   */
+  async push(remote: string, branch: string): Promise<void> {
+    await this.run([
+      "push",
+      "--quiet",
+      "--set-upstream",
+      "--",
+      remote,
+      `refs/heads/${branch}:refs/heads/${branch}`,
+    ]);
+  }
+
+  // Whether the repository is a shallow clone
+  async isShallow(): Promise<boolean> {
+    const shallow = await this.tryRun(["rev-parse", "--is-shallow-repository"]);
+    return shallow?.trim() === "true";
+  }
+
+  // Whether a remote-tracking branch such as "origin/main" exists
+  async hasRemoteBranch(remote: string, branch: string): Promise<boolean> {
+    const result = await this.tryRun([
+      "show-ref",
+      "--verify",
+      "--quiet",
+      `refs/remotes/${remote}/${branch}`,
+    ]);
+    return result !== undefined;
+  }
+
+  // Absolute path of this work tree's git directory (a file-backed location
+  // under the main repository's .git/worktrees/ for linked worktrees)
+  async gitDir(): Promise<string> {
+    return (await this.run(["rev-parse", "--absolute-git-dir"])).trim();
+  }
+
+  // Whether cwd is a linked worktree created with `git worktree add`
+  async isLinkedWorktree(): Promise<boolean> {
+    const [gitDir, commonDir] = (
+      await this.run([
+        "rev-parse",
+        "--path-format=absolute",
+        "--git-dir",
+        "--git-common-dir",
+      ])
+    )
+      .trim()
+      .split("\n");
+    return gitDir !== commonDir;
+  }
+
+  // Merge-base of two refs, or undefined if they share no history locally
+  async mergeBase(base: string, head: string): Promise<string | undefined> {
+    const sha = await this.tryRun([
+      "merge-base",
+      "--end-of-options",
+      base,
+      head,
+    ]);
+    return sha?.trim() || undefined;
+  }
+
+  /**
+   * Fetches more history into a shallow clone
+   *
+   * @param remote Remote to fetch from
+   * @param depth Number of commits to deepen the history by
+   */
+  async deepen(remote: string, depth: number): Promise<void> {
+    await this.run(["fetch", "--quiet", `--deepen=${depth}`, remote]);
+  }
+
+  /**
+   * Diffs two commits directly (`base head`), without a merge-base
+   *
+   * @param base Branch, tag or commit to compare against
+   * @param head Branch, tag or commit containing the changes
+   * @returns Unified diff output
+   */
+  async diffCommits(base: string, head: string): Promise<string> {
+    return this.run(["diff", "--end-of-options", base, head]);
+  }
+
+  /**
+   * Diffs head against its merge-base with base (`base...head`)
+   *
+   * @param base Branch, tag or commit to compare against
+   * @param head Branch, tag or commit containing the changes
+   * @returns Unified diff output
+   */
+  async diffFromMergeBase(base: string, head: string): Promise<string> {
+    try {
+      return await this.run(["diff", "--end-of-options", `${base}...${head}`]);
+    } catch (error) {
+      if (
+        error instanceof GitError &&
+        /no merge base/i.test(error.stderr) &&
+        (await this.isShallow())
+      ) {
+        throw new ShallowCloneError(
+          `No merge base between ${base} and ${head} in this shallow clone`,
+          error.stderr
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Diffs the working tree or index against HEAD
+   *
+   * @param staged Diff the index (`--staged`) instead of the working tree
+   * @returns Unified diff output
+   */
+  async diffWorkingTree(staged = false): Promise<string> {
+    return this.run(staged ? ["diff", "--staged"] : ["diff"]);
+  }
+
+  /**
+   * Diffs the working tree (staged and unstaged changes to tracked files)
+   * against a commit
+   *
+   * @param commit Commit to compare against, e.g. the merge-base
+   * @returns Unified diff output
+   */
+  async diffWorkingTreeFrom(commit: string): Promise<string> {
+    return this.run(["diff", "--end-of-options", commit]);
+  }
+
+  // Paths with staged (index) or unstaged (working tree) changes
+  async changedFiles(staged: boolean): Promise<string[]> {
+    const output = await this.run(
+      staged
+        ? ["diff", "--staged", "--name-only", "-z"]
+        : ["diff", "--name-only", "-z"]
+    );
+    return output.split("\0").filter(Boolean);
+  }
+
+  // Untracked paths that are not ignored by .gitignore
+  async untrackedFiles(): Promise<string[]> {
+    const output = await this.run([
+      "ls-files",
+      "--others",
+      "--exclude-standard",
+      "-z",
+    ]);
+    return output.split("\0").filter(Boolean);
+  }
+
+  /**
+   * Renders an untracked file as a new-file diff
+   *
+   * @param path Path of the untracked file, relative to cwd
+   * @returns Unified diff output adding the whole file
+   */
+  async diffUntrackedFile(path: string): Promise<string> {
+    return this.run(["diff", "--no-index", "--", "/dev/null", path], [0, 1]);
+  }
+
+  /**
+   * Counts the added and deleted lines per file (`git diff --numstat -z`)
+   *
+   * @param from Commit to compare against; the index is compared with HEAD
+   * (`staged`) or the working tree with the index when left out
+   * @param to Commit to compare with, the working tree when left out
+   * @param staged Compare the index with HEAD when from is left out
+   * @returns Raw numstat output
+   */
+  async diffNumstat(
+    from?: string,
+    to?: string,
+    staged = false
+  ): Promise<string> {
+    if (!from) {
+      return this.run(
+        staged
+          ? ["diff", "--staged", "--numstat", "-z"]
+          : ["diff", "--numstat", "-z"]
+      );
+    }
+    return this.run([
+      "diff",
+      "--numstat",
+      "-z",
+      "--end-of-options",
+      ...(to ? [from, to] : [from]),
+    ]);
+  }
+
+  /**
+   * Counts the lines of an untracked file as a new-file numstat record
+   *
+   * @param path Path of the untracked file, relative to cwd
+   * @returns Raw numstat output
+   */
+  async numstatUntrackedFile(path: string): Promise<string> {
+    return this.run(
+      ["diff", "--no-index", "--numstat", "-z", "--", "/dev/null", path],
+      [0, 1]
+    );
+  }
+
+  /**
+   * Lists the commits reachable from head but not from base (`base..head`)
+   *
+   * @param base Branch, tag or commit to compare against
+   * @param head Branch, tag or commit containing the changes
+   * @param format Value for `--format`
+   * @param paths Only list commits touching these paths, relative to the
+   * top-level directory
+   * @returns Raw `git log` output
+   */
+  async log(
+    base: string,
+    head: string,
+    format: string,
+    paths: string[] = []
+  ): Promise<string> {
+    return this.run([
+      "log",
+      `--format=${format}`,
+      "--end-of-options",
+      `${base}..${head}`,
+      ...(paths.length > 0
+        ? ["--", ...paths.map((path) => `:(top)${path}`)]
+        : []),
+    ]);
+  }
+
+  /**
+   * Shows who last changed lines of a file (`git blame --line-porcelain`)
+   *
+   * @param commit Commit to blame the file at
+   * @param path Path relative to the top-level directory
+   * @param ranges Inclusive line ranges to blame
+   * @returns Raw porcelain output, or undefined if the file is not there
+   */
+  async blame(
+    commit: string,
+    path: string,
+    ranges: [number, number][]
+  ): Promise<string | undefined> {
+    // blame takes neither --end-of-options nor pathspec magic, so the
+    // commit must be resolved and the path made absolute
+    return this.tryRun([
+      "blame",
+      "--line-porcelain",
+      ...ranges.flatMap(([start, end]) => ["-L", `${start},${end}`]),
+      await this.resolveCommit(commit),
+      "--",
+      join(await this.topLevel(), path),
+    ]);
+  }
+
+  /**
+   * Lists the most recent commits touching a file
+   *
+   * @param commit Commit to start the history from
+   * @param path Path relative to the top-level directory
+   * @param format Value for `--format`
+   * @param maxCount Most commits listed
+   * @returns Raw `git log` output
+   */
+  async fileHistory(
+    commit: string,
+    path: string,
+    format: string,
+    maxCount: number
+  ): Promise<string> {
+    return this.run([
+      "log",
+      `--format=${format}`,
+      `--max-count=${maxCount}`,
+      "--no-merges",
+      "--end-of-options",
+      commit,
+      "--",
+      `:(top)${path}`,
+    ]);
+  }
+
+  // Name and email configured for new commits
+  async user(): Promise<{ name: string; email: string }> {
+    const [name, email] = await Promise.all([
+      this.tryRun(["config", "user.name"]),
+      this.tryRun(["config", "user.email"]),
+    ]);
+    return { name: name?.trim() || "", email: email?.trim() || "" };
+  }
+
+  // Absolute path of the top-level directory of the work tree
+  async topLevel(): Promise<string> {
+    return (await this.run(["rev-parse", "--show-toplevel"])).trim();
+  }
+
+  /**
+   * Reads a file as it is at a commit, in the index or in the working tree
+   *
+   * @param revision Where to read the file from
+   * @param path Path relative to the top-level directory, as in diffs
+   * @returns The file content, or undefined if it does not exist there
+   */
+  async fileAt(
+    revision: FileRevision,
+    path: string
+  ): Promise<string | undefined> {
+    if (revision === "working-tree") {
+      try {
+        return await readFile(join(await this.topLevel(), path), "utf8");
+      } catch (error) {
+        return undefined;
+      }
+    }
+    // "<commit>:<path>" and ":<path>" are relative to the top-level directory
+    return this.tryRun([
+      "show",
+      "--end-of-options",
+      revision === "index" ? `:${path}` : `${revision.commit}:${path}`,
+    ]);
+  }
+
+  /**
+   * Lists all files at a commit, in the index or in the working tree
+   * (tracked plus untracked files that are not ignored)
+   *
+   * @param revision Where to list the files
+   * @returns Paths relative to the top-level directory
+   */
+  async filesAt(revision: FileRevision): Promise<string[]> {
+    const output =
+      revision === "working-tree" || revision === "index"
+        ? await this.run([
+            "ls-files",
+            "--full-name",
+            "-z",
+            ...(revision === "working-tree"
+              ? ["--cached", "--others", "--exclude-standard"]
+              : []),
+            "--",
+            ":/",
+          ])
+        : await this.run([
+            "ls-tree",
+            "-r",
+            "--full-tree",
+            "--name-only",
+            "-z",
+            "--end-of-options",
+            revision.commit,
+          ]);
+    return output.split("\0").filter(Boolean);
+  }
+
+  // Whether git tracks the file at this path
+  async isTracked(path: string): Promise<boolean> {
+    const result = await this.tryRun([
+      "ls-files",
+      "--error-unmatch",
+      "--",
+      path,
+    ]);
+    return result !== undefined;
+  }
+}
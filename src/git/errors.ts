@@ -0,0 +1,45 @@
+// Base class for failures reported by the git client
+export class GitError extends Error {
+  constructor(
+    message: string,
+    // The git arguments that failed, for logging
+    readonly args: string[] = [],
+    // What git printed on stderr
+    readonly stderr = ""
+  ) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+// The directory is not inside a git work tree
+export class NotARepositoryError extends GitError {
+  constructor(readonly directory: string, stderr = "") {
+    super(`Not a git repository: ${directory}`, [], stderr);
+    this.name = "NotARepositoryError";
+  }
+}
+
+// A branch, tag or commit that does not resolve to a commit
+export class UnknownRefError extends GitError {
+  constructor(readonly ref: string, stderr = "") {
+    super(`Unknown ref: ${ref}`, [], stderr);
+    this.name = "UnknownRefError";
+  }
+}
+
+// HEAD points at a commit instead of a branch
+export class DetachedHeadError extends GitError {
+  constructor() {
+    super("HEAD is detached, there is no current branch");
+    this.name = "DetachedHeadError";
+  }
+}
+
+// The history needed for the operation is missing from a shallow clone
+export class ShallowCloneError extends GitError {
+  constructor(message: string, stderr = "") {
+    super(message, [], stderr);
+    this.name = "ShallowCloneError";
+  }
+}
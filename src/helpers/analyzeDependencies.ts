@@ -0,0 +1,474 @@
+import { posix } from "path";
+import parseLockfile, {
+  lockfileKind,
+  LOCKFILE_NAMES,
+} from "./parseLockfile.js";
+import type { Lockfile, LockfileKind } from "./parseLockfile.js";
+import type { SourceReader } from "./comparePublicApi.js";
+
+export const DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+] as const;
+
+export type DependencyField = (typeof DEPENDENCY_FIELDS)[number];
+
+export interface DependencyChange {
+  name: string;
+  field: DependencyField;
+  change: "added" | "removed" | "upgraded" | "downgraded" | "changed" | "moved";
+  // Field the dependency was in before, for moved dependencies
+  previousField?: DependencyField;
+  // Ranges in package.json
+  before?: string;
+  after?: string;
+  // Versions installed according to the lockfile
+  resolved: { before?: string; after?: string };
+  // The new version is outside the old major version (or 0.x minor)
+  major: boolean;
+}
+
+export interface ManifestReport {
+  // Path of the package.json
+  path: string;
+  packageName?: string;
+  changes: DependencyChange[];
+  // Lockfile installing this package, if one was found
+  lockfile?: string;
+  // Whether the lockfile is part of the changes
+  lockfileUpdated: boolean;
+  // Dependencies where package.json and the lockfile disagree
+  mismatches: string[];
+}
+
+export interface LockedVersionChange {
+  name: string;
+  before: string;
+  after: string;
+  major: boolean;
+}
+
+export interface LockfileReport {
+  path: string;
+  kind: LockfileKind;
+  added: string[];
+  removed: string[];
+  upgraded: LockedVersionChange[];
+  downgraded: LockedVersionChange[];
+}
+
+export interface DependencyReport {
+  manifests: ManifestReport[];
+  lockfiles: LockfileReport[];
+}
+
+type DependencyMap = Map<string, { field: DependencyField; range: string }>;
+
+// Dependencies in peerDependencies are installed by the consumer, so they
+// have no lockfile entry of their own
+const INSTALLED_FIELDS: DependencyField[] = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+];
+
+/**
+ * Tells whether a path is a package.json or a lockfile
+ *
+ * @param path Repository-relative path
+ * @returns True for files read by the dependency analysis
+ */
+export function isDependencyFile(path: string): boolean {
+  return (
+    !path.split("/").includes("node_modules") &&
+    (posix.basename(path) === "package.json" ||
+      lockfileKind(path) !== undefined)
+  );
+}
+
+// Helper to parse a semantic version, or the lowest version a range allows,
+// e.g. "^1.2.0" is 1.2.0 and "~2" is 2.0.0
+function parseVersion(value: string): number[] | undefined {
+  const match = value.match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  // Git, file and workspace references carry no comparable version
+  if (!match || /^(?!npm:)[a-z+]+:/i.test(value)) {
+    return undefined;
+  }
+  return match.slice(1, 4).map((part) => Number(part || 0));
+}
+
+// Helper to order two versions or ranges, 0 when they cannot be compared
+function compareVersions(before: string, after: string): number {
+  const previous = parseVersion(before);
+  const next = parseVersion(after);
+  if (!previous || !next) {
+    return 0;
+  }
+  for (let i = 0; i < 3; i++) {
+    if (next[i] !== previous[i]) {
+      return next[i] - previous[i];
+    }
+  }
+  return 0;
+}
+
+// Helper to tell whether moving between two versions crosses a major
+// version, which for 0.x versions is the minor version
+function isMajorChange(before: string, after: string): boolean {
+  const previous = parseVersion(before);
+  const next = parseVersion(after);
+  if (!previous || !next) {
+    return false;
+  }
+  if (previous[0] !== next[0]) {
+    return true;
+  }
+  return previous[0] === 0 && previous[1] !== next[1];
+}
+
+// Helper to read and parse a JSON file on one side
+async function readJson(
+  read: SourceReader,
+  side: "before" | "after",
+  path: string
+): Promise<Record<string, any> | undefined> {
+  const content = await read(side, path);
+  if (content === undefined) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === "object" ? parsed : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Helper to collect the declared dependencies of a package.json
+function readDependencies(manifest?: Record<string, any>): DependencyMap {
+  const dependencies: DependencyMap = new Map();
+  for (const field of DEPENDENCY_FIELDS) {
+    const entries = manifest?.[field];
+    if (!entries || typeof entries !== "object") {
+      continue;
+    }
+    for (const [name, range] of Object.entries(entries)) {
+      // A package in several fields is reported under the first one
+      if (!dependencies.has(name)) {
+        dependencies.set(name, { field, range: String(range) });
+      }
+    }
+  }
+  return dependencies;
+}
+
+// Helper to find the version a lockfile installs for a direct dependency
+function lockedVersion(
+  lockfile: Lockfile | undefined,
+  importer: string,
+  name: string,
+  range: string | undefined
+): string | undefined {
+  if (!lockfile) {
+    return undefined;
+  }
+  if (lockfile.kind === "yarn") {
+    return range === undefined
+      ? undefined
+      : lockfile.descriptors.get(`${name}@${range}`) ||
+          lockfile.descriptors.get(`${name}@npm:${range}`);
+  }
+  return lockfile.importers.get(importer)?.get(name)?.version;
+}
+
+// Helper to compare the dependencies declared on both sides of a package.json
+function diffDependencies(
+  before: DependencyMap,
+  after: DependencyMap
+): DependencyChange[] {
+  const changes: DependencyChange[] = [];
+  const names = new Set([...before.keys(), ...after.keys()]);
+
+  for (const name of names) {
+    const previous = before.get(name);
+    const next = after.get(name);
+    const resolved = {};
+    if (!previous && next) {
+      changes.push({
+        name,
+        field: next.field,
+        change: "added",
+        after: next.range,
+        resolved,
+        major: false,
+      });
+    } else if (previous && !next) {
+      changes.push({
+        name,
+        field: previous.field,
+        change: "removed",
+        before: previous.range,
+        resolved,
+        major: false,
+      });
+    } else if (previous && next) {
+      if (previous.range !== next.range) {
+        const order = compareVersions(previous.range, next.range);
+        changes.push({
+          name,
+          field: next.field,
+          change: order > 0 ? "upgraded" : order < 0 ? "downgraded" : "changed",
+          before: previous.range,
+          after: next.range,
+          resolved,
+          major: isMajorChange(previous.range, next.range),
+        });
+      } else if (previous.field !== next.field) {
+        changes.push({
+          name,
+          field: next.field,
+          change: "moved",
+          previousField: previous.field,
+          before: previous.range,
+          after: next.range,
+          resolved,
+          major: false,
+        });
+      }
+    }
+  }
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Helper to find the lockfile closest to a package.json, looking in its
+// directory first and then in the parent directories (workspace roots)
+async function findLockfile(
+  read: SourceReader,
+  directory: string
+): Promise<{ path: string; content: string } | undefined> {
+  let current = directory;
+  while (true) {
+    for (const name of Object.keys(LOCKFILE_NAMES)) {
+      const path = current === "." ? name : `${current}/${name}`;
+      const content = await read("after", path);
+      if (content !== undefined) {
+        return { path, content };
+      }
+    }
+    if (current === ".") {
+      return undefined;
+    }
+    current = posix.dirname(current);
+  }
+}
+
+// Helper to list where package.json and the lockfile disagree
+function findMismatches(
+  lockfile: Lockfile,
+  importer: string,
+  dependencies: DependencyMap
+): string[] {
+  const mismatches: string[] = [];
+  const locked = lockfile.importers.get(importer);
+
+  for (const [name, { field, range }] of dependencies) {
+    // Only registry ranges can be checked, not git, file or workspace links
+    if (!INSTALLED_FIELDS.includes(field) || /^(?!npm:)[a-z+]+:/i.test(range)) {
+      continue;
+    }
+    if (lockfile.kind === "yarn") {
+      if (lockedVersion(lockfile, importer, name, range) === undefined) {
+        mismatches.push(`\`${name}@${range}\` has no entry in the lockfile`);
+      }
+      continue;
+    }
+    const entry = locked?.get(name);
+    if (!entry) {
+      mismatches.push(`\`${name}\` is missing from the lockfile`);
+    } else if (entry.specifier !== undefined && entry.specifier !== range) {
+      mismatches.push(
+        `\`${name}\` is ${range} in package.json but ${entry.specifier} in the lockfile`
+      );
+    }
+  }
+
+  // Version 1 npm lockfiles and yarn.lock do not list direct dependencies
+  // by range, so leftovers can only be found in the other formats
+  if (locked && lockfile.kind !== "yarn") {
+    for (const [name, entry] of locked) {
+      if (entry.specifier !== undefined && !dependencies.has(name)) {
+        mismatches.push(
+          `\`${name}\` is not in package.json but still in the lockfile`
+        );
+      }
+    }
+  }
+
+  return mismatches;
+}
+
+// Helper to compare every locked package version on both sides
+function diffLockfiles(
+  path: string,
+  before: Lockfile | undefined,
+  after: Lockfile
+): LockfileReport {
+  const report: LockfileReport = {
+    path,
+    kind: after.kind,
+    added: [],
+    removed: [],
+    upgraded: [],
+    downgraded: [],
+  };
+  // With several versions installed, the newest one is compared
+  const newest = (versions: Set<string>) =>
+    [...versions].sort(compareVersions)[0];
+  const previous = before?.packages || new Map<string, Set<string>>();
+
+  for (const [name, versions] of after.packages) {
+    if (!previous.has(name)) {
+      report.added.push(name);
+      continue;
+    }
+    const from = newest(previous.get(name)!);
+    const to = newest(versions);
+    const order = compareVersions(from, to);
+    if (order !== 0) {
+      const change = {
+        name,
+        before: from,
+        after: to,
+        major: isMajorChange(from, to),
+      };
+      (order > 0 ? report.upgraded : report.downgraded).push(change);
+    }
+  }
+  for (const name of previous.keys()) {
+    if (!after.packages.has(name)) {
+      report.removed.push(name);
+    }
+  }
+
+  report.added.sort();
+  report.removed.sort();
+  return report;
+}
+
+/**
+ * Compares the dependencies of every changed package.json and lockfile
+ * between the two sides of a diff
+ *
+ * For each package.json, the declared dependencies are compared and looked
+ * up in the closest lockfile (package-lock.json, npm-shrinkwrap.json,
+ * yarn.lock or pnpm-lock.yaml, also in a workspace root) to find the
+ * installed versions and whether the lockfile matches the new ranges.
+ *
+ * @param paths Paths changed in the diff
+ * @param read Reads a file from either side of the comparison
+ * @returns Dependency changes per package.json and locked version changes
+ *   per lockfile, or undefined when no dependency file changed
+ */
+export default async function analyzeDependencies(
+  paths: string[],
+  read: SourceReader
+): Promise<DependencyReport | undefined> {
+  const changed = new Set(paths.filter(isDependencyFile));
+  if (changed.size === 0) {
+    return undefined;
+  }
+
+  const manifests: ManifestReport[] = [];
+  const lockfiles: LockfileReport[] = [];
+  const parsed = new Map<string, Lockfile | undefined>();
+
+  // Helper to read a lockfile once per side
+  const lockfileAt = async (side: "before" | "after", path: string) => {
+    const key = `${side}:${path}`;
+    if (!parsed.has(key)) {
+      const content = await read(side, path);
+      parsed.set(
+        key,
+        content === undefined ? undefined : parseLockfile(path, content)
+      );
+    }
+    return parsed.get(key);
+  };
+
+  for (const path of changed) {
+    if (posix.basename(path) !== "package.json") {
+      continue;
+    }
+    const [beforeManifest, afterManifest] = await Promise.all([
+      readJson(read, "before", path),
+      readJson(read, "after", path),
+    ]);
+    const beforeDependencies = readDependencies(beforeManifest);
+    const afterDependencies = readDependencies(afterManifest);
+    const changes = diffDependencies(beforeDependencies, afterDependencies);
+    if (changes.length === 0) {
+      continue;
+    }
+
+    const report: ManifestReport = {
+      path,
+      packageName: (afterManifest || beforeManifest)?.name,
+      changes,
+      lockfileUpdated: false,
+      mismatches: [],
+    };
+    manifests.push(report);
+
+    const directory = posix.dirname(path);
+    const found = afterManifest
+      ? await findLockfile(read, directory)
+      : undefined;
+    if (!found) {
+      continue;
+    }
+    const importer = posix.relative(posix.dirname(found.path), directory);
+    report.lockfile = found.path;
+    report.lockfileUpdated = changed.has(found.path);
+
+    const [before, after] = await Promise.all([
+      lockfileAt("before", found.path),
+      lockfileAt("after", found.path),
+    ]);
+    for (const change of changes) {
+      change.resolved = {
+        before: lockedVersion(before, importer, change.name, change.before),
+        after: lockedVersion(after, importer, change.name, change.after),
+      };
+      if (!change.major && change.resolved.before && change.resolved.after) {
+        change.major = isMajorChange(
+          change.resolved.before,
+          change.resolved.after
+        );
+      }
+    }
+    if (after) {
+      report.mismatches = findMismatches(after, importer, afterDependencies);
+    }
+  }
+
+  for (const path of changed) {
+    if (!lockfileKind(path)) {
+      continue;
+    }
+    const [before, after] = await Promise.all([
+      lockfileAt("before", path),
+      lockfileAt("after", path),
+    ]);
+    if (after) {
+      lockfiles.push(diffLockfiles(path, before, after));
+    }
+  }
+
+  if (manifests.length === 0 && lockfiles.length === 0) {
+    return undefined;
+  }
+  return { manifests, lockfiles };
+}
@@ -0,0 +1,30 @@
+export type FileCategory =
+  | "ui"
+  | "code"
+  | "styling"
+  | "configuration"
+  | "documentation"
+  | "other";
+
+// Helper to put a changed file into a broad category based on its path
+export default function categorizeFile(file: string): FileCategory {
+  const fileExt = file.split(".").pop() || "";
+
+  if (fileExt === "tsx" || fileExt === "jsx" || file.includes("component")) {
+    return "ui";
+  }
+  if (fileExt === "ts" || fileExt === "js") {
+    return "code";
+  }
+  if (fileExt === "css" || fileExt === "scss") {
+    return "styling";
+  }
+  if (fileExt === "json") {
+    return "configuration";
+  }
+  if (["md", "mdx", "rst", "adoc", "txt"].includes(fileExt)) {
+    return "documentation";
+  }
+
+  return "other";
+}
@@ -0,0 +1,111 @@
+import type { CommitInfo } from "./parseCommitLog.js";
+import type { FileCategory } from "./categorizeFile.js";
+import { getAddedLines, getRemovedLines } from "./parseDiff.js";
+import type { DiffLine, ParsedDiff } from "./parseDiff.js";
+import type { PublicApiReport } from "./comparePublicApi.js";
+
+export type ChangeType =
+  | "bugfix"
+  | "feature"
+  | "breaking"
+  | "docs"
+  | "refactor"
+  | "performance";
+
+export interface ChangeClassification {
+  types: Set<ChangeType>;
+  reasons: string[];
+}
+
+// Conventional Commit types that map directly onto a change type
+const COMMIT_TYPE_MAP: Record<string, ChangeType> = {
+  fix: "bugfix",
+  feat: "feature",
+  docs: "docs",
+  refactor: "refactor",
+  perf: "performance",
+};
+
+const EXPORT_DECLARATION =
+  /^export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/;
+
+// Helper to find exported declarations that were removed and not re-added
+function findRemovedExports(
+  parsedDiff: ParsedDiff
+): { file: string; name: string }[] {
+  const result: { file: string; name: string }[] = [];
+
+  for (const file of parsedDiff.files) {
+    const exportNames = (lines: DiffLine[]) =>
+      new Set(
+        lines
+          .map((line) => line.content.trim().match(EXPORT_DECLARATION)?.[1])
+          .filter((name): name is string => Boolean(name))
+      );
+    const added = exportNames(getAddedLines(file));
+
+    for (const name of exportNames(getRemovedLines(file))) {
+      if (!added.has(name)) {
+        result.push({ file: file.path, name });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Classifies the PR into the "Type of Change" categories
+ *
+ * @param commits Commits between base and head
+ * @param parsedDiff Parsed diff between base and head
+ * @param fileCategories Category of each changed file
+ * @param publicApi Public API comparison of the package, if it is one
+ * @returns The detected change types and the reasoning behind each one
+ */
+export default function classifyChanges(
+  commits: CommitInfo[],
+  parsedDiff: ParsedDiff,
+  fileCategories: Record<string, FileCategory> = {},
+  publicApi?: PublicApiReport
+): ChangeClassification {
+  const types = new Set<ChangeType>();
+  const reasons: string[] = [];
+
+  // Conventional Commit prefixes and breaking-change markers
+  for (const commit of commits) {
+    const mapped = commit.type ? COMMIT_TYPE_MAP[commit.type] : undefined;
+    if (mapped) {
+      types.add(mapped);
+      reasons.push(`${commit.shortHash} is a "${commit.type}" commit`);
+    }
+    if (commit.breaking) {
+      types.add("breaking");
+      reasons.push(`${commit.shortHash} is marked as a breaking change`);
+    }
+  }
+
+  // Exports that disappeared from the public surface of a module
+  for (const { file, name } of findRemovedExports(parsedDiff)) {
+    types.add("breaking");
+    reasons.push(`export "${name}" was removed from ${file}`);
+  }
+
+  // Breaking changes to the package entry points
+  if (publicApi?.bump === "major") {
+    types.add("breaking");
+    reasons.push("the public API of the package has breaking changes");
+  }
+
+  // Changes that only touch documentation
+  const files = Object.keys(fileCategories);
+  if (
+    files.length > 0 &&
+    files.every((file) => fileCategories[file] === "documentation")
+  ) {
+    types.add("docs");
+    reasons.push("only documentation files were changed");
+  }
+
+  return { types, reasons };
+}
@@ -0,0 +1,157 @@
+import matchesGlob from "./matchesGlob.js";
+import { isTestFile } from "./matchTests.js";
+import { attributesFor } from "./parseGitattributes.js";
+import type { GitattributesRule } from "./parseGitattributes.js";
+import { getAddedLines } from "./parseDiff.js";
+import type { DiffFile } from "./parseDiff.js";
+
+export type FileClass =
+  | "source"
+  | "test"
+  | "config"
+  | "docs"
+  | "other"
+  | "generated"
+  | "vendored"
+  | "binary"
+  | "minified";
+
+// Classes of files that are listed but never analyzed line by line
+export const EXCLUDED_FILE_CLASSES: FileClass[] = [
+  "generated",
+  "vendored",
+  "binary",
+  "minified",
+];
+
+// Third-party code checked into the repository
+const VENDORED_PATHS = [
+  "**/{vendor,vendors,third_party,third-party,thirdparty,bower_components,node_modules}/**",
+];
+// Build output, snapshots, lockfiles and code written by tools
+const GENERATED_PATHS = [
+  "**/{dist,generated,__generated__,__snapshots__}/**",
+  "**/*.{snap,map}",
+  "**/*.{pb.go,pb.cc,pb.h,pb.swift}",
+  "**/*_{pb2,pb2_grpc}.py",
+  "**/*_pb.{js,d.ts}",
+  "**/*.{g,generated,freezed}.{ts,js,cs,dart}",
+  "**/{package-lock.json,npm-shrinkwrap.json,yarn.lock,pnpm-lock.yaml,go.sum,Cargo.lock,Gemfile.lock,poetry.lock,composer.lock}",
+];
+const MINIFIED_PATHS = "**/*.min.{js,mjs,cjs,css}";
+// Files git may diff as text when they happen to have no NUL bytes
+const BINARY_PATHS =
+  "**/*.{png,jpg,jpeg,gif,webp,ico,bmp,tiff,pdf,zip,gz,tgz,bz2,xz,7z,jar,war,woff,woff2,ttf,otf,eot,mp3,mp4,mov,wav,exe,dll,so,dylib,class,pyc,wasm}";
+const SOURCE_FILES =
+  "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs,vue,svelte,py,go,java,kt,kts,rs,rb,php,cs,swift,scala,c,cc,cpp,h,hpp,sql,css,scss}";
+const CONFIG_FILES = [
+  "**/*.{json,yml,yaml,toml,ini,properties,xml}",
+  "**/.env*",
+  "**/.{gitattributes,gitignore,editorconfig,npmrc,nvmrc}",
+  "**/.*rc",
+  "**/Dockerfile",
+  "**/Makefile",
+];
+const DOC_FILES = "**/*.{md,mdx,rst,adoc,txt}";
+
+// Markers tools put at the top of the files they write, e.g. Go's
+// "Code generated by protoc-gen-go. DO NOT EDIT." or "@generated"
+const GENERATED_HEADER =
+  /@generated\b|\bDO NOT EDIT\b|\b(?:auto-?generated|automatically generated)\b|\bthis file (?:is|was|has been) generated\b/i;
+// How far into a file a generated header is looked for
+const HEADER_LINES = 10;
+// Scripts and stylesheets with lines this long on average are minified,
+// the threshold GitHub Linguist uses
+const MINIFIED_LINE_LENGTH = 110;
+
+// Helper to look for a generated header in the first lines of the new file,
+// as far as the diff shows them
+function hasGeneratedHeader(file: DiffFile): boolean {
+  return file.hunks.some((hunk) =>
+    hunk.lines.some(
+      (line) =>
+        line.type !== "removed" &&
+        line.newLineNumber !== undefined &&
+        line.newLineNumber <= HEADER_LINES &&
+        GENERATED_HEADER.test(line.content)
+    )
+  );
+}
+
+// Helper to tell minified output from code by the average length of its
+// added lines
+function looksMinified(file: DiffFile): boolean {
+  if (!matchesGlob(file.path, "**/*.{js,mjs,cjs,css}")) {
+    return false;
+  }
+  const lengths = getAddedLines(file).map((line) => line.content.length);
+  return (
+    lengths.length > 0 &&
+    lengths.reduce((total, length) => total + length, 0) / lengths.length >
+      MINIFIED_LINE_LENGTH
+  );
+}
+
+/**
+ * Classifies a changed file for the PR document
+ *
+ * The repository's `.gitattributes` wins: `linguist-vendored`,
+ * `linguist-generated`, `binary` and `-diff` set the class, and setting
+ * the linguist attributes to false overrides the path heuristics. Otherwise
+ * git's "Binary files differ" marker, well-known binary, vendored and
+ * generated paths, generated-file headers and minified content decide, and the rest
+ * is classed by path as source, test, config or docs.
+ *
+ * @param file The changed file
+ * @param rules Rules parsed from the repository's `.gitattributes`
+ * @returns The class of the file
+ */
+export default function classifyFile(
+  file: DiffFile,
+  rules: GitattributesRule[] = []
+): FileClass {
+  const attributes = attributesFor(file.path, rules);
+  const vendored = attributes["linguist-vendored"];
+  const generated = attributes["linguist-generated"];
+
+  if (vendored) {
+    return "vendored";
+  }
+  if (generated) {
+    return "generated";
+  }
+  // binary is a macro for -diff -merge -text
+  if (
+    file.binary ||
+    attributes.binary === true ||
+    attributes.diff === false ||
+    matchesGlob(file.path, BINARY_PATHS)
+  ) {
+    return "binary";
+  }
+  if (vendored === undefined && matchesGlob(file.path, VENDORED_PATHS)) {
+    return "vendored";
+  }
+  if (matchesGlob(file.path, MINIFIED_PATHS) || looksMinified(file)) {
+    return "minified";
+  }
+  if (
+    generated === undefined &&
+    (matchesGlob(file.path, GENERATED_PATHS) || hasGeneratedHeader(file))
+  ) {
+    return "generated";
+  }
+  if (isTestFile(file.path)) {
+    return "test";
+  }
+  if (matchesGlob(file.path, SOURCE_FILES)) {
+    return "source";
+  }
+  if (matchesGlob(file.path, CONFIG_FILES)) {
+    return "config";
+  }
+  if (matchesGlob(file.path, DOC_FILES)) {
+    return "docs";
+  }
+  return "other";
+}
@@ -0,0 +1,970 @@
+import ts from "typescript";
+
+// Contents of a changed file before and after the change, undefined on the
+// side where the file does not exist
+export interface FileSources {
+  before?: string;
+  after?: string;
+}
+
+export type DeclarationKind =
+  | "function"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "variable"
+  | "namespace"
+  | "re-export";
+
+interface Parameter {
+  name: string;
+  type: string;
+  // Optional, defaulted or rest parameters can be left out by callers
+  optional: boolean;
+}
+
+interface Member {
+  signature: string;
+  optional: boolean;
+}
+
+export interface Declaration {
+  name: string;
+  kind: DeclarationKind;
+  // What callers see, e.g. "(a: string): number" for a function
+  signature: string;
+  // The whole declaration, to notice changes to the implementation
+  text: string;
+  // 1-based line of the declaration
+  line: number;
+  parameters?: Parameter[];
+  returnType?: string;
+  members?: Record<string, Member>;
+  // Module a re-export comes from, and the name it has there ("*" for all)
+  from?: string;
+  importedName?: string;
+  // Overload signatures of a function, compared as a set; the signature of
+  // the implementation is not callable and is left out
+  overloads?: Declaration[];
+}
+
+export interface ExportChange {
+  name: string;
+  kind: DeclarationKind;
+  // "updated" means the implementation changed but the signature did not
+  change: "added" | "removed" | "renamed" | "changed" | "updated";
+  // The old name of a renamed export
+  previousName?: string;
+  before?: string;
+  after?: string;
+  // Line in the new file, or in the old file for removed exports
+  line: number;
+  breaking: boolean;
+  // What changed, e.g. "new required parameter `b`"
+  reasons: string[];
+}
+
+export interface DeclarationChanges {
+  exports: ExportChange[];
+  // Top-level declarations that are not exported
+  internal: { added: string[]; removed: string[]; updated: string[] };
+  imports: { added: string[]; removed: string[] };
+}
+
+// Extensions parsed with the TypeScript compiler API
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+};
+
+// Helper to check whether a path is a TypeScript or JavaScript module
+export function isScriptFile(path: string): boolean {
+  return (path.split(".").pop() || "").toLowerCase() in SCRIPT_KINDS;
+}
+
+// Helper to collapse whitespace so formatting changes do not count
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) || []).some((modifier) => modifier.kind === kind)
+  );
+}
+
+function lineOf(node: ts.Node, sourceFile: ts.SourceFile): number {
+  return (
+    sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1
+  );
+}
+
+function readParameters(
+  parameters: ts.NodeArray<ts.ParameterDeclaration>,
+  sourceFile: ts.SourceFile
+): Parameter[] {
+  return parameters.map((parameter) => ({
+    name: normalize(parameter.name.getText(sourceFile)),
+    type: parameter.type ? normalize(parameter.type.getText(sourceFile)) : "",
+    optional: Boolean(
+      parameter.questionToken ||
+        parameter.initializer ||
+        parameter.dotDotDotToken
+    ),
+  }));
+}
+
+function formatSignature(
+  parameters: Parameter[],
+  returnType: string,
+  typeParameters = ""
+): string {
+  const list = parameters
+    .map(
+      (parameter) =>
+        `${parameter.name}${parameter.optional ? "?" : ""}${
+          parameter.type ? `: ${parameter.type}` : ""
+        }`
+    )
+    .join(", ");
+  return `${typeParameters}(${list})${returnType ? `: ${returnType}` : ""}`;
+}
+
+type FunctionLike =
+  | ts.FunctionDeclaration
+  | ts.ArrowFunction
+  | ts.FunctionExpression
+  | ts.MethodDeclaration
+  | ts.MethodSignature
+  | ts.ConstructorDeclaration;
+
+function describeFunction(
+  node: FunctionLike,
+  sourceFile: ts.SourceFile
+): Pick<Declaration, "signature" | "parameters" | "returnType"> {
+  const parameters = readParameters(node.parameters, sourceFile);
+  const returnType = node.type ? normalize(node.type.getText(sourceFile)) : "";
+  const typeParameters = node.typeParameters
+    ? `<${node.typeParameters
+        .map((parameter) => normalize(parameter.getText(sourceFile)))
+        .join(", ")}>`
+    : "";
+  return {
+    signature: formatSignature(parameters, returnType, typeParameters),
+    parameters,
+    returnType,
+  };
+}
+
+// Helper to read the public members of a class or interface
+function readMembers(
+  members: ts.NodeArray<ts.ClassElement | ts.TypeElement>,
+  sourceFile: ts.SourceFile
+): Record<string, Member> {
+  const result: Record<string, Member> = {};
+  for (const member of members) {
+    if (
+      hasModifier(member, ts.SyntaxKind.PrivateKeyword) ||
+      (member.name && ts.isPrivateIdentifier(member.name))
+    ) {
+      continue;
+    }
+
+    const name = ts.isConstructorDeclaration(member)
+      ? "constructor"
+      : member.name
+      ? normalize(member.name.getText(sourceFile))
+      : normalize(member.getText(sourceFile));
+    const optional = Boolean(
+      (member as { questionToken?: ts.Node }).questionToken
+    );
+
+    if (
+      ts.isMethodDeclaration(member) ||
+      ts.isMethodSignature(member) ||
+      ts.isConstructorDeclaration(member)
+    ) {
+      const { signature } = describeFunction(member, sourceFile);
+      // Overloads share a name, keep all of their signatures
+      result[name] = {
+        signature: result[name]
+          ? `${result[name].signature}; ${signature}`
+          : signature,
+        optional,
+      };
+    } else if (
+      (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member)) &&
+      member.type
+    ) {
+      result[name] = {
+        signature: normalize(member.type.getText(sourceFile)),
+        optional,
+      };
+    } else {
+      result[name] = {
+        signature: normalize(member.getText(sourceFile)),
+        optional,
+      };
+    }
+  }
+  return result;
+}
+
+// Helper to describe a function, class or other value assigned to a name
+function describeValue(
+  name: string,
+  node: ts.Node,
+  expression: ts.Expression | undefined,
+  typeNode: ts.TypeNode | undefined,
+  sourceFile: ts.SourceFile
+): Declaration {
+  const base = {
+    name,
+    text: normalize(node.getText(sourceFile)),
+    line: lineOf(node, sourceFile),
+  };
+  if (typeNode) {
+    return {
+      ...base,
+      kind: "variable",
+      signature: normalize(typeNode.getText(sourceFile)),
+    };
+  }
+  if (
+    expression &&
+    (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression))
+  ) {
+    return {
+      ...base,
+      kind: "function",
+      ...describeFunction(expression, sourceFile),
+    };
+  }
+  if (expression && ts.isClassExpression(expression)) {
+    return {
+      ...base,
+      kind: "class",
+      signature: "class",
+      members: readMembers(expression.members, sourceFile),
+    };
+  }
+  return { ...base, kind: "variable", signature: "" };
+}
+
+// Helper to turn a top-level statement into the declarations it makes
+function readDeclarations(
+  statement: ts.Statement,
+  sourceFile: ts.SourceFile
+): Declaration[] {
+  const text = normalize(statement.getText(sourceFile));
+  const line = lineOf(statement, sourceFile);
+  // `export default function () {}` has no name of its own
+  const fallbackName = hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+    ? "default"
+    : undefined;
+
+  if (ts.isFunctionDeclaration(statement) && (statement.name || fallbackName)) {
+    return [
+      {
+        name: statement.name?.text || fallbackName!,
+        kind: "function",
+        text,
+        line,
+        ...describeFunction(statement, sourceFile),
+      },
+    ];
+  }
+  if (ts.isClassDeclaration(statement) && (statement.name || fallbackName)) {
+    return [
+      {
+        name: statement.name?.text || fallbackName!,
+        kind: "class",
+        signature: "class",
+        text,
+        line,
+        members: readMembers(statement.members, sourceFile),
+      },
+    ];
+  }
+  if (ts.isInterfaceDeclaration(statement)) {
+    return [
+      {
+        name: statement.name.text,
+        kind: "interface",
+        signature: "interface",
+        text,
+        line,
+        members: readMembers(statement.members, sourceFile),
+      },
+    ];
+  }
+  if (ts.isTypeAliasDeclaration(statement)) {
+    return [
+      {
+        name: statement.name.text,
+        kind: "type",
+        signature: normalize(statement.type.getText(sourceFile)),
+        text,
+        line,
+      },
+    ];
+  }
+  if (ts.isEnumDeclaration(statement)) {
+    const members: Record<string, Member> = {};
+    for (const member of statement.members) {
+      members[normalize(member.name.getText(sourceFile))] = {
+        signature: member.initializer
+          ? normalize(member.initializer.getText(sourceFile))
+          : "",
+        optional: false,
+      };
+    }
+    return [
+      {
+        name: statement.name.text,
+        kind: "enum",
+        signature: "enum",
+        text,
+        line,
+        members,
+      },
+    ];
+  }
+  if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+    return [
+      {
+        name: statement.name.text,
+        kind: "namespace",
+        signature: "namespace",
+        text,
+        line,
+      },
+    ];
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations
+      .filter((declaration) => ts.isIdentifier(declaration.name))
+      .map((declaration) =>
+        describeValue(
+          (declaration.name as ts.Identifier).text,
+          declaration,
+          declaration.initializer,
+          declaration.type,
+          sourceFile
+        )
+      );
+  }
+  return [];
+}
+
+// Helper to read the CommonJS name assigned by `exports.x =` or
+// `module.exports.x =`, or "module.exports" for `module.exports =`
+function commonJsExportName(target: ts.Expression): string | undefined {
+  const text = target.getText();
+  if (text === "module.exports") {
+    return "module.exports";
+  }
+  const match = text.match(/^(?:module\.)?exports\.(\w+)$/);
+  return match ? match[1] : undefined;
+}
+
+// Helper to add a function declaration to the earlier declarations of the
+// same name, keeping overload signatures together
+function addOverload(
+  existing: Declaration | undefined,
+  declaration: Declaration,
+  isSignature: boolean
+): Declaration {
+  const overloads = existing?.kind === "function" && existing.overloads;
+  if (!overloads) {
+    return isSignature
+      ? { ...declaration, overloads: [declaration] }
+      : declaration;
+  }
+  const signatures = isSignature ? [...overloads, declaration] : overloads;
+  return {
+    ...signatures[0],
+    signature: signatures.map(({ signature }) => signature).join("; "),
+    // The implementation still counts for changes to the text
+    text: `${existing.text}\n${declaration.text}`,
+    overloads: signatures,
+  };
+}
+
+interface ModuleShape {
+  exports: Map<string, Declaration>;
+  locals: Map<string, Declaration>;
+  imports: Set<string>;
+  // Imported bindings, so `export { name }` can point at their module
+  importedBindings: Map<string, { from: string; importedName: string }>;
+}
+
+// Helper to parse a module and collect its exported and local declarations
+function readModule(path: string, content: string | undefined): ModuleShape {
+  const shape: ModuleShape = {
+    exports: new Map(),
+    locals: new Map(),
+    imports: new Set(),
+    importedBindings: new Map(),
+  };
+  if (content === undefined) {
+    return shape;
+  }
+
+  const extension = (path.split(".").pop() || "").toLowerCase();
+  const sourceFile = ts.createSourceFile(
+    path,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    SCRIPT_KINDS[extension] ?? ts.ScriptKind.TS
+  );
+
+  // Declarations first, `export { name }` may come before them
+  for (const statement of sourceFile.statements) {
+    // A function without a body is an overload signature, or a declaration
+    // of a .d.ts file
+    const isSignature = ts.isFunctionDeclaration(statement) && !statement.body;
+    for (const item of readDeclarations(statement, sourceFile)) {
+      const declarations = hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+        ? shape.exports
+        : shape.locals;
+      const declaration =
+        declarations === shape.exports &&
+        hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+          ? { ...item, name: "default" }
+          : item;
+      declarations.set(
+        declaration.name,
+        declaration.kind === "function"
+          ? addOverload(
+              declarations.get(declaration.name),
+              declaration,
+              isSignature
+            )
+          : declaration
+      );
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    const line = lineOf(statement, sourceFile);
+    const text = normalize(statement.getText(sourceFile));
+
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      const from = statement.moduleSpecifier.text;
+      shape.imports.add(from);
+      const clause = statement.importClause;
+      if (clause?.name) {
+        shape.importedBindings.set(clause.name.text, {
+          from,
+          importedName: "default",
+        });
+      }
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) {
+          shape.importedBindings.set(element.name.text, {
+            from,
+            importedName: (element.propertyName || element.name).text,
+          });
+        }
+      }
+    } else if (ts.isExportDeclaration(statement)) {
+      const from =
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : undefined;
+      const clause = statement.exportClause;
+
+      if (!clause) {
+        // export * from "./module"
+        const name = `* from "${from}"`;
+        shape.exports.set(name, {
+          name,
+          kind: "re-export",
+          signature: "",
+          text,
+          line,
+          from,
+          importedName: "*",
+        });
+      } else if (ts.isNamespaceExport(clause)) {
+        shape.exports.set(clause.name.text, {
+          name: clause.name.text,
+          kind: "re-export",
+          signature: `* from "${from}"`,
+          text,
+          line,
+        });
+      } else {
+        for (const element of clause.elements) {
+          const name = element.name.text;
+          const local = (element.propertyName || element.name).text;
+          const declaration = !from ? shape.locals.get(local) : undefined;
+          const origin = from
+            ? { from, importedName: local }
+            : shape.importedBindings.get(local);
+          shape.exports.set(
+            name,
+            declaration
+              ? { ...declaration, name }
+              : {
+                  name,
+                  kind: "re-export",
+                  signature: origin ? `from "${origin.from}"` : "",
+                  text,
+                  line,
+                  ...origin,
+                }
+          );
+          if (declaration) {
+            shape.locals.delete(local);
+          }
+        }
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      // export default value, or `export =` in CommonJS-style modules
+      const name = statement.isExportEquals ? "export=" : "default";
+      const local = ts.isIdentifier(statement.expression)
+        ? shape.locals.get(statement.expression.text)
+        : undefined;
+      shape.exports.set(
+        name,
+        local
+          ? { ...local, name }
+          : describeValue(
+              name,
+              statement,
+              statement.expression,
+              undefined,
+              sourceFile
+            )
+      );
+      if (local) {
+        shape.locals.delete(local.name);
+      }
+    } else if (
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      const { left, right } = statement.expression;
+      const name = commonJsExportName(left);
+      if (name === "module.exports" && ts.isObjectLiteralExpression(right)) {
+        // module.exports = { a, b: value }
+        for (const property of right.properties) {
+          if (!property.name || !ts.isIdentifier(property.name)) {
+            continue;
+          }
+          const key = property.name.text;
+          const value = ts.isPropertyAssignment(property)
+            ? property.initializer
+            : undefined;
+          const localName = value && ts.isIdentifier(value) ? value.text : key;
+          const local =
+            shape.locals.get(localName) ||
+            describeValue(key, property, value, undefined, sourceFile);
+          shape.exports.set(key, { ...local, name: key });
+          shape.locals.delete(localName);
+        }
+      } else if (name) {
+        const local = ts.isIdentifier(right)
+          ? shape.locals.get(right.text)
+          : undefined;
+        shape.exports.set(
+          name,
+          local
+            ? { ...local, name }
+            : describeValue(name, statement, right, undefined, sourceFile)
+        );
+        if (local) {
+          shape.locals.delete(local.name);
+        }
+      }
+    }
+  }
+
+  return shape;
+}
+
+// Helper to split a type into its top-level union members
+function unionMembers(type: string): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of type) {
+    if ("<([{".includes(char)) {
+      depth++;
+    } else if (">)]}".includes(char)) {
+      depth--;
+    }
+    if (char === "|" && depth === 0) {
+      members.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  members.push(current.trim());
+  return members.filter(Boolean);
+}
+
+// Helper to tell whether a type change only removed or only added union
+// members, e.g. `string | number` → `string` is narrowed
+function compareTypes(
+  before: string,
+  after: string
+): "same" | "narrowed" | "widened" | "changed" {
+  if (before === after) {
+    return "same";
+  }
+  // A missing annotation accepts anything
+  if (!after || after === "any" || after === "unknown") {
+    return "widened";
+  }
+  if (!before || before === "any" || before === "unknown") {
+    return "narrowed";
+  }
+  const previous = new Set(unionMembers(before));
+  const next = new Set(unionMembers(after));
+  if ([...next].every((member) => previous.has(member))) {
+    return "narrowed";
+  }
+  if ([...previous].every((member) => next.has(member))) {
+    return "widened";
+  }
+  return "changed";
+}
+
+// Helper to compare the parameters of two versions of a function
+function compareParameters(
+  before: Parameter[],
+  after: Parameter[]
+): { reasons: string[]; breaking: boolean } {
+  const reasons: string[] = [];
+  let breaking = false;
+
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    const previous = before[i];
+    const next = after[i];
+    if (previous && !next) {
+      reasons.push(`removed parameter \`${previous.name}\``);
+      breaking = true;
+    } else if (!previous && next) {
+      reasons.push(
+        `new ${next.optional ? "optional" : "required"} parameter \`${
+          next.name
+        }\``
+      );
+      breaking ||= !next.optional;
+    } else if (previous && next) {
+      // Callers may pass anything the old type allowed, so only a wider
+      // parameter type is safe
+      const typeChange = compareTypes(previous.type, next.type);
+      if (typeChange !== "same") {
+        reasons.push(
+          `${
+            typeChange === "changed" ? "changed" : typeChange
+          } parameter type \`${next.name}\`: \`${
+            previous.type || "any"
+          }\` → \`${next.type || "any"}\``
+        );
+        breaking ||= typeChange !== "widened";
+      }
+      if (previous.optional && !next.optional) {
+        reasons.push(`parameter \`${next.name}\` is now required`);
+        breaking = true;
+      }
+    }
+  }
+
+  return { reasons, breaking };
+}
+
+// Helper to compare the public members of two versions of a class,
+// interface or enum
+function compareMembers(
+  kind: DeclarationKind,
+  before: Record<string, Member>,
+  after: Record<string, Member>
+): { reasons: string[]; breaking: boolean } {
+  const reasons: string[] = [];
+  let breaking = false;
+
+  for (const [name, member] of Object.entries(before)) {
+    if (!(name in after)) {
+      reasons.push(
+        member.optional
+          ? `removed optional field \`${name}\``
+          : `removed member \`${name}\``
+      );
+      breaking = true;
+    } else if (after[name].signature !== member.signature) {
+      reasons.push(`changed member \`${name}\``);
+      breaking = true;
+    } else if (member.optional && !after[name].optional) {
+      reasons.push(`member \`${name}\` is now required`);
+      breaking = true;
+    }
+  }
+  for (const [name, member] of Object.entries(after)) {
+    if (!(name in before)) {
+      // Implementations of an interface must add required members too
+      const required = kind === "interface" && !member.optional;
+      reasons.push(`new ${required ? "required " : ""}member \`${name}\``);
+      breaking ||= required;
+    }
+  }
+
+  return { reasons, breaking };
+}
+
+// Helper to compare two versions of the same exported name
+export function compareDeclaration(
+  before: Declaration,
+  after: Declaration
+): ExportChange | undefined {
+  const change: ExportChange = {
+    name: after.name,
+    kind: after.kind,
+    change: "changed",
+    before: before.signature,
+    after: after.signature,
+    line: after.line,
+    breaking: false,
+    reasons: [],
+  };
+
+  if (before.kind !== after.kind) {
+    return {
+      ...change,
+      breaking: true,
+      reasons: [`${before.kind} became ${after.kind}`],
+    };
+  }
+
+  const beforeOverloads = before.overloads || [before];
+  const afterOverloads = after.overloads || [after];
+  const overloaded = beforeOverloads.length > 1 || afterOverloads.length > 1;
+  if (overloaded) {
+    // Callers may use any of the old signatures, in whatever order
+    const previous = new Set(beforeOverloads.map(({ signature }) => signature));
+    const next = new Set(afterOverloads.map(({ signature }) => signature));
+    for (const signature of previous) {
+      if (!next.has(signature)) {
+        change.reasons.push(`removed overload \`${signature}\``);
+        change.breaking = true;
+      }
+    }
+    for (const signature of next) {
+      if (!previous.has(signature)) {
+        change.reasons.push(`new overload \`${signature}\``);
+      }
+    }
+  } else if (after.parameters && before.parameters) {
+    const { reasons, breaking } = compareParameters(
+      before.parameters,
+      after.parameters
+    );
+    change.reasons.push(...reasons);
+    change.breaking ||= breaking;
+    // Callers rely on what is returned, so only a narrower type is safe
+    const returnChange = compareTypes(
+      before.returnType || "",
+      after.returnType || ""
+    );
+    if (returnChange !== "same") {
+      change.reasons.push(
+        `${
+          returnChange === "changed" ? "changed" : returnChange
+        } return type \`${before.returnType || "inferred"}\` → \`${
+          after.returnType || "inferred"
+        }\``
+      );
+      change.breaking ||=
+        returnChange !== "narrowed" &&
+        Boolean(before.returnType && after.returnType);
+    }
+  } else if (after.members && before.members) {
+    const { reasons, breaking } = compareMembers(
+      after.kind,
+      before.members,
+      after.members
+    );
+    change.reasons.push(...reasons);
+    change.breaking ||= breaking;
+  } else if (before.signature !== after.signature) {
+    change.reasons.push(
+      after.kind === "re-export" ? "re-exported from elsewhere" : "type changed"
+    );
+    change.breaking = after.kind !== "re-export";
+  }
+
+  if (
+    change.reasons.length > 0 ||
+    (!overloaded && before.signature !== after.signature)
+  ) {
+    return change;
+  }
+  if (before.text !== after.text) {
+    return { ...change, change: "updated" };
+  }
+  return undefined;
+}
+
+// Helper to tell whether an added export is a removed one under a new name
+function isSameDeclaration(removed: Declaration, added: Declaration): boolean {
+  if (removed.kind !== added.kind || removed.kind === "re-export") {
+    return false;
+  }
+  const rename = (text: string, name: string) =>
+    text.split(name).join("\u0000");
+  return (
+    removed.signature === added.signature &&
+    rename(removed.text, removed.name) === rename(added.text, added.name)
+  );
+}
+
+/**
+ * Compares two sets of exports, e.g. of one module or a package entry point
+ *
+ * @param before Exports before the change, keyed by exported name
+ * @param after Exports after the change, keyed by exported name
+ * @returns Added, removed, renamed and changed exports
+ */
+export function compareExportMaps(
+  before: Map<string, Declaration>,
+  after: Map<string, Declaration>
+): ExportChange[] {
+  const changes: ExportChange[] = [];
+  const added: Declaration[] = [];
+
+  for (const [name, declaration] of after) {
+    const previous = before.get(name);
+    if (!previous) {
+      added.push(declaration);
+      continue;
+    }
+    const change = compareDeclaration(previous, declaration);
+    if (change) {
+      changes.push(change);
+    }
+  }
+
+  for (const [name, declaration] of before) {
+    if (after.has(name)) {
+      continue;
+    }
+    // A removed export that reappears unchanged under another name
+    const renamed = added.findIndex((candidate) =>
+      isSameDeclaration(declaration, candidate)
+    );
+    if (renamed !== -1) {
+      const [next] = added.splice(renamed, 1);
+      changes.push({
+        name: next.name,
+        previousName: name,
+        kind: next.kind,
+        change: "renamed",
+        before: declaration.signature,
+        after: next.signature,
+        line: next.line,
+        breaking: true,
+        reasons: [`renamed from \`${name}\``],
+      });
+      continue;
+    }
+    changes.push({
+      name,
+      kind: declaration.kind,
+      change: "removed",
+      before: declaration.signature,
+      line: declaration.line,
+      breaking: true,
+      reasons: [],
+    });
+  }
+
+  for (const declaration of added) {
+    changes.push({
+      name: declaration.name,
+      kind: declaration.kind,
+      change: "added",
+      after: declaration.signature,
+      line: declaration.line,
+      breaking: false,
+      reasons: [],
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Reads the exports of a TypeScript or JavaScript module
+ *
+ * @param path Path of the file, used to pick the parser
+ * @param content The module source
+ * @returns Exported names mapped to their declarations; re-exports carry
+ *   the module they come from
+ */
+export function readModuleExports(
+  path: string,
+  content: string
+): Map<string, Declaration> {
+  return readModule(path, content).exports;
+}
+
+/**
+ * Compares the exported API and top-level declarations of two versions of
+ * a TypeScript or JavaScript module
+ *
+ * Both versions are parsed with the TypeScript compiler API, so renames,
+ * formatting and comments are not mistaken for new functions or variables.
+ *
+ * @param path Path of the file, used to pick the parser (ts, tsx, js, ...)
+ * @param sources The file contents before and after the change
+ * @returns Export changes with breaking-change reasons, plus internal and
+ *   import changes
+ */
+export default function compareExports(
+  path: string,
+  sources: FileSources
+): DeclarationChanges {
+  const before = readModule(path, sources.before);
+  const after = readModule(path, sources.after);
+  const exports = compareExportMaps(before.exports, after.exports);
+
+  const internal = {
+    added: [...after.locals.keys()].filter((name) => !before.locals.has(name)),
+    removed: [...before.locals.keys()].filter(
+      (name) => !after.locals.has(name)
+    ),
+    updated: [...after.locals.keys()].filter(
+      (name) =>
+        before.locals.has(name) &&
+        before.locals.get(name)!.text !== after.locals.get(name)!.text
+    ),
+  };
+
+  return {
+    exports,
+    internal,
+    imports: {
+      added: [...after.imports].filter((name) => !before.imports.has(name)),
+      removed: [...before.imports].filter((name) => !after.imports.has(name)),
+    },
+  };
+}
@@ -0,0 +1,542 @@
+import { posix } from "path";
+import ts from "typescript";
+import { compareExportMaps, readModuleExports } from "./compareExports.js";
+import type { Declaration, ExportChange } from "./compareExports.js";
+
+export type SemverBump = "major" | "minor" | "patch";
+
+// Reads a file (path relative to the repository root) from one side of the
+// comparison, undefined when it does not exist there
+export type SourceReader = (
+  side: "before" | "after",
+  path: string
+) => Promise<string | undefined>;
+
+export interface EntryPointChange {
+  // Subpath of the package, "." for the main entry point
+  entryPoint: string;
+  change: "added" | "removed" | "moved";
+  // Source file of the entry point on each side
+  before?: string;
+  after?: string;
+}
+
+export interface PublicApiChange extends ExportChange {
+  entryPoint: string;
+  // Source file declaring the export (the old file for removed exports)
+  file: string;
+}
+
+export interface PublicApiReport {
+  packageName?: string;
+  version: { before?: string; after?: string };
+  entryPoints: EntryPointChange[];
+  changes: PublicApiChange[];
+  bump: SemverBump;
+  // Version the package would get with the suggested bump
+  suggestedVersion?: string;
+  notes: string[];
+}
+
+// Conditions read from `exports`, most useful for reading the API first
+const CONDITION_ORDER = ["types", "import", "module", "default", "require"];
+// Extensions tried when mapping an entry point or import to a source file
+const SOURCE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".d.ts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+// Build output directories that usually mirror src/
+const BUILD_DIRECTORIES = /^(dist|build|lib|out|esm|cjs|types)\//;
+// Upper bound on modules followed through re-exports per entry point
+const MAX_MODULES = 200;
+
+interface SurfaceEntry {
+  declaration: Declaration;
+  file: string;
+}
+
+// Helper to collect the string targets of a conditional export, in the
+// order of CONDITION_ORDER
+function conditionTargets(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(conditionTargets);
+  }
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  const rank = (condition: string) => {
+    const index = CONDITION_ORDER.indexOf(condition);
+    return index === -1 ? CONDITION_ORDER.length : index;
+  };
+  return entries
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .flatMap(([, target]) => conditionTargets(target));
+}
+
+/**
+ * Lists the entry points of a package from `exports`, or `types`, `module`
+ * and `main` when there is no `exports` field
+ *
+ * @param packageJson The parsed package.json
+ * @returns Subpaths mapped to candidate files, most useful first
+ */
+export function readEntryPoints(
+  packageJson: Record<string, any>
+): Map<string, string[]> {
+  const entryPoints = new Map<string, string[]>();
+  const { exports } = packageJson;
+
+  if (exports !== undefined && exports !== null) {
+    const isSubpathMap =
+      typeof exports === "object" &&
+      !Array.isArray(exports) &&
+      Object.keys(exports).some((key) => key.startsWith("."));
+    const subpaths: [string, unknown][] = isSubpathMap
+      ? Object.entries(exports)
+      : [[".", exports]];
+    for (const [subpath, target] of subpaths) {
+      // Patterns like "./*" do not name a single module
+      if (subpath.includes("*") || subpath.endsWith("/")) {
+        continue;
+      }
+      const targets = conditionTargets(target).filter(
+        (file) => !file.includes("*")
+      );
+      if (targets.length > 0) {
+        entryPoints.set(subpath, targets);
+      }
+    }
+    return entryPoints;
+  }
+
+  const targets = [
+    packageJson.types,
+    packageJson.typings,
+    packageJson.module,
+    packageJson.main,
+  ].filter((file): file is string => typeof file === "string");
+  if (targets.length > 0) {
+    entryPoints.set(".", targets);
+  }
+  return entryPoints;
+}
+
+// Helper to strip "./" and normalize a package-relative path
+function normalizePath(path: string): string {
+  return posix.normalize(path.replace(/^\.\//, ""));
+}
+
+// Helper to read outDir and rootDir from tsconfig.json, so build output
+// paths can be mapped back to their sources
+async function readCompilerDirectories(
+  read: SourceReader,
+  side: "before" | "after"
+): Promise<{ outDir?: string; rootDir?: string }> {
+  const content = await read(side, "tsconfig.json");
+  if (!content) {
+    return {};
+  }
+  const { config } = ts.parseConfigFileTextToJson("tsconfig.json", content);
+  const options = config?.compilerOptions || {};
+  return {
+    outDir:
+      typeof options.outDir === "string"
+        ? normalizePath(options.outDir)
+        : undefined,
+    rootDir:
+      typeof options.rootDir === "string"
+        ? normalizePath(options.rootDir)
+        : undefined,
+  };
+}
+
+// Helper to find the first path that exists on one side
+async function firstExisting(
+  read: SourceReader,
+  side: "before" | "after",
+  candidates: string[]
+): Promise<string | undefined> {
+  for (const candidate of new Set(candidates)) {
+    if ((await read(side, candidate)) !== undefined) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+// Helper to map an entry point file, often build output, to its source
+async function resolveEntrySource(
+  read: SourceReader,
+  side: "before" | "after",
+  file: string,
+  directories: { outDir?: string; rootDir?: string }
+): Promise<string | undefined> {
+  const normalized = normalizePath(file);
+  const stem = normalized.replace(/(\.d)?\.[mc]?[jt]sx?$/, "");
+  const bases: string[] = [];
+
+  if (directories.outDir && stem.startsWith(`${directories.outDir}/`)) {
+    bases.push(
+      posix.join(
+        directories.rootDir || "src",
+        stem.substring(directories.outDir.length + 1)
+      )
+    );
+  }
+  if (BUILD_DIRECTORIES.test(stem)) {
+    bases.push(stem.replace(BUILD_DIRECTORIES, "src/"));
+  }
+  bases.push(stem);
+
+  // Prefer sources over the file itself, which may be committed output
+  return firstExisting(read, side, [
+    ...bases.flatMap((base) =>
+      SOURCE_EXTENSIONS.map((extension) => `${base}${extension}`)
+    ),
+    normalized,
+  ]);
+}
+
+// Helper to resolve a relative import the way TypeScript does, including
+// "./x.js" pointing at "./x.ts" and directories with an index file
+async function resolveModule(
+  read: SourceReader,
+  side: "before" | "after",
+  fromFile: string,
+  specifier: string
+): Promise<string | undefined> {
+  const target = posix.join(posix.dirname(fromFile), specifier);
+  const stem = target.replace(/\.[mc]?jsx?$/, "");
+  return firstExisting(read, side, [
+    target,
+    ...SOURCE_EXTENSIONS.map((extension) => `${stem}${extension}`),
+    ...SOURCE_EXTENSIONS.map((extension) => `${target}/index${extension}`),
+  ]);
+}
+
+// Helper to collect everything a module exports, following relative
+// re-exports into the modules they come from
+async function collectSurface(
+  read: SourceReader,
+  side: "before" | "after",
+  file: string,
+  cache: Map<string, Map<string, SurfaceEntry>>,
+  inProgress = new Set<string>()
+): Promise<Map<string, SurfaceEntry>> {
+  const cached = cache.get(file);
+  if (cached) {
+    return cached;
+  }
+  const surface = new Map<string, SurfaceEntry>();
+  const content = await read(side, file);
+  if (
+    content === undefined ||
+    inProgress.has(file) ||
+    cache.size >= MAX_MODULES
+  ) {
+    return surface;
+  }
+  inProgress.add(file);
+
+  const exports = [...readModuleExports(file, content).values()];
+  const isRelativeReExport = (declaration: Declaration) =>
+    declaration.kind === "re-export" &&
+    Boolean(declaration.from?.startsWith("."));
+
+  // Named exports shadow `export *`, whatever their order
+  for (const declaration of exports) {
+    if (declaration.importedName === "*" && isRelativeReExport(declaration)) {
+      continue;
+    }
+    if (!isRelativeReExport(declaration)) {
+      surface.set(declaration.name, { declaration, file });
+      continue;
+    }
+    const target = await resolveModule(read, side, file, declaration.from!);
+    const origin = target
+      ? (await collectSurface(read, side, target, cache, inProgress)).get(
+          declaration.importedName!
+        )
+      : undefined;
+    surface.set(
+      declaration.name,
+      origin
+        ? {
+            ...origin,
+            declaration: { ...origin.declaration, name: declaration.name },
+          }
+        : { declaration, file }
+    );
+  }
+
+  for (const declaration of exports) {
+    if (declaration.importedName !== "*" || !isRelativeReExport(declaration)) {
+      continue;
+    }
+    const target = await resolveModule(read, side, file, declaration.from!);
+    if (!target) {
+      surface.set(declaration.name, { declaration, file });
+      continue;
+    }
+    const targetSurface = await collectSurface(
+      read,
+      side,
+      target,
+      cache,
+      inProgress
+    );
+    for (const [name, entry] of targetSurface) {
+      if (name !== "default" && !surface.has(name)) {
+        surface.set(name, entry);
+      }
+    }
+  }
+
+  inProgress.delete(file);
+  cache.set(file, surface);
+  return surface;
+}
+
+// Helper to read and parse package.json on one side
+async function readPackageJson(
+  read: SourceReader,
+  side: "before" | "after"
+): Promise<Record<string, any> | undefined> {
+  const content = await read(side, "package.json");
+  if (content === undefined) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === "object" ? parsed : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Helper to tell which part of a semantic version changed
+function versionBump(
+  before: string,
+  after: string
+): SemverBump | "none" | undefined {
+  const parse = (version: string) =>
+    version
+      .match(/^v?(\d+)\.(\d+)\.(\d+)/)
+      ?.slice(1, 4)
+      .map(Number);
+  const previous = parse(before);
+  const next = parse(after);
+  if (!previous || !next) {
+    return undefined;
+  }
+  if (next[0] !== previous[0]) {
+    return "major";
+  }
+  if (next[1] !== previous[1]) {
+    return "minor";
+  }
+  return next[2] !== previous[2] ? "patch" : "none";
+}
+
+// Helper to apply a bump to a version, e.g. 1.2.3 + minor = 1.3.0
+function incrementVersion(
+  version: string,
+  bump: SemverBump
+): string | undefined {
+  const match = version.match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  if (!match) {
+    return undefined;
+  }
+  const [major, minor, patch] = match.slice(1, 4).map(Number);
+  switch (bump) {
+    case "major":
+      return `${major + 1}.0.0`;
+    case "minor":
+      return `${major}.${minor + 1}.0`;
+    case "patch":
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+const BUMP_RANK: Record<SemverBump | "none", number> = {
+  none: 0,
+  patch: 1,
+  minor: 2,
+  major: 3,
+};
+
+/**
+ * Compares the public API of the package in the repository root between
+ * the two sides of a diff
+ *
+ * The entry points come from `exports` (or `types`/`module`/`main`), are
+ * mapped back from build output to their sources, and every export is
+ * followed through relative re-exports before the two sides are compared.
+ *
+ * @param read Reads a file from either side of the comparison
+ * @returns The API changes and a suggested semver bump, or undefined when
+ *   the repository is not a published package with entry points
+ */
+export default async function comparePublicApi(
+  read: SourceReader
+): Promise<PublicApiReport | undefined> {
+  const [beforePackage, afterPackage] = await Promise.all([
+    readPackageJson(read, "before"),
+    readPackageJson(read, "after"),
+  ]);
+  const currentPackage = afterPackage || beforePackage;
+  if (!currentPackage || currentPackage.private === true) {
+    return undefined;
+  }
+
+  const beforeEntries = beforePackage
+    ? readEntryPoints(beforePackage)
+    : new Map<string, string[]>();
+  const afterEntries = afterPackage
+    ? readEntryPoints(afterPackage)
+    : new Map<string, string[]>();
+  if (beforeEntries.size === 0 && afterEntries.size === 0) {
+    return undefined;
+  }
+
+  const [beforeDirectories, afterDirectories] = await Promise.all([
+    readCompilerDirectories(read, "before"),
+    readCompilerDirectories(read, "after"),
+  ]);
+  const notes: string[] = [];
+  const entryPoints: EntryPointChange[] = [];
+  const changes: PublicApiChange[] = [];
+  const caches = {
+    before: new Map<string, Map<string, SurfaceEntry>>(),
+    after: new Map<string, Map<string, SurfaceEntry>>(),
+  };
+
+  // Helper to find and read the exports of an entry point on one side
+  const surfaceOf = async (
+    side: "before" | "after",
+    subpath: string,
+    candidates: string[]
+  ) => {
+    const directories =
+      side === "before" ? beforeDirectories : afterDirectories;
+    for (const candidate of candidates) {
+      const file = await resolveEntrySource(read, side, candidate, directories);
+      if (file) {
+        return {
+          file,
+          surface: await collectSurface(read, side, file, caches[side]),
+        };
+      }
+    }
+    if (side === "after") {
+      notes.push(
+        `no source found for entry point \`${subpath}\` (${candidates.join(
+          ", "
+        )})`
+      );
+    }
+    return undefined;
+  };
+
+  const subpaths = new Set([...beforeEntries.keys(), ...afterEntries.keys()]);
+  for (const subpath of subpaths) {
+    const beforeCandidates = beforeEntries.get(subpath);
+    const afterCandidates = afterEntries.get(subpath);
+    if (!afterCandidates) {
+      entryPoints.push({
+        entryPoint: subpath,
+        change: "removed",
+        before: beforeCandidates![0],
+      });
+      continue;
+    }
+    if (!beforeCandidates) {
+      entryPoints.push({
+        entryPoint: subpath,
+        change: "added",
+        after: afterCandidates[0],
+      });
+      continue;
+    }
+
+    const [before, after] = await Promise.all([
+      surfaceOf("before", subpath, beforeCandidates),
+      surfaceOf("after", subpath, afterCandidates),
+    ]);
+    if (!before || !after) {
+      continue;
+    }
+    if (before.file !== after.file) {
+      entryPoints.push({
+        entryPoint: subpath,
+        change: "moved",
+        before: before.file,
+        after: after.file,
+      });
+    }
+
+    const declarations = (surface: Map<string, SurfaceEntry>) =>
+      new Map([...surface].map(([name, entry]) => [name, entry.declaration]));
+    for (const change of compareExportMaps(
+      declarations(before.surface),
+      declarations(after.surface)
+    )) {
+      const entry =
+        change.change === "removed"
+          ? before.surface.get(change.name)
+          : after.surface.get(change.name);
+      changes.push({ ...change, entryPoint: subpath, file: entry?.file || "" });
+    }
+  }
+
+  const breaking =
+    entryPoints.some((entry) => entry.change === "removed") ||
+    changes.some((change) => change.breaking);
+  const additive =
+    entryPoints.some((entry) => entry.change === "added") ||
+    changes.some(
+      (change) => change.change === "added" || change.change === "changed"
+    );
+  const bump: SemverBump = breaking ? "major" : additive ? "minor" : "patch";
+
+  const version = {
+    before: beforePackage?.version,
+    after: afterPackage?.version,
+  };
+  if (version.before?.match(/^v?0\./) && bump === "major") {
+    notes.push(
+      "the package is still 0.x, where breaking changes are often released as a minor bump"
+    );
+  }
+  if (version.before && version.after && version.before !== version.after) {
+    const actual = versionBump(version.before, version.after);
+    if (actual && BUMP_RANK[actual] < BUMP_RANK[bump]) {
+      notes.push(
+        `package.json goes from ${version.before} to ${version.after} (${actual}), less than the suggested ${bump} bump`
+      );
+    }
+  }
+
+  return {
+    packageName: currentPackage.name,
+    version,
+    entryPoints,
+    changes,
+    bump,
+    suggestedVersion: version.before
+      ? incrementVersion(version.before, bump)
+      : undefined,
+    notes,
+  };
+}
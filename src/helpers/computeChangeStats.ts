@@ -0,0 +1,137 @@
+import getLanguageFromExtension from "./getLanguageFromExtension.js";
+import type { NumstatEntry } from "./parseNumstat.js";
+import type { ParsedDiff } from "./parseDiff.js";
+
+export interface FileStats {
+  path: string;
+  oldPath?: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  // Top-level directory, "." for files in the repository root
+  directory: string;
+  language: string;
+}
+
+export interface StatsRollup {
+  // Directory or language name
+  name: string;
+  files: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface Hotspot {
+  path: string;
+  // Added plus deleted lines
+  churn: number;
+  // Share of all changed lines, 0 to 1
+  share: number;
+}
+
+export interface ChangeStats {
+  files: FileStats[];
+  totals: { files: number; additions: number; deletions: number };
+  directories: StatsRollup[];
+  languages: StatsRollup[];
+  hotspots: Hotspot[];
+}
+
+const MAX_HOTSPOTS = 5;
+// Share of the churn a file needs to count as a hotspot
+const HOTSPOT_SHARE = 0.1;
+
+/**
+ * Turns a parsed diff into numstat entries, for when `git diff --numstat`
+ * is not available
+ *
+ * @param parsedDiff The parsed diff between base and head
+ * @returns One entry per changed file
+ */
+export function numstatFromDiff(parsedDiff: ParsedDiff): NumstatEntry[] {
+  return parsedDiff.files.map((file) => ({
+    path: file.path,
+    oldPath: file.oldPath !== file.newPath ? file.oldPath : undefined,
+    additions: file.binary ? undefined : file.additions,
+    deletions: file.binary ? undefined : file.deletions,
+  }));
+}
+
+// Helper to add up files by a key, biggest change first
+function rollup(
+  files: FileStats[],
+  key: (file: FileStats) => string
+): StatsRollup[] {
+  const groups = new Map<string, StatsRollup>();
+  for (const file of files) {
+    const name = key(file);
+    const group = groups.get(name) || {
+      name,
+      files: 0,
+      additions: 0,
+      deletions: 0,
+    };
+    group.files++;
+    group.additions += file.additions;
+    group.deletions += file.deletions;
+    groups.set(name, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) =>
+      b.additions + b.deletions - (a.additions + a.deletions) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Computes change statistics: per-file counts, rollups by top-level
+ * directory and by language, and the files with the most churn
+ *
+ * @param entries Output of parseNumstat, or numstatFromDiff
+ * @returns The statistics
+ */
+export default function computeChangeStats(
+  entries: NumstatEntry[]
+): ChangeStats {
+  const files: FileStats[] = entries.map((entry) => {
+    const slash = entry.path.indexOf("/");
+    const name = entry.path.substring(entry.path.lastIndexOf("/") + 1);
+    return {
+      path: entry.path,
+      oldPath: entry.oldPath,
+      additions: entry.additions ?? 0,
+      deletions: entry.deletions ?? 0,
+      binary: entry.additions === undefined,
+      directory: slash > 0 ? entry.path.substring(0, slash) : ".",
+      language: name.includes(".")
+        ? getLanguageFromExtension(name.split(".").pop() || "")
+        : "text",
+    };
+  });
+
+  const totals = {
+    files: files.length,
+    additions: files.reduce((total, file) => total + file.additions, 0),
+    deletions: files.reduce((total, file) => total + file.deletions, 0),
+  };
+  const churn = totals.additions + totals.deletions;
+
+  const hotspots = files
+    .map((file) => ({
+      path: file.path,
+      churn: file.additions + file.deletions,
+      share: churn > 0 ? (file.additions + file.deletions) / churn : 0,
+    }))
+    // A file is only a hotspot when the change is spread over several
+    .filter((file) => files.length > 1 && file.share >= HOTSPOT_SHARE)
+    .sort((a, b) => b.churn - a.churn)
+    .slice(0, MAX_HOTSPOTS);
+
+  return {
+    files,
+    totals,
+    directories: rollup(files, (file) => file.directory),
+    languages: rollup(files, (file) => file.language),
+    hotspots,
+  };
+}
@@ -0,0 +1,1432 @@
+import { posix } from "path";
+import matchesGlob from "./matchesGlob.js";
+import type { DiffFile, DiffLine, ParsedDiff } from "./parseDiff.js";
+
+export type MigrationFramework =
+  | "prisma"
+  | "typeorm"
+  | "knex"
+  | "sequelize"
+  | "rails"
+  | "alembic"
+  | "flyway"
+  | "sql";
+
+export type SchemaAction =
+  | "create table"
+  | "drop table"
+  | "rename table"
+  | "truncate table"
+  | "delete rows"
+  | "add column"
+  | "drop column"
+  | "alter column"
+  | "rename column"
+  | "create index"
+  | "drop index"
+  | "add constraint"
+  | "drop constraint";
+
+export interface SchemaOperation {
+  action: SchemaAction;
+  table?: string;
+  column?: string;
+  // Index or constraint name
+  index?: string;
+  // New name of a renamed table or column
+  newName?: string;
+  // Columns of a created table
+  columns?: string[];
+  // Whether the operation can lose data or break running code
+  destructive: boolean;
+  reason?: string;
+  file: string;
+  line: number;
+}
+
+export interface MigrationFile {
+  path: string;
+  framework: MigrationFramework;
+  // Operations applied when migrating
+  operations: SchemaOperation[];
+  // Operations undoing the migration (down, downgrade or undo migrations)
+  rollback: SchemaOperation[];
+  // How the migration can be rolled back
+  rollbackSupport: "down" | "reversible" | "undo-file" | "none" | "n/a";
+  // Operations a reversible migration cannot undo on its own
+  irreversible: string[];
+}
+
+export interface MigrationReport {
+  files: MigrationFile[];
+  // Changed schema files that describe the result, e.g. schema.prisma
+  schemaFiles: string[];
+}
+
+interface SourceLine {
+  content: string;
+  line: number;
+}
+
+interface FileContext {
+  path: string;
+  operations: SchemaOperation[];
+}
+
+// Structure dumps regenerated from the migrations, not migrations themselves
+const SCHEMA_DUMPS = ["**/db/schema.rb", "**/db/structure.sql"];
+// Flyway names: V1__init.sql, V1.2__add.sql, U1__undo.sql, R__views.sql
+const FLYWAY_FILE = /^(?:[VU]\d+(?:[._]\d+)*|R)__.+\.sql$/;
+const SCRIPT_MIGRATION = "**/{migration,migrations}/**/*.{ts,js,mjs,cjs}";
+const SQL_MIGRATION = "**/{migration,migrations,migrate}/**/*.sql";
+
+const DESTRUCTIVE_REASONS = {
+  dropTable: "drops the table and its data",
+  dropColumn: "drops the column and its data",
+  truncate: "deletes every row",
+  deleteRows: "deletes rows",
+  notNullWithoutDefault:
+    "NOT NULL without a default fails on tables that already have rows",
+  setNotNull: "NOT NULL fails if existing rows contain NULL",
+  typeChange: "changing the column type can lose data or rewrite the table",
+  rename: "code still using the old name breaks until it is deployed",
+  changeColumn: "redefines the column; check the type and nullability",
+};
+
+// Helper to tell which framework a changed file belongs to, if it is a
+// migration
+function frameworkOf(file: DiffFile): MigrationFramework | undefined {
+  const path = file.path;
+  const name = posix.basename(path);
+  const added = getSourceLines(file)
+    .map(({ content }) => content)
+    .join("\n");
+
+  if (matchesGlob(path, "**/prisma/migrations/**/*.sql")) {
+    return "prisma";
+  }
+  if (FLYWAY_FILE.test(name)) {
+    return "flyway";
+  }
+  if (matchesGlob(path, "**/db/migrate/*.rb")) {
+    return "rails";
+  }
+  if (
+    matchesGlob(path, [
+      "**/alembic/versions/*.py",
+      "**/migrations/versions/*.py",
+    ])
+  ) {
+    return "alembic";
+  }
+  if (matchesGlob(path, SCRIPT_MIGRATION)) {
+    if (/MigrationInterface|queryRunner/.test(added)) {
+      return "typeorm";
+    }
+    if (/queryInterface|Sequelize/.test(added)) {
+      return "sequelize";
+    }
+    if (/\bknex\b|\.schema\./.test(added)) {
+      return "knex";
+    }
+    return undefined;
+  }
+  if (matchesGlob(path, SQL_MIGRATION)) {
+    return "sql";
+  }
+  return undefined;
+}
+
+// Helper to get the lines a migration consists of. Migrations are usually
+// new files, so their added lines are the whole migration.
+function getSourceLines(file: DiffFile): SourceLine[] {
+  return file.hunks.flatMap((hunk) =>
+    hunk.lines
+      .filter((line): line is DiffLine & { newLineNumber: number } =>
+        Boolean(line.type === "added" && line.newLineNumber)
+      )
+      .map((line) => ({ content: line.content, line: line.newLineNumber }))
+  );
+}
+
+// Helper to strip the quoting of an SQL identifier, e.g. "public"."users"
+function identifier(name: string): string {
+  return name.replace(/["`[\]]/g, "");
+}
+
+// Helper to split text on commas that are not inside parentheses or quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = "";
+  let current = "";
+  for (const char of text) {
+    if (quote) {
+      quote = char === quote ? "" : quote;
+    } else if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+const NAME = `((?:["\`\\[]?[\\w$]+["\`\\]]?\\.)?["\`\\[]?[\\w$]+["\`\\]]?)`;
+const CREATE_TABLE = new RegExp(
+  `^CREATE\\s+(?:(?:UNLOGGED|TEMP|TEMPORARY)\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?${NAME}\\s*\\(([\\s\\S]*)\\)`,
+  "i"
+);
+const ALTER_TABLE = new RegExp(
+  `^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?${NAME}\\s+([\\s\\S]+)$`,
+  "i"
+);
+const DROP_TABLE =
+  /^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?([^;]+?)(?:\s+(?:CASCADE|RESTRICT))?$/i;
+const TRUNCATE =
+  /^TRUNCATE\s+(?:TABLE\s+)?(?:ONLY\s+)?([^;]+?)(?:\s+(?:CASCADE|RESTRICT|RESTART IDENTITY|CONTINUE IDENTITY))*$/i;
+const DELETE = new RegExp(`^DELETE\\s+FROM\\s+${NAME}`, "i");
+const RENAME_TABLE = new RegExp(
+  `^RENAME\\s+TABLE\\s+${NAME}\\s+TO\\s+${NAME}`,
+  "i"
+);
+const CREATE_INDEX = new RegExp(
+  `^CREATE\\s+(?:UNIQUE\\s+)?INDEX\\s+(?:CONCURRENTLY\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(?:${NAME}\\s+)?ON\\s+(?:ONLY\\s+)?${NAME}`,
+  "i"
+);
+const DROP_INDEX = new RegExp(
+  `^DROP\\s+INDEX\\s+(?:CONCURRENTLY\\s+)?(?:IF\\s+EXISTS\\s+)?${NAME}(?:\\s+ON\\s+${NAME})?`,
+  "i"
+);
+// Entries of CREATE TABLE that are constraints rather than columns
+const TABLE_CONSTRAINT =
+  /^(?:CONSTRAINT|PRIMARY\s+KEY|FOREIGN\s+KEY|UNIQUE|CHECK|INDEX|KEY|EXCLUDE)\b/i;
+
+// Helper to turn one ALTER TABLE action into an operation
+function parseAlterAction(
+  table: string,
+  action: string,
+  base: { file: string; line: number }
+): SchemaOperation | undefined {
+  const operation = { ...base, table, destructive: false };
+  let match: RegExpMatchArray | null;
+
+  if (
+    (match = action.match(
+      /^ADD\s+(CONSTRAINT\s+(\S+)|PRIMARY\s+KEY|FOREIGN\s+KEY|UNIQUE|CHECK)/i
+    ))
+  ) {
+    return {
+      ...operation,
+      action: "add constraint",
+      index: match[2] && identifier(match[2]),
+    };
+  }
+  if (
+    (match = action.match(
+      new RegExp(
+        `^ADD\\s+(?:COLUMN\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?${NAME}`,
+        "i"
+      )
+    ))
+  ) {
+    const notNull =
+      /\bNOT\s+NULL\b/i.test(action) &&
+      !/\b(DEFAULT|GENERATED|AUTO_INCREMENT|SERIAL|BIGSERIAL|IDENTITY)\b/i.test(
+        action
+      );
+    return {
+      ...operation,
+      action: "add column",
+      column: identifier(match[1]),
+      destructive: notNull,
+      reason: notNull ? DESTRUCTIVE_REASONS.notNullWithoutDefault : undefined,
+    };
+  }
+  if (
+    (match = action.match(/^DROP\s+CONSTRAINT\s+(?:IF\s+EXISTS\s+)?(\S+)/i))
+  ) {
+    return {
+      ...operation,
+      action: "drop constraint",
+      index: identifier(match[1]),
+    };
+  }
+  if (
+    (match = action.match(
+      new RegExp(`^DROP\\s+(?:COLUMN\\s+)?(?:IF\\s+EXISTS\\s+)?${NAME}`, "i")
+    ))
+  ) {
+    return {
+      ...operation,
+      action: "drop column",
+      column: identifier(match[1]),
+      destructive: true,
+      reason: DESTRUCTIVE_REASONS.dropColumn,
+    };
+  }
+  if (
+    (match = action.match(
+      new RegExp(`^RENAME\\s+(?:COLUMN\\s+)?${NAME}\\s+TO\\s+${NAME}`, "i")
+    )) &&
+    !/^RENAME\s+TO\b/i.test(action)
+  ) {
+    return {
+      ...operation,
+      action: "rename column",
+      column: identifier(match[1]),
+      newName: identifier(match[2]),
+      destructive: true,
+      reason: DESTRUCTIVE_REASONS.rename,
+    };
+  }
+  if ((match = action.match(new RegExp(`^RENAME\\s+TO\\s+${NAME}`, "i")))) {
+    return {
+      ...operation,
+      action: "rename table",
+      newName: identifier(match[1]),
+      destructive: true,
+      reason: DESTRUCTIVE_REASONS.rename,
+    };
+  }
+  if (
+    (match = action.match(
+      new RegExp(
+        `^(?:ALTER|MODIFY|CHANGE)\\s+(?:COLUMN\\s+)?${NAME}\\s*(.*)$`,
+        "is"
+      )
+    ))
+  ) {
+    const change = match[2];
+    const setNotNull = /^SET\s+NOT\s+NULL/i.test(change);
+    const typeChange =
+      /^(?:SET\s+DATA\s+)?TYPE\b/i.test(change) || /^MODIFY/i.test(action);
+    const rename = /^CHANGE/i.test(action) && /^[\w"`]+\s/.test(change);
+    return {
+      ...operation,
+      action: rename ? "rename column" : "alter column",
+      column: identifier(match[1]),
+      newName: rename ? identifier(change.split(/\s+/)[0]) : undefined,
+      destructive: setNotNull || typeChange || rename,
+      reason: setNotNull
+        ? DESTRUCTIVE_REASONS.setNotNull
+        : typeChange
+        ? DESTRUCTIVE_REASONS.typeChange
+        : rename
+        ? DESTRUCTIVE_REASONS.rename
+        : undefined,
+    };
+  }
+  return undefined;
+}
+
+// Helper to turn one SQL statement into schema operations
+function parseSqlStatement(
+  statement: string,
+  base: { file: string; line: number }
+): SchemaOperation[] {
+  const sql = statement.trim().replace(/;$/, "").trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = sql.match(CREATE_TABLE))) {
+    const columns = splitTopLevel(match[2])
+      .filter((entry) => !TABLE_CONSTRAINT.test(entry))
+      .map((entry) => identifier(entry.split(/\s+/)[0]))
+      .filter(Boolean);
+    return [
+      {
+        ...base,
+        action: "create table",
+        table: identifier(match[1]),
+        columns,
+        destructive: false,
+      },
+    ];
+  }
+  if ((match = sql.match(ALTER_TABLE))) {
+    const table = identifier(match[1]);
+    return splitTopLevel(match[2])
+      .map((action) => parseAlterAction(table, action, base))
+      .filter((operation): operation is SchemaOperation => Boolean(operation));
+  }
+  if ((match = sql.match(DROP_TABLE))) {
+    return match[1].split(/\s*,\s*/).map((table) => ({
+      ...base,
+      action: "drop table" as const,
+      table: identifier(table),
+      destructive: true,
+      reason: DESTRUCTIVE_REASONS.dropTable,
+    }));
+  }
+  if ((match = sql.match(TRUNCATE))) {
+    return match[1].split(/\s*,\s*/).map((table) => ({
+      ...base,
+      action: "truncate table" as const,
+      table: identifier(table),
+      destructive: true,
+      reason: DESTRUCTIVE_REASONS.truncate,
+    }));
+  }
+  if ((match = sql.match(DELETE))) {
+    return [
+      {
+        ...base,
+        action: "delete rows",
+        table: identifier(match[1]),
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.deleteRows,
+      },
+    ];
+  }
+  if ((match = sql.match(RENAME_TABLE))) {
+    return [
+      {
+        ...base,
+        action: "rename table",
+        table: identifier(match[1]),
+        newName: identifier(match[2]),
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      },
+    ];
+  }
+  if ((match = sql.match(CREATE_INDEX))) {
+    return [
+      {
+        ...base,
+        action: "create index",
+        index: match[1] && identifier(match[1]),
+        table: identifier(match[2]),
+        destructive: false,
+      },
+    ];
+  }
+  if ((match = sql.match(DROP_INDEX))) {
+    return [
+      {
+        ...base,
+        action: "drop index",
+        index: identifier(match[1]),
+        table: match[2] && identifier(match[2]),
+        destructive: false,
+      },
+    ];
+  }
+  return [];
+}
+
+// Helper to split SQL lines into statements, remembering where each starts
+function parseSql(lines: SourceLine[], file: string): SchemaOperation[] {
+  const operations: SchemaOperation[] = [];
+  let statement = "";
+  let start = 0;
+
+  for (const { content, line } of lines) {
+    const code = content.replace(/--.*$/, "");
+    if (!statement.trim()) {
+      start = line;
+    }
+    for (const [index, part] of code.split(";").entries()) {
+      if (index > 0) {
+        operations.push(...parseSqlStatement(statement, { file, line: start }));
+        statement = "";
+        start = line;
+      }
+      statement += `${part}\n`;
+    }
+  }
+  if (statement.trim()) {
+    operations.push(...parseSqlStatement(statement, { file, line: start }));
+  }
+  return operations;
+}
+
+// Helper to find SQL in the string literals of a script migration, such
+// as `queryRunner.query("ALTER TABLE ...")` or `op.execute("...")`
+function parseEmbeddedSql(
+  lines: SourceLine[],
+  file: string
+): SchemaOperation[] {
+  const operations: SchemaOperation[] = [];
+  let quote = "";
+  let literal = "";
+  let start = 0;
+
+  for (const { content, line } of lines) {
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (!quote) {
+        if (char === "'" || char === '"' || char === "`") {
+          quote = char;
+          literal = "";
+          start = line;
+        }
+        continue;
+      }
+      if (char === "\\") {
+        literal += content[++i] || "";
+      } else if (char === quote) {
+        quote = "";
+        if (/^\s*(CREATE|ALTER|DROP|TRUNCATE|RENAME|DELETE)\s/i.test(literal)) {
+          operations.push(
+            ...parseSql([{ content: literal, line: start }], file)
+          );
+        }
+      } else {
+        literal += char;
+      }
+    }
+    // Only template literals and Python triple quotes span lines
+    if (quote === "`") {
+      literal += "\n";
+    } else {
+      quote = "";
+    }
+  }
+  return operations;
+}
+
+// Helper to read a call that may span several lines, from its first line
+// until the parentheses are balanced
+function callText(lines: SourceLine[], index: number): string {
+  let text = "";
+  let depth = 0;
+  for (let i = index; i < lines.length && i < index + 30; i++) {
+    text += `${lines[i].content}\n`;
+    depth += (lines[i].content.match(/\(/g) || []).length;
+    depth -= (lines[i].content.match(/\)/g) || []).length;
+    if (depth <= 0) {
+      break;
+    }
+  }
+  return text;
+}
+
+// Helper to record a column added to a table outside CREATE TABLE
+function addColumn(
+  context: FileContext,
+  table: string | undefined,
+  column: string,
+  line: number,
+  notNullWithoutDefault: boolean
+) {
+  context.operations.push({
+    action: "add column",
+    table,
+    column,
+    destructive: notNullWithoutDefault,
+    reason: notNullWithoutDefault
+      ? DESTRUCTIVE_REASONS.notNullWithoutDefault
+      : undefined,
+    file: context.path,
+    line,
+  });
+}
+
+// Helper to record a simple operation found in a migration DSL
+function addOperation(
+  context: FileContext,
+  line: number,
+  operation: Omit<SchemaOperation, "file" | "line" | "destructive"> & {
+    destructive?: boolean;
+  }
+) {
+  context.operations.push({
+    destructive: false,
+    ...operation,
+    file: context.path,
+    line,
+  });
+}
+
+const QUOTED = `['"\`]([\\w.]+)['"\`]`;
+const KNEX_COLUMN_TYPES =
+  "string|text|integer|bigInteger|bigint|tinyint|smallint|mediumint|boolean|date|datetime|dateTime|time|timestamp|timestamps|decimal|float|double|uuid|json|jsonb|enum|enu|increments|bigIncrements|specificType|binary|geometry|point";
+
+// Helper to read Knex schema builder calls
+function parseKnex(lines: SourceLine[], context: FileContext) {
+  let table: string | undefined;
+  let creating: SchemaOperation | undefined;
+
+  lines.forEach(({ content, line }, index) => {
+    let match: RegExpMatchArray | null;
+    if (
+      (match = content.match(
+        new RegExp(`\\.createTable(?:IfNotExists)?\\(\\s*${QUOTED}`)
+      ))
+    ) {
+      table = match[1];
+      creating = {
+        action: "create table",
+        table,
+        columns: [],
+        destructive: false,
+        file: context.path,
+        line,
+      };
+      context.operations.push(creating);
+    } else if (
+      (match = content.match(
+        new RegExp(`\\.(?:alterTable|table)\\(\\s*${QUOTED}`)
+      ))
+    ) {
+      table = match[1];
+      creating = undefined;
+    } else if (
+      (match = content.match(
+        new RegExp(`\\.dropTable(?:IfExists)?\\(\\s*${QUOTED}`)
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "drop table",
+        table: match[1],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.dropTable,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(`\\.renameTable\\(\\s*${QUOTED}\\s*,\\s*${QUOTED}`)
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "rename table",
+        table: match[1],
+        newName: match[2],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      });
+    } else if ((match = content.match(/\.dropColumns?\(([^)]*)\)/))) {
+      for (const column of match[1].match(/[\w.]+(?=['"`])/g) || []) {
+        addOperation(context, line, {
+          action: "drop column",
+          table,
+          column,
+          destructive: true,
+          reason: DESTRUCTIVE_REASONS.dropColumn,
+        });
+      }
+    } else if (
+      (match = content.match(
+        new RegExp(`\\.renameColumn\\(\\s*${QUOTED}\\s*,\\s*${QUOTED}`)
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "rename column",
+        table,
+        column: match[1],
+        newName: match[2],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      });
+    } else if (
+      (match = content.match(/\.drop(?:Index|Unique|Foreign|Primary)\(/))
+    ) {
+      addOperation(context, line, { action: "drop index", table });
+    } else if (
+      (match = content.match(
+        new RegExp(`\\b\\w+\\.(?:${KNEX_COLUMN_TYPES})\\(\\s*${QUOTED}`)
+      ))
+    ) {
+      const call = callText(lines, index);
+      if (creating) {
+        creating.columns!.push(match[1]);
+      } else if (/\.alter\(\)/.test(call)) {
+        const notNull = /\.notNullable\(\)/.test(call);
+        addOperation(context, line, {
+          action: "alter column",
+          table,
+          column: match[1],
+          destructive: true,
+          reason: notNull
+            ? DESTRUCTIVE_REASONS.setNotNull
+            : DESTRUCTIVE_REASONS.changeColumn,
+        });
+      } else {
+        addColumn(
+          context,
+          table,
+          match[1],
+          line,
+          /\.notNullable\(\)/.test(call) && !/\.defaultTo\(/.test(call)
+        );
+      }
+    }
+  });
+}
+
+// Helper to read Sequelize queryInterface calls
+function parseSequelize(lines: SourceLine[], context: FileContext) {
+  lines.forEach(({ content, line }, index) => {
+    let match: RegExpMatchArray | null;
+    const call = () => callText(lines, index);
+    if ((match = content.match(new RegExp(`\\.createTable\\(\\s*${QUOTED}`)))) {
+      addOperation(context, line, { action: "create table", table: match[1] });
+    } else if (
+      (match = content.match(new RegExp(`\\.dropTable\\(\\s*${QUOTED}`)))
+    ) {
+      addOperation(context, line, {
+        action: "drop table",
+        table: match[1],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.dropTable,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(`\\.renameTable\\(\\s*${QUOTED}\\s*,\\s*${QUOTED}`)
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "rename table",
+        table: match[1],
+        newName: match[2],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(`\\.addColumn\\(\\s*${QUOTED}\\s*,\\s*${QUOTED}`)
+      ))
+    ) {
+      const text = call();
+      addColumn(
+        context,
+        match[1],
+        match[2],
+        line,
+        /allowNull:\s*false/.test(text) && !/defaultValue/.test(text)
+      );
+    } else if (
+      (match = content.match(
+        new RegExp(`\\.removeColumn\\(\\s*${QUOTED}\\s*,\\s*${QUOTED}`)
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "drop column",
+        table: match[1],
+        column: match[2],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.dropColumn,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(`\\.changeColumn\\(\\s*${QUOTED}\\s*,\\s*${QUOTED}`)
+      ))
+    ) {
+      const notNull = /allowNull:\s*false/.test(call());
+      addOperation(context, line, {
+        action: "alter column",
+        table: match[1],
+        column: match[2],
+        destructive: true,
+        reason: notNull
+          ? DESTRUCTIVE_REASONS.setNotNull
+          : DESTRUCTIVE_REASONS.changeColumn,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(
+          `\\.renameColumn\\(\\s*${QUOTED}\\s*,\\s*${QUOTED}\\s*,\\s*${QUOTED}`
+        )
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "rename column",
+        table: match[1],
+        column: match[2],
+        newName: match[3],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      });
+    } else if (
+      (match = content.match(new RegExp(`\\.addIndex\\(\\s*${QUOTED}`)))
+    ) {
+      addOperation(context, line, { action: "create index", table: match[1] });
+    } else if (
+      (match = content.match(new RegExp(`\\.removeIndex\\(\\s*${QUOTED}`)))
+    ) {
+      addOperation(context, line, { action: "drop index", table: match[1] });
+    } else if (
+      (match = content.match(new RegExp(`\\.bulkDelete\\(\\s*${QUOTED}`)))
+    ) {
+      addOperation(context, line, {
+        action: "delete rows",
+        table: match[1],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.deleteRows,
+      });
+    }
+  });
+}
+
+const RUBY_NAME = `[:"']([\\w.]+)["']?`;
+const RAILS_COLUMN_TYPES =
+  "string|text|integer|bigint|float|decimal|numeric|datetime|timestamp|time|date|binary|boolean|json|jsonb|uuid|references|belongs_to|column";
+
+// Helper to read ActiveRecord migration methods
+function parseRails(lines: SourceLine[], context: FileContext) {
+  let table: string | undefined;
+  let creating: SchemaOperation | undefined;
+  const call = (name: string, args: number) =>
+    new RegExp(
+      `^\\s*${name}\\s*\\(?\\s*${Array(args).fill(RUBY_NAME).join("\\s*,\\s*")}`
+    );
+
+  for (const { content, line } of lines) {
+    let match: RegExpMatchArray | null;
+    if ((match = content.match(call("create_table", 1)))) {
+      table = match[1];
+      creating = {
+        action: "create table",
+        table,
+        columns: [],
+        destructive: false,
+        file: context.path,
+        line,
+      };
+      context.operations.push(creating);
+    } else if ((match = content.match(call("change_table", 1)))) {
+      table = match[1];
+      creating = undefined;
+    } else if ((match = content.match(call("drop_table", 1)))) {
+      addOperation(context, line, {
+        action: "drop table",
+        table: match[1],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.dropTable,
+      });
+    } else if ((match = content.match(call("rename_table", 2)))) {
+      addOperation(context, line, {
+        action: "rename table",
+        table: match[1],
+        newName: match[2],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      });
+    } else if ((match = content.match(call("add_column", 2)))) {
+      addColumn(
+        context,
+        match[1],
+        match[2],
+        line,
+        /null:\s*false/.test(content) && !/default:/.test(content)
+      );
+    } else if ((match = content.match(call("remove_columns?", 2)))) {
+      const [tableName, ...columns] = (
+        content.match(/:\w+|["'][\w.]+["']/g) || []
+      )
+        .map((name) => name.replace(/^:|["']/g, ""))
+        .filter((name) => !/^(string|text|integer|bigint|boolean)$/.test(name));
+      for (const column of content.includes("remove_columns")
+        ? columns
+        : columns.slice(0, 1)) {
+        addOperation(context, line, {
+          action: "drop column",
+          table: tableName,
+          column,
+          destructive: true,
+          reason: DESTRUCTIVE_REASONS.dropColumn,
+        });
+      }
+    } else if ((match = content.match(call("rename_column", 3)))) {
+      addOperation(context, line, {
+        action: "rename column",
+        table: match[1],
+        column: match[2],
+        newName: match[3],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      });
+    } else if ((match = content.match(call("change_column_null", 2)))) {
+      const notNull = /,\s*false\b/.test(content);
+      addOperation(context, line, {
+        action: "alter column",
+        table: match[1],
+        column: match[2],
+        destructive: notNull,
+        reason: notNull ? DESTRUCTIVE_REASONS.setNotNull : undefined,
+      });
+    } else if ((match = content.match(call("change_column", 2)))) {
+      addOperation(context, line, {
+        action: "alter column",
+        table: match[1],
+        column: match[2],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.typeChange,
+      });
+    } else if ((match = content.match(call("add_index", 1)))) {
+      addOperation(context, line, { action: "create index", table: match[1] });
+    } else if ((match = content.match(call("remove_index", 1)))) {
+      addOperation(context, line, { action: "drop index", table: match[1] });
+    } else if (
+      (match = content.match(
+        new RegExp(`^\\s*t\\.(${RAILS_COLUMN_TYPES})\\s*\\(?\\s*${RUBY_NAME}`)
+      ))
+    ) {
+      if (creating) {
+        creating.columns!.push(match[2]);
+      } else {
+        addColumn(
+          context,
+          table,
+          match[2],
+          line,
+          /null:\s*false/.test(content) && !/default:/.test(content)
+        );
+      }
+    } else if (
+      (match = content.match(
+        new RegExp(`^\\s*t\\.remove\\s*\\(?\\s*${RUBY_NAME}`)
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "drop column",
+        table,
+        column: match[1],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.dropColumn,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(
+          `^\\s*t\\.rename\\s*\\(?\\s*${RUBY_NAME}\\s*,\\s*${RUBY_NAME}`
+        )
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "rename column",
+        table,
+        column: match[1],
+        newName: match[2],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      });
+    } else if (/^\s*end\b/.test(content) && !/^\s{4,}end/.test(content)) {
+      // The end of create_table closes the table block
+      creating = undefined;
+    }
+  }
+}
+
+// Helper to read Alembic `op` calls, also inside batch_alter_table
+function parseAlembic(lines: SourceLine[], context: FileContext) {
+  let batchTable: string | undefined;
+  let creating: SchemaOperation | undefined;
+
+  lines.forEach(({ content, line }, index) => {
+    let match: RegExpMatchArray | null;
+    const call = () => callText(lines, index);
+    // Arguments of batch_op calls do not repeat the table name
+    const target = (prefix: string) =>
+      prefix === "op" ? undefined : batchTable;
+
+    if (
+      (match = content.match(new RegExp(`op\\.create_table\\(\\s*${QUOTED}`)))
+    ) {
+      creating = {
+        action: "create table",
+        table: match[1],
+        columns: [],
+        destructive: false,
+        file: context.path,
+        line,
+      };
+      context.operations.push(creating);
+      return;
+    }
+    if (
+      (match = content.match(new RegExp(`batch_alter_table\\(\\s*${QUOTED}`)))
+    ) {
+      batchTable = match[1];
+      return;
+    }
+    if (
+      creating &&
+      (match = content.match(new RegExp(`sa\\.Column\\(\\s*${QUOTED}`)))
+    ) {
+      creating.columns!.push(match[1]);
+      return;
+    }
+    if (/^\s*\)\s*$/.test(content)) {
+      creating = undefined;
+      return;
+    }
+
+    if (
+      (match = content.match(new RegExp(`op\\.drop_table\\(\\s*${QUOTED}`)))
+    ) {
+      addOperation(context, line, {
+        action: "drop table",
+        table: match[1],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.dropTable,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(`op\\.rename_table\\(\\s*${QUOTED}\\s*,\\s*${QUOTED}`)
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "rename table",
+        table: match[1],
+        newName: match[2],
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.rename,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(
+          `\\b(op|batch_op)\\.add_column\\(\\s*(?:${QUOTED}\\s*,\\s*)?sa\\.Column\\(\\s*${QUOTED}`
+        )
+      ))
+    ) {
+      const text = call();
+      addColumn(
+        context,
+        match[2] || target(match[1]),
+        match[3],
+        line,
+        /nullable\s*=\s*False/.test(text) && !/server_default/.test(text)
+      );
+    } else if (
+      (match = content.match(
+        new RegExp(
+          `\\b(op|batch_op)\\.drop_column\\(\\s*${QUOTED}(?:\\s*,\\s*${QUOTED})?`
+        )
+      ))
+    ) {
+      const [table, column] =
+        match[1] === "op" ? [match[2], match[3]] : [batchTable, match[2]];
+      addOperation(context, line, {
+        action: "drop column",
+        table,
+        column,
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.dropColumn,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(
+          `\\b(op|batch_op)\\.alter_column\\(\\s*${QUOTED}(?:\\s*,\\s*${QUOTED})?`
+        )
+      ))
+    ) {
+      const [table, column] =
+        match[1] === "op" ? [match[2], match[3]] : [batchTable, match[2]];
+      const text = call();
+      const renamed = text.match(
+        new RegExp(`new_column_name\\s*=\\s*${QUOTED}`)
+      );
+      const notNull = /nullable\s*=\s*False/.test(text);
+      const typeChange = /\btype_\s*=/.test(text);
+      addOperation(context, line, {
+        action: renamed ? "rename column" : "alter column",
+        table,
+        column,
+        newName: renamed?.[1],
+        destructive: Boolean(renamed) || notNull || typeChange,
+        reason: renamed
+          ? DESTRUCTIVE_REASONS.rename
+          : notNull
+          ? DESTRUCTIVE_REASONS.setNotNull
+          : typeChange
+          ? DESTRUCTIVE_REASONS.typeChange
+          : undefined,
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(
+          `op\\.create_index\\(\\s*(?:op\\.f\\()?${QUOTED}\\)?\\s*,\\s*${QUOTED}`
+        )
+      ))
+    ) {
+      addOperation(context, line, {
+        action: "create index",
+        index: match[1],
+        table: match[2],
+      });
+    } else if (
+      (match = content.match(
+        new RegExp(`op\\.drop_index\\(\\s*(?:op\\.f\\()?${QUOTED}`)
+      ))
+    ) {
+      const table = call().match(new RegExp(`table_name\\s*=\\s*${QUOTED}`));
+      addOperation(context, line, {
+        action: "drop index",
+        index: match[1],
+        table: table?.[1],
+      });
+    }
+  });
+}
+
+// Start of the up and down parts of script migrations: up/down methods
+// (TypeORM, Knex, Sequelize, Rails), upgrade/downgrade (Alembic) and change
+// (Rails, reversed automatically)
+const UP_MARKER =
+  /^\s*(?:export\s+)?(?:public\s+)?(?:async\s+)?(?:def\s+|function\s*)?(?:exports\.|module\.exports\.)?(up|upgrade|change)\b\s*(?:[:=(]|$|\s*\(|\s+do\b)/;
+const DOWN_MARKER =
+  /^\s*(?:export\s+)?(?:public\s+)?(?:async\s+)?(?:def\s+|function\s*)?(?:exports\.|module\.exports\.)?(down|downgrade)\b\s*(?:[:=(]|$|\s*\(|\s+do\b)/;
+
+// Helper to split a script migration into the lines of its up and down parts
+function splitDirections(lines: SourceLine[]): {
+  up: SourceLine[];
+  down: SourceLine[];
+  hasDown: boolean;
+  reversible: boolean;
+} {
+  const up: SourceLine[] = [];
+  const down: SourceLine[] = [];
+  let current = up;
+  let hasDown = false;
+  let reversible = false;
+
+  for (const line of lines) {
+    const upMarker = line.content.match(UP_MARKER);
+    if (upMarker) {
+      current = up;
+      reversible = reversible || upMarker[1] === "change";
+    } else if (DOWN_MARKER.test(line.content)) {
+      current = down;
+      hasDown = true;
+    }
+    current.push(line);
+  }
+  return { up, down, hasDown, reversible };
+}
+
+// Operations ActiveRecord cannot reverse in a `change` method
+const IRREVERSIBLE_RAILS = [
+  { pattern: /^\s*change_column\s/, name: "change_column" },
+  { pattern: /^\s*execute\b/, name: "execute" },
+  {
+    pattern:
+      /^\s*remove_column\s*\(?\s*[:"'][\w.]+["']?\s*,\s*[:"'][\w.]+["']?\s*\)?\s*$/,
+    name: "remove_column without a type",
+  },
+  {
+    pattern: /^\s*drop_table\s*\(?\s*[:"'][\w.]+["']?\s*\)?\s*$/,
+    name: "drop_table without a block",
+  },
+];
+
+// Helper to parse the lines of one direction of a migration
+function parseMigrationLines(
+  framework: MigrationFramework,
+  lines: SourceLine[],
+  path: string
+): SchemaOperation[] {
+  const context: FileContext = { path, operations: [] };
+  switch (framework) {
+    case "prisma":
+    case "flyway":
+    case "sql":
+      return parseSql(lines, path);
+    case "typeorm":
+      return parseEmbeddedSql(lines, path);
+    case "knex":
+      parseKnex(lines, context);
+      break;
+    case "sequelize":
+      parseSequelize(lines, context);
+      break;
+    case "rails":
+      parseRails(lines, context);
+      break;
+    case "alembic":
+      parseAlembic(lines, context);
+      break;
+  }
+  // Raw SQL passed to knex.raw, sequelize.query, execute or op.execute
+  return [...context.operations, ...parseEmbeddedSql(lines, path)].sort(
+    (a, b) => a.line - b.line
+  );
+}
+
+// Prisma scalar types, other field types are enums or relations
+const PRISMA_SCALARS =
+  /^(String|Int|BigInt|Float|Decimal|Boolean|DateTime|Json|Bytes|Unsupported)\b/;
+const PRISMA_MODEL = /^(model|view)\s+(\w+)\s*\{/;
+const PRISMA_FIELD = /^\s+(\w+)\s+(\w+(?:\([^)]*\))?)(\[\])?(\?)?(.*)$/;
+
+// Helper to compare the models of a changed schema.prisma, for projects
+// that push the schema without migration files
+function parsePrismaSchema(file: DiffFile): SchemaOperation[] {
+  const operations: SchemaOperation[] = [];
+  const fields = {
+    added: new Map<string, SchemaOperation & { definition: string }>(),
+    removed: new Map<string, SchemaOperation & { definition: string }>(),
+  };
+
+  for (const hunk of file.hunks) {
+    let model = hunk.section.match(PRISMA_MODEL)?.[2];
+    let newModel = false;
+    for (const line of hunk.lines) {
+      const number =
+        line.type === "removed" ? line.oldLineNumber! : line.newLineNumber!;
+      const modelMatch = line.content.match(PRISMA_MODEL);
+      if (modelMatch) {
+        model = modelMatch[2];
+        newModel = line.type === "added";
+        if (line.type === "added") {
+          operations.push({
+            action: "create table",
+            table: model,
+            columns: [],
+            destructive: false,
+            file: file.path,
+            line: number,
+          });
+        } else if (line.type === "removed") {
+          operations.push({
+            action: "drop table",
+            table: model,
+            destructive: true,
+            reason: DESTRUCTIVE_REASONS.dropTable,
+            file: file.path,
+            line: number,
+          });
+        }
+        continue;
+      }
+      if (/^\}/.test(line.content)) {
+        model = undefined;
+        continue;
+      }
+
+      const field = line.content.match(PRISMA_FIELD);
+      if (!model || !field || line.type === "context") {
+        continue;
+      }
+      const [, name, type, list, optional, attributes] = field;
+      // Relation fields exist only in the Prisma client, not in the table
+      if (
+        !PRISMA_SCALARS.test(type) &&
+        (list || optional || /@relation\b/.test(attributes))
+      ) {
+        continue;
+      }
+      if (newModel && line.type === "added") {
+        operations[operations.length - 1].columns?.push(name);
+        continue;
+      }
+      const side = line.type === "added" ? fields.added : fields.removed;
+      side.set(`${model}.${name}`, {
+        action: line.type === "added" ? "add column" : "drop column",
+        table: model,
+        column: name,
+        destructive: false,
+        file: file.path,
+        line: number,
+        definition: `${type}${list || ""}${optional || ""}`,
+      });
+    }
+  }
+
+  for (const [key, added] of fields.added) {
+    const { definition, ...operation } = added;
+    const removed = fields.removed.get(key);
+    const required = !definition.endsWith("?") && !definition.endsWith("[]");
+    const hasDefault = /@default\b|@updatedAt\b/.test(
+      file.hunks
+        .flatMap((hunk) => hunk.lines)
+        .find(
+          (line) =>
+            line.newLineNumber === operation.line && line.type === "added"
+        )?.content || ""
+    );
+    if (!removed) {
+      operations.push({
+        ...operation,
+        destructive: required && !hasDefault,
+        reason:
+          required && !hasDefault
+            ? DESTRUCTIVE_REASONS.notNullWithoutDefault
+            : undefined,
+      });
+      continue;
+    }
+    if (removed.definition === definition) {
+      continue;
+    }
+    const setNotNull = removed.definition.endsWith("?") && required;
+    operations.push({
+      ...operation,
+      action: "alter column",
+      destructive: true,
+      reason: setNotNull
+        ? DESTRUCTIVE_REASONS.setNotNull
+        : DESTRUCTIVE_REASONS.typeChange,
+    });
+  }
+  for (const [key, removed] of fields.removed) {
+    if (!fields.added.has(key)) {
+      const { definition, ...operation } = removed;
+      operations.push({
+        ...operation,
+        destructive: true,
+        reason: DESTRUCTIVE_REASONS.dropColumn,
+      });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Tells whether a path is a migration or schema file of a supported
+ * framework, judging by the path alone
+ *
+ * @param path Repository-relative path
+ * @returns True for migrations and schema files
+ */
+export function isMigrationPath(path: string): boolean {
+  return (
+    FLYWAY_FILE.test(posix.basename(path)) ||
+    matchesGlob(path, [
+      "**/schema.prisma",
+      "**/prisma/migrations/**/*.sql",
+      "**/db/migrate/*.rb",
+      "**/alembic/versions/*.py",
+      "**/migrations/versions/*.py",
+      SCRIPT_MIGRATION,
+      SQL_MIGRATION,
+      ...SCHEMA_DUMPS,
+    ])
+  );
+}
+
+/**
+ * Finds the database migrations in a diff and the schema changes they make
+ *
+ * Recognizes Prisma (`schema.prisma` and `prisma/migrations`), TypeORM,
+ * Knex, Sequelize, Rails, Alembic, Flyway (`V1__name.sql`) and plain SQL
+ * migration directories. SQL is parsed statement by statement, the
+ * frameworks' migration DSLs call by call, and the up and down parts of a
+ * migration are kept apart.
+ *
+ * @param parsedDiff The parsed diff to analyze
+ * @returns The migrations and their operations, or undefined when the diff
+ *   has none
+ */
+export default function detectMigrations(
+  parsedDiff: ParsedDiff
+): MigrationReport | undefined {
+  const files: MigrationFile[] = [];
+  const schemaFiles: string[] = [];
+  const prismaSchemas: DiffFile[] = [];
+
+  for (const file of parsedDiff.files) {
+    if (file.binary || file.status === "deleted") {
+      continue;
+    }
+    if (matchesGlob(file.path, SCHEMA_DUMPS)) {
+      schemaFiles.push(file.path);
+      continue;
+    }
+    if (posix.basename(file.path) === "schema.prisma") {
+      schemaFiles.push(file.path);
+      prismaSchemas.push(file);
+      continue;
+    }
+
+    const framework = frameworkOf(file);
+    if (!framework) {
+      continue;
+    }
+    const lines = getSourceLines(file);
+    const name = posix.basename(file.path);
+
+    if (
+      framework === "flyway" ||
+      framework === "sql" ||
+      framework === "prisma"
+    ) {
+      // Undo migrations: Flyway U1__name.sql, 0001_name.down.sql, down.sql
+      const isUndo = /^U\d/.test(name) || /(^|[._-])down\.sql$/i.test(name);
+      const operations = parseMigrationLines(framework, lines, file.path);
+      files.push({
+        path: file.path,
+        framework,
+        operations: isUndo ? [] : operations,
+        rollback: isUndo ? operations : [],
+        rollbackSupport: isUndo
+          ? "undo-file"
+          : /^R__/.test(name)
+          ? "n/a"
+          : "none",
+        irreversible: [],
+      });
+      continue;
+    }
+
+    const { up, down, hasDown, reversible } = splitDirections(lines);
+    files.push({
+      path: file.path,
+      framework,
+      operations: parseMigrationLines(framework, up, file.path),
+      rollback: parseMigrationLines(framework, down, file.path),
+      rollbackSupport: hasDown ? "down" : reversible ? "reversible" : "none",
+      irreversible:
+        reversible && !hasDown
+          ? IRREVERSIBLE_RAILS.filter(({ pattern }) =>
+              up.some(({ content }) => pattern.test(content))
+            ).map(({ name }) => name)
+          : [],
+    });
+  }
+
+  // Without migration files, the schema changes come from schema.prisma
+  if (!files.some((file) => file.framework === "prisma")) {
+    for (const schema of prismaSchemas) {
+      const operations = parsePrismaSchema(schema);
+      if (operations.length > 0) {
+        files.push({
+          path: schema.path,
+          framework: "prisma",
+          operations,
+          rollback: [],
+          rollbackSupport: "none",
+          irreversible: [],
+        });
+        schemaFiles.splice(schemaFiles.indexOf(schema.path), 1);
+      }
+    }
+  }
+
+  // An up migration is reversible when its undo file is part of the diff
+  const undoFiles = files.filter(
+    (file) => file.rollbackSupport === "undo-file"
+  );
+  for (const file of files) {
+    if (file.rollbackSupport !== "none" || undoFiles.length === 0) {
+      continue;
+    }
+    const name = posix.basename(file.path);
+    const directory = posix.dirname(file.path);
+    const hasUndo = undoFiles.some((undo) => {
+      const undoName = posix.basename(undo.path);
+      return (
+        (/^V\d/.test(name) && undoName === `U${name.substring(1)}`) ||
+        (posix.dirname(undo.path) === directory &&
+          undoName.replace(/down\.sql$/i, "") === name.replace(/up\.sql$/i, ""))
+      );
+    });
+    if (hasUndo) {
+      file.rollbackSupport = "undo-file";
+    }
+  }
+
+  if (files.length === 0 && schemaFiles.length === 0) {
+    return undefined;
+  }
+  return { files, schemaFiles };
+}
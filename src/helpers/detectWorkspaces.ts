@@ -0,0 +1,274 @@
+import { posix } from "path";
+import matchesGlob from "./matchesGlob.js";
+
+export type WorkspaceTool = "npm" | "yarn" | "pnpm" | "nx";
+
+export interface WorkspacePackage {
+  name: string;
+  // Directory relative to the repository root
+  path: string;
+  // Names of the workspace packages this one depends on
+  dependencies: string[];
+}
+
+export interface Workspace {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackage[];
+}
+
+// Reads a file of the compared head, undefined when it does not exist
+export type WorkspaceFileReader = (path: string) => Promise<string | undefined>;
+
+const DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+];
+
+// Helper to parse JSON that may be missing or broken
+function parseJson(content: string | undefined): any {
+  if (!content) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the package globs of a `pnpm-workspace.yaml`, in block or flow
+ * style
+ *
+ * @param content The file content
+ * @returns The globs, with `!` in front of excluded ones
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  const unquote = (value: string) => value.trim().replace(/^["']|["']$/g, "");
+  const flow = content.match(/^packages:\s*\[([^\]]*)\]/m);
+  if (flow) {
+    return flow[1].split(",").map(unquote).filter(Boolean);
+  }
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+    } else if (inPackages) {
+      const item = line.match(/^\s+-\s*(.+?)\s*(?:#.*)?$/);
+      if (item) {
+        patterns.push(unquote(item[1]));
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+  }
+  return patterns;
+}
+
+// Helper to check a package directory against workspace globs, where
+// "packages/*" only matches directories directly inside packages/
+function matchesWorkspaceGlobs(directory: string, patterns: string[]): boolean {
+  const matches = (pattern: string) =>
+    matchesGlob(directory, pattern.replace(/\/$/, "")) &&
+    (pattern.includes("**") ||
+      directory.split("/").length ===
+        pattern.replace(/\/$/, "").split("/").length);
+  return (
+    patterns.some((pattern) => !pattern.startsWith("!") && matches(pattern)) &&
+    !patterns.some(
+      (pattern) => pattern.startsWith("!") && matches(pattern.substring(1))
+    )
+  );
+}
+
+/**
+ * Detects the packages of a monorepo: npm and yarn `workspaces` in the root
+ * `package.json`, `pnpm-workspace.yaml`, and Nx projects (`project.json`
+ * files, or packages in the `workspaceLayout` directories of `nx.json`).
+ * Turborepo builds on the package manager's workspaces and needs nothing
+ * extra.
+ *
+ * @param paths All file paths of the compared head
+ * @param read Reads a file of the compared head
+ * @returns The workspace, or undefined for a repository with one package
+ */
+export default async function detectWorkspaces(
+  paths: string[],
+  read: WorkspaceFileReader
+): Promise<Workspace | undefined> {
+  const tools: WorkspaceTool[] = [];
+  const patterns: string[] = [];
+
+  const rootManifest = parseJson(await read("package.json"));
+  const workspaces = rootManifest?.workspaces;
+  const workspaceGlobs: unknown = Array.isArray(workspaces)
+    ? workspaces
+    : workspaces?.packages;
+  if (Array.isArray(workspaceGlobs)) {
+    tools.push(paths.includes("yarn.lock") ? "yarn" : "npm");
+    patterns.push(...workspaceGlobs.filter((glob) => typeof glob === "string"));
+  }
+
+  const pnpmWorkspace = await read("pnpm-workspace.yaml");
+  if (pnpmWorkspace !== undefined) {
+    tools.push("pnpm");
+    patterns.push(...parsePnpmWorkspace(pnpmWorkspace));
+  }
+
+  const nxConfig = paths.includes("nx.json")
+    ? parseJson(await read("nx.json")) || {}
+    : undefined;
+  if (nxConfig) {
+    tools.push("nx");
+    const layout = nxConfig.workspaceLayout || {};
+    for (const directory of [layout.appsDir, layout.libsDir]) {
+      if (typeof directory === "string") {
+        patterns.push(`${directory.replace(/\/$/, "")}/**`);
+      }
+    }
+  }
+
+  if (tools.length === 0) {
+    return undefined;
+  }
+
+  const packages = new Map<string, WorkspacePackage>();
+  const outsideDependencies = (path: string) =>
+    path.split("/").includes("node_modules");
+
+  for (const path of paths) {
+    const file = posix.basename(path);
+    const directory = posix.dirname(path);
+    if (
+      directory === "." ||
+      outsideDependencies(path) ||
+      (file !== "package.json" && file !== "project.json") ||
+      (file === "project.json" && !nxConfig) ||
+      (file === "package.json" && !matchesWorkspaceGlobs(directory, patterns))
+    ) {
+      continue;
+    }
+
+    const manifest = parseJson(await read(path));
+    if (!manifest) {
+      continue;
+    }
+    const existing = packages.get(directory);
+    const dependencies =
+      file === "package.json"
+        ? DEPENDENCY_FIELDS.flatMap((field) =>
+            Object.keys(manifest[field] || {})
+          )
+        : (manifest.implicitDependencies || []).filter(
+            (name: unknown) => typeof name === "string"
+          );
+    packages.set(directory, {
+      // Nx project names win over package names, they are what nx uses
+      name:
+        (file === "project.json" && manifest.name) ||
+        existing?.name ||
+        manifest.name ||
+        directory,
+      path: directory,
+      dependencies: [...(existing?.dependencies || []), ...dependencies],
+    });
+  }
+
+  // Only dependencies on other workspace packages make up the graph
+  const names = new Set([...packages.values()].map((item) => item.name));
+  const result = [...packages.values()]
+    .map((item) => ({
+      ...item,
+      dependencies: [
+        ...new Set(
+          item.dependencies.filter(
+            (name) => names.has(name) && name !== item.name
+          )
+        ),
+      ].sort(),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  return result.length > 0 ? { tools, packages: result } : undefined;
+}
+
+/**
+ * Finds the workspace package a file belongs to, the innermost one for
+ * nested packages
+ *
+ * @param path Repository-relative file path
+ * @param workspace The detected workspace
+ * @returns The package, or undefined for files outside all packages
+ */
+export function findPackage(
+  path: string,
+  workspace: Workspace
+): WorkspacePackage | undefined {
+  return workspace.packages
+    .filter((item) => path.startsWith(`${item.path}/`))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/**
+ * Finds the packages that depend on the given ones, directly or through
+ * other packages
+ *
+ * @param names Names of the changed packages
+ * @param workspace The detected workspace
+ * @returns Each dependent package with the changed package it reaches
+ * first, excluding the changed packages themselves
+ */
+export function findDependents(
+  names: string[],
+  workspace: Workspace
+): { name: string; via: string }[] {
+  const dependents: { name: string; via: string }[] = [];
+  const seen = new Set(names);
+  let queue = names.map((name) => ({ name, via: name }));
+  while (queue.length > 0) {
+    const next: { name: string; via: string }[] = [];
+    for (const { name, via } of queue) {
+      for (const item of workspace.packages) {
+        if (!seen.has(item.name) && item.dependencies.includes(name)) {
+          seen.add(item.name);
+          dependents.push({ name: item.name, via });
+          next.push({ name: item.name, via });
+        }
+      }
+    }
+    queue = next;
+  }
+  return dependents;
+}
+
+/**
+ * Groups paths by the workspace package they belong to, packages in path
+ * order and files outside all packages last
+ *
+ * @param paths Repository-relative file paths
+ * @param workspace The detected workspace
+ * @returns The groups, without a package for the files outside them
+ */
+export function groupByPackage(
+  paths: string[],
+  workspace: Workspace
+): { package?: WorkspacePackage; paths: string[] }[] {
+  const groups = new Map<
+    string,
+    { package?: WorkspacePackage; paths: string[] }
+  >();
+  for (const path of paths) {
+    const item = findPackage(path, workspace);
+    const key = item ? item.path : "";
+    const group = groups.get(key) || { package: item, paths: [] };
+    group.paths.push(path);
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) =>
+    !a.package || !b.package
+      ? Number(!a.package) - Number(!b.package)
+      : a.package.path.localeCompare(b.package.path)
+  );
+}
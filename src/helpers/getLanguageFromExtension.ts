@@ -2,10 +2,15 @@
 export default function getLanguageFromExtension(ext: string): string {
   const languageMap: Record<string, string> = {
     js: "javascript",
+    mjs: "javascript",
+    cjs: "javascript",
     ts: "typescript",
+    mts: "typescript",
+    cts: "typescript",
     jsx: "jsx",
     tsx: "tsx",
     py: "python",
+    pyi: "python",
     rb: "ruby",
     java: "java",
     go: "go",
@@ -14,6 +19,7 @@ export default function getLanguageFromExtension(ext: string): string {
     rs: "rust",
     swift: "swift",
     kt: "kotlin",
+    kts: "kotlin",
     md: "markdown",
     json: "json",
     yml: "yaml",
@@ -1,4 +1,6 @@
-import processDiffForPreview from "./processDiffForPreview.js";
+import processDiffForPreview, {
+  DEFAULT_IGNORE_GLOBS,
+} from "./processDiffForPreview.js";
 import interpretJavaScriptChanges from "./interpretJavaScriptChanges.js";
 import interpretJsonChanges from "./interpretJsonChanges.js";
 import interpretMarkdownChanges from "./interpretMarkdownChanges.js";
@@ -6,10 +8,78 @@ import interpretGenericChanges from "./interpretGenericChanges.js";
 import countCodeBlocks from "./countCodeBlocks.js";
 import interpretFileChanges from "./interpretFileChanges.js";
 import getLanguageFromExtension from "./getLanguageFromExtension.js";
-import { generateKeyPoints, generateSimpleLogicSummary } from "./prUtils.js";
+import matchesGlob from "./matchesGlob.js";
+import isInsideDirectory from "./isInsideDirectory.js";
+import parseCommitLog, { COMMIT_LOG_FORMAT } from "./parseCommitLog.js";
+import categorizeFile from "./categorizeFile.js";
+import classifyChanges from "./classifyChanges.js";
+import compareExports, { isScriptFile } from "./compareExports.js";
+import comparePublicApi, { readEntryPoints } from "./comparePublicApi.js";
+import analyzeDependencies, {
+  isDependencyFile,
+} from "./analyzeDependencies.js";
+import interpretDependencyChanges from "./interpretDependencyChanges.js";
+import parseLockfile, { lockfileKind } from "./parseLockfile.js";
+import {
+  getLanguageAnalyzer,
+  registerLanguageAnalyzer,
+} from "./languageAnalyzers.js";
+import { createSymbolAnalyzer, findSymbolChanges } from "./symbolAnalyzer.js";
+import detectMigrations, { isMigrationPath } from "./detectMigrations.js";
+import scanSecrets, { redactSecrets } from "./scanSecrets.js";
+import matchTests, { isTestFile } from "./matchTests.js";
+import parseCoverage, { coverageFormat } from "./parseCoverage.js";
+import parseGitattributes, { attributesFor } from "./parseGitattributes.js";
+import classifyFile, { EXCLUDED_FILE_CLASSES } from "./classifyFile.js";
+import rankFiles from "./rankFiles.js";
+import parseNumstat from "./parseNumstat.js";
+import computeChangeStats, { numstatFromDiff } from "./computeChangeStats.js";
+import splitIntoChunks, { estimateTokens } from "./splitIntoChunks.js";
+import detectWorkspaces, {
+  findDependents,
+  findPackage,
+  groupByPackage,
+  parsePnpmWorkspace,
+} from "./detectWorkspaces.js";
+import parseCodeowners, {
+  CODEOWNERS_PATHS,
+  ownersFor,
+} from "./parseCodeowners.js";
+import suggestReviewers, {
+  AUTHOR_LOG_FORMAT,
+  changedLineRanges,
+  parseAuthorLog,
+  parseBlame,
+} from "./suggestReviewers.js";
+import parseDiff, {
+  filterDiff,
+  getAddedLines,
+  getRemovedLines,
+  formatLineRanges,
+  describeFile,
+} from "./parseDiff.js";
+import evaluateKeyPoints, {
+  DEFAULT_KEY_POINT_RULES,
+  KEY_POINT_DETECTORS,
+  evaluateKeyPointCondition,
+} from "./keyPointRules.js";
+import {
+  generateKeyPoints,
+  generateSimpleLogicSummary,
+  generateCommitsSection,
+  generateTypeOfChange,
+  generatePublicApiImpact,
+  generateMigrationNotes,
+  generateSecretsWarning,
+  generateTestingDone,
+  generateChangeStats,
+  generateSuggestedReviewers,
+  getClosedIssues,
+} from "./prUtils.js";
 
 export {
   processDiffForPreview,
+  DEFAULT_IGNORE_GLOBS,
   interpretJavaScriptChanges,
   interpretJsonChanges,
   interpretMarkdownChanges,
@@ -17,6 +87,170 @@ export {
   countCodeBlocks,
   interpretFileChanges,
   getLanguageFromExtension,
+  matchesGlob,
+  isInsideDirectory,
   generateKeyPoints,
+  evaluateKeyPoints,
+  evaluateKeyPointCondition,
+  DEFAULT_KEY_POINT_RULES,
+  KEY_POINT_DETECTORS,
   generateSimpleLogicSummary,
+  generateCommitsSection,
+  generateTypeOfChange,
+  generatePublicApiImpact,
+  generateMigrationNotes,
+  generateSecretsWarning,
+  generateTestingDone,
+  generateChangeStats,
+  generateSuggestedReviewers,
+  getClosedIssues,
+  parseCommitLog,
+  COMMIT_LOG_FORMAT,
+  categorizeFile,
+  classifyChanges,
+  compareExports,
+  isScriptFile,
+  comparePublicApi,
+  readEntryPoints,
+  analyzeDependencies,
+  isDependencyFile,
+  interpretDependencyChanges,
+  parseLockfile,
+  lockfileKind,
+  getLanguageAnalyzer,
+  registerLanguageAnalyzer,
+  createSymbolAnalyzer,
+  findSymbolChanges,
+  detectMigrations,
+  isMigrationPath,
+  scanSecrets,
+  redactSecrets,
+  matchTests,
+  isTestFile,
+  parseCoverage,
+  coverageFormat,
+  parseGitattributes,
+  attributesFor,
+  classifyFile,
+  EXCLUDED_FILE_CLASSES,
+  rankFiles,
+  parseNumstat,
+  computeChangeStats,
+  numstatFromDiff,
+  splitIntoChunks,
+  estimateTokens,
+  detectWorkspaces,
+  findDependents,
+  findPackage,
+  groupByPackage,
+  parsePnpmWorkspace,
+  parseCodeowners,
+  CODEOWNERS_PATHS,
+  ownersFor,
+  suggestReviewers,
+  AUTHOR_LOG_FORMAT,
+  changedLineRanges,
+  parseAuthorLog,
+  parseBlame,
+  parseDiff,
+  filterDiff,
+  getAddedLines,
+  getRemovedLines,
+  formatLineRanges,
+  describeFile,
 };
+
+export type { CommitInfo, CommitTrailer } from "./parseCommitLog.js";
+export type { FileCategory } from "./categorizeFile.js";
+export type { ChangeClassification, ChangeType } from "./classifyChanges.js";
+export type {
+  DeclarationChanges,
+  DeclarationKind,
+  ExportChange,
+  FileSources,
+} from "./compareExports.js";
+export type {
+  EntryPointChange,
+  PublicApiChange,
+  PublicApiReport,
+  SemverBump,
+  SourceReader,
+} from "./comparePublicApi.js";
+export type {
+  DependencyChange,
+  DependencyField,
+  DependencyReport,
+  LockedVersionChange,
+  LockfileReport,
+  ManifestReport,
+} from "./analyzeDependencies.js";
+export type {
+  LockedDependency,
+  Lockfile,
+  LockfileKind,
+} from "./parseLockfile.js";
+export type { LanguageAnalyzer } from "./languageAnalyzers.js";
+export type {
+  SymbolChange,
+  SymbolGrammar,
+  SymbolMatch,
+} from "./symbolAnalyzer.js";
+export type {
+  MigrationFile,
+  MigrationFramework,
+  MigrationReport,
+  SchemaAction,
+  SchemaOperation,
+} from "./detectMigrations.js";
+export type { SecretFinding, SecretScanOptions } from "./scanSecrets.js";
+export type { ChangedTest, TestKind, TestReport } from "./matchTests.js";
+export type {
+  CoverageFormat,
+  CoverageReport,
+  FileCoverage,
+} from "./parseCoverage.js";
+export type {
+  AttributeValue,
+  GitattributesRule,
+} from "./parseGitattributes.js";
+export type { FileClass } from "./classifyFile.js";
+export type { FileRelevance, RankedFile } from "./rankFiles.js";
+export type { NumstatEntry } from "./parseNumstat.js";
+export type {
+  ChangeStats,
+  FileStats,
+  Hotspot,
+  StatsRollup,
+} from "./computeChangeStats.js";
+export type {
+  Workspace,
+  WorkspaceFileReader,
+  WorkspacePackage,
+  WorkspaceTool,
+} from "./detectWorkspaces.js";
+export type { CodeownersRule } from "./parseCodeowners.js";
+export type {
+  Author,
+  BlameEvidence,
+  HistoryEvidence,
+  OwnerGroup,
+  ReviewerReport,
+  SuggestedReviewer,
+} from "./suggestReviewers.js";
+export type {
+  ParsedDiff,
+  DiffFile,
+  DiffHunk,
+  DiffLine,
+  DiffFileStatus,
+  DiffLineType,
+} from "./parseDiff.js";
+export type {
+  KeyPointAnalyses,
+  KeyPointCondition,
+  KeyPointDetector,
+  KeyPointEvidence,
+  KeyPointResult,
+  KeyPointRule,
+} from "./keyPointRules.js";
+export type { WorkingTreeState } from "./processDiffForPreview.js";
@@ -0,0 +1,137 @@
+import type {
+  DependencyChange,
+  DependencyField,
+  DependencyReport,
+  LockfileReport,
+  ManifestReport,
+} from "./analyzeDependencies.js";
+
+// Lockfile problems and major upgrades listed before the rest is counted
+const MAX_LISTED = 10;
+
+const FIELD_LABELS: Record<DependencyField, string> = {
+  dependencies: "",
+  devDependencies: "dev dependency ",
+  peerDependencies: "peer dependency ",
+  optionalDependencies: "optional dependency ",
+};
+
+// Helper to describe one dependency change of a package.json
+function describeDependencyChange(change: DependencyChange): string {
+  const name = `${FIELD_LABELS[change.field]}\`${change.name}\``;
+  const { before, after } = change.resolved;
+  const installed =
+    before && after && before !== after
+      ? ` (installed ${before} → ${after})`
+      : after || before
+      ? ` (installed ${after || before})`
+      : "";
+  const warning = change.major ? "⚠️ " : "";
+  const major = !change.major
+    ? ""
+    : change.change === "upgraded"
+    ? ", a new major version"
+    : ", across major versions";
+
+  switch (change.change) {
+    case "added":
+      return `- Added ${name} ${change.after}${installed}`;
+    case "removed":
+      return `- Removed ${name} ${change.before}`;
+    case "moved":
+      return `- Moved \`${change.name}\` from \`${change.previousField}\` to \`${change.field}\``;
+    case "upgraded":
+      return `- ${warning}Upgraded ${name} ${change.before} → ${change.after}${installed}${major}`;
+    case "downgraded":
+      return `- ${warning}Downgraded ${name} ${change.before} → ${change.after}${installed}${major}`;
+    default:
+      return `- ${warning}Changed ${name} ${change.before} → ${change.after}${installed}${major}`;
+  }
+}
+
+// Helper to list items, collapsing the ones past MAX_LISTED
+function listLimited(items: string[], indent = ""): string[] {
+  const lines = items.slice(0, MAX_LISTED).map((item) => `${indent}- ${item}`);
+  if (items.length > MAX_LISTED) {
+    lines.push(`${indent}- and ${items.length - MAX_LISTED} more`);
+  }
+  return lines;
+}
+
+// Helper to describe the dependency changes of a package.json and whether
+// its lockfile keeps up with them
+function describeManifest(report: ManifestReport): string {
+  const lines = report.changes.map(describeDependencyChange);
+
+  if (!report.lockfile) {
+    lines.push("- _No lockfile found for this package_");
+  } else if (report.mismatches.length > 0) {
+    lines.push(
+      `- ⚠️ \`${report.lockfile}\` does not match package.json${
+        report.lockfileUpdated ? "" : " and was not updated"
+      }:`,
+      ...listLimited(report.mismatches, "  ")
+    );
+  } else {
+    lines.push(
+      `- ✅ \`${report.lockfile}\` matches package.json${
+        report.lockfileUpdated ? "" : " (not changed)"
+      }`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// Helper to summarize the locked versions changed in a lockfile
+function describeLockfile(report: LockfileReport): string {
+  const counts = (
+    [
+      [report.added.length, "added"],
+      [report.removed.length, "removed"],
+      [report.upgraded.length, "upgraded"],
+      [report.downgraded.length, "downgraded"],
+    ] as [number, string][]
+  )
+    .filter(([count]) => count > 0)
+    .map(([count, change]) => `${count} ${change}`);
+  if (counts.length === 0) {
+    return "- No locked package versions changed";
+  }
+
+  const lines = [`- Locked packages: ${counts.join(", ")}`];
+  const majors = report.upgraded
+    .filter((change) => change.major)
+    .map((change) => `\`${change.name}\` ${change.before} → ${change.after}`);
+  if (majors.length > 0) {
+    lines.push("- ⚠️ New major versions:", ...listLimited(majors, "  "));
+  }
+  const downgrades = report.downgraded.map(
+    (change) => `\`${change.name}\` ${change.before} → ${change.after}`
+  );
+  if (downgrades.length > 0) {
+    lines.push("- Downgraded:", ...listLimited(downgrades, "  "));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Describes the changes of a package.json or lockfile from the dependency
+ * analysis, instead of counting its changed lines
+ *
+ * @param path Path of the changed file
+ * @param report Dependency changes of the whole diff
+ * @returns Markdown list for the file, or undefined when the analysis has
+ *   nothing about it
+ */
+export default function interpretDependencyChanges(
+  path: string,
+  report: DependencyReport
+): string | undefined {
+  const manifest = report.manifests.find((entry) => entry.path === path);
+  if (manifest) {
+    return describeManifest(manifest);
+  }
+  const lockfile = report.lockfiles.find((entry) => entry.path === path);
+  return lockfile ? describeLockfile(lockfile) : undefined;
+}
@@ -1,31 +1,41 @@
+import getLanguageFromExtension from "./getLanguageFromExtension.js";
 import interpretGenericChanges from "./interpretGenericChanges.js";
-import interpretJavaScriptChanges from "./interpretJavaScriptChanges.js";
-import interpretJsonChanges from "./interpretJsonChanges.js";
-import interpretMarkdownChanges from "./interpretMarkdownChanges.js";
+import { getLanguageAnalyzer } from "./languageAnalyzers.js";
+import type { DiffFile } from "./parseDiff.js";
+import type { FileSources } from "./compareExports.js";
 
 // Helper function to interpret changes based on file type and content
 export default function interpretFileChanges(
-  file: string,
-  data: { added: string[]; removed: string[]; changes: string[] }
+  file: DiffFile,
+  sources?: FileSources // File contents before and after, for code files
 ): string {
-  const fileExt = file.split(".").pop() || "";
+  const fileExt = file.path.split(".").pop() || "";
   let interpretation = "";
 
-  // Analyze changes based on file type
-  switch (fileExt) {
-    case "ts":
-    case "js":
-      interpretation = interpretJavaScriptChanges(data);
-      break;
-    case "json":
-      interpretation = interpretJsonChanges(data);
-      break;
-    case "md":
-      interpretation = interpretMarkdownChanges(data);
-      break;
-    default:
-      interpretation = interpretGenericChanges(data);
+  // Describe status changes that have no line content to analyze
+  if (file.status === "renamed" || file.status === "copied") {
+    interpretation += `- ${
+      file.status === "renamed" ? "Renamed" : "Copied"
+    } \`${file.oldPath}\` → \`${file.newPath}\`${
+      file.similarity !== undefined ? ` (${file.similarity}% similar)` : ""
+    }.\n`;
+  } else if (file.status === "deleted") {
+    interpretation += `- Deleted \`${file.path}\`.\n`;
   }
 
-  return interpretation;
+  if (file.binary) {
+    return interpretation + `- Updated binary content.\n`;
+  }
+  if (file.hunks.length === 0) {
+    return interpretation || interpretGenericChanges(file);
+  }
+
+  // Analyze changes with the analyzer registered for the language
+  const analyzer = getLanguageAnalyzer(getLanguageFromExtension(fileExt));
+  return (
+    interpretation +
+    (analyzer
+      ? analyzer.describe(file, sources)
+      : interpretGenericChanges(file))
+  );
 }
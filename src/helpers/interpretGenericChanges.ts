@@ -1,10 +1,8 @@
+import type { DiffFile } from "./parseDiff.js";
+
 // Helper for generic changes
-export default function interpretGenericChanges(data: {
-  added: string[];
-  removed: string[];
-  changes: string[];
-}): string {
+export default function interpretGenericChanges(file: DiffFile): string {
   return `- Made ${
-    data.added.length + data.removed.length
+    file.additions + file.deletions
   } changes to improve functionality and readability.\n`;
 }
@@ -1,76 +1,201 @@
+import compareExports from "./compareExports.js";
 import interpretGenericChanges from "./interpretGenericChanges.js";
+import {
+  formatLineRanges,
+  getAddedLines,
+  getRemovedLines,
+} from "./parseDiff.js";
+import type { DiffFile, DiffLine } from "./parseDiff.js";
+import type { ExportChange, FileSources } from "./compareExports.js";
+
+// Longest signature shown before it is shortened
+const MAX_SIGNATURE_LENGTH = 100;
+
+// Helper to cite where added or removed lines sit in the file
+function citeLines(lines: DiffLine[], side: "new" | "old"): string {
+  return side === "new"
+    ? `(${formatLineRanges(lines.map((line) => line.newLineNumber!))})`
+    : `(old ${formatLineRanges(lines.map((line) => line.oldLineNumber!))})`;
+}
+
+// Helper to show a signature in backticks, shortened when very long
+function formatSignature(signature: string): string {
+  return `\`${
+    signature.length > MAX_SIGNATURE_LENGTH
+      ? `${signature.slice(0, MAX_SIGNATURE_LENGTH - 1)}…`
+      : signature
+  }\``;
+}
+
+// Helper to describe one changed export
+function describeExportChange(change: ExportChange): string {
+  const name = `\`${change.name}\``;
+  const breaking = change.breaking ? "⚠️ " : "";
+  const suffix = change.breaking ? " — breaks the public API" : "";
+
+  switch (change.change) {
+    case "added":
+      return `- Added export ${name} (${change.kind}${
+        change.after ? `, ${formatSignature(change.after)}` : ""
+      }) (L${change.line}).\n`;
+    case "renamed":
+      return `- ⚠️ Renamed export \`${change.previousName}\` → ${name} (L${change.line}) — breaks the public API.\n`;
+    case "removed":
+      return `- ${breaking}Removed export ${name} (${change.kind}) (old L${change.line})${suffix}.\n`;
+    case "updated":
+      return `- Updated the implementation of ${name}, signature unchanged (L${change.line}).\n`;
+    case "changed":
+      return `- ${breaking}Changed export ${name}${
+        change.before !== change.after && change.before && change.after
+          ? `: ${formatSignature(change.before)} → ${formatSignature(
+              change.after
+            )}`
+          : ""
+      } (L${change.line})${
+        change.reasons.length > 0 ? ` — ${change.reasons.join(", ")}` : ""
+      }${suffix}.\n`;
+  }
+}
+
+// Helper to list names in backticks
+function formatNames(names: string[]): string {
+  return names.map((name) => `\`${name}\``).join(", ");
+}
+
+// Helper to describe a module from its parsed before and after versions
+function interpretDeclarations(file: DiffFile, sources: FileSources): string {
+  const { exports, internal, imports } = compareExports(file.path, sources);
+  let interpretation = "";
+
+  // Breaking changes first, so they are not missed
+  const ordered = [
+    ...exports.filter((change) => change.breaking),
+    ...exports.filter((change) => !change.breaking),
+  ];
+  for (const change of ordered) {
+    interpretation += describeExportChange(change);
+  }
+
+  const internalChanges = [
+    internal.added.length > 0 ? `added ${formatNames(internal.added)}` : "",
+    internal.removed.length > 0
+      ? `removed ${formatNames(internal.removed)}`
+      : "",
+    internal.updated.length > 0
+      ? `updated ${formatNames(internal.updated)}`
+      : "",
+  ].filter(Boolean);
+  if (internalChanges.length > 0) {
+    interpretation += `- Internal declarations: ${internalChanges.join(
+      "; "
+    )}.\n`;
+  }
+
+  const importChanges = [
+    imports.added.length > 0 ? `added ${formatNames(imports.added)}` : "",
+    imports.removed.length > 0 ? `removed ${formatNames(imports.removed)}` : "",
+  ].filter(Boolean);
+  if (importChanges.length > 0) {
+    interpretation += `- Imports: ${importChanges.join("; ")}.\n`;
+  }
+
+  return interpretation;
+}
+
+/**
+ * Describes changes to a JavaScript or TypeScript file
+ *
+ * With the file contents before and after the change, both versions are
+ * parsed and compared by declaration. Without them, the added and removed
+ * lines are scanned for imports, functions and variables.
+ *
+ * @param file The changed file
+ * @param sources The file contents before and after the change, if known
+ * @returns Markdown bullet points describing the changes
+ */
+export default function interpretJavaScriptChanges(
+  file: DiffFile,
+  sources?: FileSources
+): string {
+  if (
+    sources &&
+    (sources.before !== undefined || sources.after !== undefined)
+  ) {
+    return (
+      interpretDeclarations(file, sources) || interpretGenericChanges(file)
+    );
+  }
 
-// Helper for JavaScript/TypeScript changes
-export default function interpretJavaScriptChanges(data: {
-  added: string[];
-  removed: string[];
-  changes: string[];
-}): string {
   let interpretation = "";
+  const added = getAddedLines(file);
+  const removed = getRemovedLines(file);
 
   // Check for imports
-  const addedImports = data.added.filter((line) => line.includes("import "));
-  const removedImports = data.removed.filter((line) =>
-    line.includes("import ")
+  const addedImports = added.filter((line) => line.content.includes("import "));
+  const removedImports = removed.filter((line) =>
+    line.content.includes("import ")
   );
 
   if (addedImports.length > 0) {
     interpretation += `- Added ${addedImports.length} new import${
       addedImports.length !== 1 ? "s" : ""
-    }, enhancing functionality with external modules.\n`;
+    } ${citeLines(
+      addedImports,
+      "new"
+    )}, enhancing functionality with external modules.\n`;
   }
 
   if (removedImports.length > 0) {
     interpretation += `- Removed ${removedImports.length} import${
       removedImports.length !== 1 ? "s" : ""
-    }, simplifying dependencies.\n`;
+    } ${citeLines(removedImports, "old")}, simplifying dependencies.\n`;
   }
 
   // Check for functions
-  const addedFunctions = data.added.filter(
-    (line) => line.includes("function ") || line.match(/\w+\s*\([^)]*\)\s*{/)
-  );
-  const removedFunctions = data.removed.filter(
-    (line) => line.includes("function ") || line.match(/\w+\s*\([^)]*\)\s*{/)
-  );
+  const isFunction = (line: DiffLine) =>
+    line.content.includes("function ") ||
+    Boolean(line.content.match(/\w+\s*\([^)]*\)\s*{/));
+  const addedFunctions = added.filter(isFunction);
+  const removedFunctions = removed.filter(isFunction);
 
   if (addedFunctions.length > 0) {
     interpretation += `- Added ${addedFunctions.length} new function${
       addedFunctions.length !== 1 ? "s" : ""
-    }, improving code organization and reusability.\n`;
+    } ${citeLines(
+      addedFunctions,
+      "new"
+    )}, improving code organization and reusability.\n`;
   }
 
   if (removedFunctions.length > 0) {
     interpretation += `- Removed ${removedFunctions.length} function${
       removedFunctions.length !== 1 ? "s" : ""
-    }, streamlining the codebase.\n`;
+    } ${citeLines(removedFunctions, "old")}, streamlining the codebase.\n`;
   }
 
   // Check for variables
-  const addedVars = data.added.filter(
-    (line) =>
-      line.includes("const ") || line.includes("let ") || line.includes("var ")
-  );
-  const removedVars = data.removed.filter(
-    (line) =>
-      line.includes("const ") || line.includes("let ") || line.includes("var ")
-  );
+  const isVariable = (line: DiffLine) =>
+    line.content.includes("const ") ||
+    line.content.includes("let ") ||
+    line.content.includes("var ");
+  const addedVars = added.filter(isVariable);
+  const removedVars = removed.filter(isVariable);
 
   if (addedVars.length > 0) {
     interpretation += `- Declared ${addedVars.length} new variable${
       addedVars.length !== 1 ? "s" : ""
-    }, enhancing data management.\n`;
+    } ${citeLines(addedVars, "new")}, enhancing data management.\n`;
   }
 
   if (removedVars.length > 0) {
     interpretation += `- Removed ${removedVars.length} variable${
       removedVars.length !== 1 ? "s" : ""
-    }, cleaning up the code.\n`;
+    } ${citeLines(removedVars, "old")}, cleaning up the code.\n`;
   }
 
   // If we couldn't identify specific changes, provide a generic summary
   if (!interpretation) {
-    interpretation = interpretGenericChanges(data);
+    interpretation = interpretGenericChanges(file);
   }
 
   return interpretation;
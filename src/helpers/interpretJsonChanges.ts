@@ -1,30 +1,37 @@
+import {
+  formatLineRanges,
+  getAddedLines,
+  getRemovedLines,
+} from "./parseDiff.js";
+import type { DiffFile } from "./parseDiff.js";
+
 // Helper for JSON changes
-export default function interpretJsonChanges(data: {
-  added: string[];
-  removed: string[];
-  changes: string[];
-}): string {
+export default function interpretJsonChanges(file: DiffFile): string {
   let interpretation = "";
+  const added = getAddedLines(file);
+  const removed = getRemovedLines(file);
 
   // Look for property additions/removals
-  const addedProps = data.added.filter((line) => line.includes(":"));
-  const removedProps = data.removed.filter((line) => line.includes(":"));
+  const addedProps = added.filter((line) => line.content.includes(":"));
+  const removedProps = removed.filter((line) => line.content.includes(":"));
 
   if (addedProps.length > 0) {
     interpretation += `- Added ${addedProps.length} new configuration propert${
       addedProps.length !== 1 ? "ies" : "y"
-    }.\n`;
+    } (${formatLineRanges(addedProps.map((line) => line.newLineNumber!))}).\n`;
   }
 
   if (removedProps.length > 0) {
     interpretation += `- Removed ${removedProps.length} configuration propert${
       removedProps.length !== 1 ? "ies" : "y"
-    }.\n`;
+    } (old ${formatLineRanges(
+      removedProps.map((line) => line.oldLineNumber!)
+    )}).\n`;
   }
 
   // If we couldn't identify specific changes, provide a generic summary
   if (!interpretation) {
-    interpretation = `- Modified JSON structure with ${data.added.length} additions and ${data.removed.length} removals.\n`;
+    interpretation = `- Modified JSON structure with ${file.additions} additions and ${file.deletions} removals.\n`;
   }
 
   return interpretation;
@@ -1,32 +1,48 @@
 import countCodeBlocks from "./countCodeBlocks.js";
+import {
+  formatLineRanges,
+  getAddedLines,
+  getRemovedLines,
+} from "./parseDiff.js";
+import type { DiffFile } from "./parseDiff.js";
 
 // Helper for Markdown changes
-export default function interpretMarkdownChanges(data: {
-  added: string[];
-  removed: string[];
-  changes: string[];
-}): string {
+export default function interpretMarkdownChanges(file: DiffFile): string {
   let interpretation = "";
+  const added = getAddedLines(file);
+  const removed = getRemovedLines(file);
 
   // Look for headings
-  const addedHeadings = data.added.filter((line) => line.startsWith("#"));
-  const removedHeadings = data.removed.filter((line) => line.startsWith("#"));
+  const addedHeadings = added.filter((line) =>
+    line.content.trim().startsWith("#")
+  );
+  const removedHeadings = removed.filter((line) =>
+    line.content.trim().startsWith("#")
+  );
 
   if (addedHeadings.length > 0) {
     interpretation += `- Added ${addedHeadings.length} new section${
       addedHeadings.length !== 1 ? "s" : ""
-    } to the documentation.\n`;
+    } to the documentation (${formatLineRanges(
+      addedHeadings.map((line) => line.newLineNumber!)
+    )}).\n`;
   }
 
   if (removedHeadings.length > 0) {
     interpretation += `- Removed ${removedHeadings.length} section${
       removedHeadings.length !== 1 ? "s" : ""
-    } from the documentation.\n`;
+    } from the documentation (old ${formatLineRanges(
+      removedHeadings.map((line) => line.oldLineNumber!)
+    )}).\n`;
   }
 
   // Look for code blocks
-  const addedCodeBlocks = countCodeBlocks(data.added);
-  const removedCodeBlocks = countCodeBlocks(data.removed);
+  const addedCodeBlocks = countCodeBlocks(
+    added.map((line) => line.content.trim())
+  );
+  const removedCodeBlocks = countCodeBlocks(
+    removed.map((line) => line.content.trim())
+  );
 
   if (addedCodeBlocks > 0) {
     interpretation += `- Added ${addedCodeBlocks} code example${
@@ -42,7 +58,7 @@ export default function interpretMarkdownChanges(data: {
 
   // If we couldn't identify specific changes, provide a generic summary
   if (!interpretation) {
-    interpretation = `- Updated documentation with ${data.added.length} additions and ${data.removed.length} removals.\n`;
+    interpretation = `- Updated documentation with ${file.additions} additions and ${file.deletions} removals.\n`;
   }
 
   return interpretation;
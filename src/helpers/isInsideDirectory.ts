@@ -0,0 +1,22 @@
+import { isAbsolute, relative, resolve, sep } from "path";
+
+/**
+ * Tells whether a path stays inside a directory once resolved against it,
+ * e.g. to keep paths read from a repository's config inside that repository
+ *
+ * @param directory The directory the path must stay in
+ * @param path Absolute path, or a path relative to the directory
+ * @returns False for paths leading out of the directory with `..` or an
+ *   absolute path elsewhere
+ */
+export default function isInsideDirectory(
+  directory: string,
+  path: string
+): boolean {
+  const fromDirectory = relative(resolve(directory), resolve(directory, path));
+  return (
+    !isAbsolute(fromDirectory) &&
+    fromDirectory !== ".." &&
+    !fromDirectory.startsWith(`..${sep}`)
+  );
+}
@@ -0,0 +1,377 @@
+import detectMigrations from "./detectMigrations.js";
+import matchesGlob from "./matchesGlob.js";
+import type { PublicApiReport } from "./comparePublicApi.js";
+import type { DiffFile, DiffFileStatus, ParsedDiff } from "./parseDiff.js";
+
+// Analyses a rule can use instead of matching paths and lines itself
+export const KEY_POINT_DETECTORS = ["migrations", "publicApi"] as const;
+
+export type KeyPointDetector = (typeof KEY_POINT_DETECTORS)[number];
+
+// Results of analyses run before the rules, read by the detectors needing
+// more than the diff
+export interface KeyPointAnalyses {
+  publicApi?: PublicApiReport;
+}
+
+export interface KeyPointCondition {
+  // Globs of the files the condition looks at, all files when left out
+  paths?: string[];
+  // Globs of files skipped even when they match `paths`
+  excludePaths?: string[];
+  // Statuses of the files the condition looks at, e.g. ["added"]
+  status?: DiffFileStatus[];
+  // Regular expressions matched against each added line
+  addedLines?: string[];
+  // Regular expressions matched against each removed line
+  removedLines?: string[];
+  // Plain substrings matched against paths and changed lines
+  keywords?: string[];
+  // Analysis providing the evidence, narrowed down by the filters above
+  detector?: KeyPointDetector;
+  // Fewest matching files needed, 1 by default
+  minFiles?: number;
+  // Fewest matching lines needed, 1 by default; without line patterns
+  // this counts the changed lines of the matching files
+  minLines?: number;
+}
+
+export interface KeyPointRule extends KeyPointCondition {
+  // Checkbox label shown in the PR
+  label: string;
+  // Alternatives, the box is checked when the rule's own condition or any
+  // of these match
+  anyOf?: KeyPointCondition[];
+}
+
+export interface KeyPointEvidence {
+  path: string;
+  // Line in the new file, or in the old file for removed lines
+  line?: number;
+  removed?: boolean;
+}
+
+export interface KeyPointResult {
+  label: string;
+  checked: boolean;
+  evidence: KeyPointEvidence[];
+}
+
+const SOURCE_FILES =
+  "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs,py,go,java,kt,kts,rs,rb,php,cs,swift,scala,c,cc,cpp,h,hpp}";
+const TEST_FILES = [
+  "**/*.{test,spec}.*",
+  "**/*_test.{go,py}",
+  "**/test_*.py",
+  "**/{__tests__,__mocks__,test,tests,spec}/**",
+];
+const MIGRATION_FILES = [
+  "**/{migration,migrations,migrate}/**",
+  "**/alembic/versions/**",
+];
+const DEPENDENCY_MANIFESTS = [
+  "**/requirements*.txt",
+  "**/go.mod",
+  "**/Cargo.toml",
+  "**/Gemfile",
+  "**/pom.xml",
+  "**/build.gradle",
+  "**/build.gradle.kts",
+  "**/pyproject.toml",
+  "**/composer.json",
+];
+
+// Built-in key point rules, custom rules with the same label replace these
+export const DEFAULT_KEY_POINT_RULES: KeyPointRule[] = [
+  {
+    label: "Core functionality changes",
+    paths: [SOURCE_FILES],
+    excludePaths: [...TEST_FILES, ...MIGRATION_FILES],
+    addedLines: [
+      "^\\s*(?:export\\s+)?(?:default\\s+)?(?:abstract\\s+)?(?:async\\s+)?(?:function\\*?|class|interface|enum|def|func|fn|struct|trait|impl)\\s",
+      "^\\s*(?:export\\s+)?const\\s+\\w+\\s*=\\s*(?:async\\s*)?(?:\\([^)]*\\)|\\w+)\\s*=>",
+    ],
+    removedLines: [
+      "^\\s*(?:export\\s+)?(?:default\\s+)?(?:abstract\\s+)?(?:async\\s+)?(?:function\\*?|class|interface|enum|def|func|fn|struct|trait|impl)\\s",
+    ],
+  },
+  {
+    label: "API modifications",
+    excludePaths: TEST_FILES,
+    addedLines: [
+      "\\b(?:app|router|server|api)\\.(?:get|post|put|patch|delete|all|route)\\(",
+      "@(?:Get|Post|Put|Patch|Delete|RequestMapping|GetMapping|PostMapping|PutMapping|DeleteMapping|PatchMapping)\\b",
+      "@(?:app|router|bp|blueprint)\\.(?:route|get|post|put|patch|delete)\\(",
+    ],
+    removedLines: [
+      "\\b(?:app|router|server|api)\\.(?:get|post|put|patch|delete|all|route)\\(",
+      "@(?:Get|Post|Put|Patch|Delete|RequestMapping|GetMapping|PostMapping|PutMapping|DeleteMapping|PatchMapping)\\b",
+      "@(?:app|router|bp|blueprint)\\.(?:route|get|post|put|patch|delete)\\(",
+    ],
+    anyOf: [
+      {
+        paths: [
+          "**/{api,routes,controllers,endpoints}/**",
+          "**/*.{proto,graphql,gql}",
+          "**/{openapi,swagger}*.{json,yaml,yml}",
+        ],
+        excludePaths: TEST_FILES,
+      },
+      // Exports of the package's entry points that changed signature
+      { detector: "publicApi" },
+    ],
+  },
+  { label: "Database schema updates", detector: "migrations" },
+  {
+    label: "Configuration changes",
+    paths: [
+      "**/.env*",
+      "**/config/**",
+      "**/*.config.{js,cjs,mjs,ts}",
+      "**/*.{yml,yaml,toml,ini,properties}",
+      "**/tsconfig*.json",
+      "**/.{eslintrc,prettierrc,babelrc,editorconfig}*",
+      "**/Dockerfile",
+    ],
+    excludePaths: [
+      "**/pnpm-lock.yaml",
+      "**/Cargo.toml",
+      "**/pyproject.toml",
+      ...TEST_FILES,
+    ],
+  },
+  {
+    label: "Third-party integrations",
+    addedLines: [
+      // Imports of packages rather than relative paths or Node built-ins
+      "^\\s*import\\s(?:[^'\"]*\\sfrom\\s)?['\"](?!\\.|/|node:)[^'\"]+['\"]",
+      "\\brequire\\(\\s*['\"](?!\\.|/|node:)[^'\"]+['\"]\\s*\\)",
+    ],
+    paths: [SOURCE_FILES],
+    excludePaths: TEST_FILES,
+    anyOf: [
+      {
+        // Dependencies declared in package.json, not its other fields
+        paths: ["**/package.json"],
+        addedLines: [
+          '(?:^|[{,\\s])"(?!(?:name|version|description|main|module|types|typings|license|author|homepage|node|npm|type|packageManager)")(?:@[\\w.-]+/)?[\\w.-]+":\\s*"(?:[\\^~]|>=?\\s*\\d|\\d+\\.\\d|npm:|workspace:|github:|git\\+|https?:|file:|link:|latest"|\\*")',
+        ],
+      },
+      { paths: DEPENDENCY_MANIFESTS },
+    ],
+  },
+];
+
+// Helper to collect the evidence of a detector
+function runDetector(
+  detector: KeyPointDetector,
+  parsedDiff: ParsedDiff,
+  analyses: KeyPointAnalyses
+): KeyPointEvidence[] {
+  switch (detector) {
+    case "migrations": {
+      const report = detectMigrations(parsedDiff);
+      if (!report) {
+        return [];
+      }
+      return [
+        ...report.files.flatMap((file) =>
+          file.operations.length > 0
+            ? file.operations.map(({ file: path, line }) => ({ path, line }))
+            : [{ path: file.path }]
+        ),
+        ...report.schemaFiles.map((path) => ({ path })),
+      ];
+    }
+    case "publicApi": {
+      const report = analyses.publicApi;
+      if (!report) {
+        return [];
+      }
+      return [
+        ...report.changes
+          // Changes to an implementation alone leave the API as it was
+          .filter(({ change }) => change !== "updated")
+          .map(({ file: path, line, change }) =>
+            change === "removed"
+              ? { path, line, removed: true }
+              : { path, line }
+          ),
+        ...report.entryPoints.flatMap(({ before, after }) => {
+          const path = after || before;
+          return path ? [{ path }] : [];
+        }),
+      ];
+    }
+  }
+}
+
+// Helper to get the first changed line of a file, cited when the whole
+// file is the evidence
+function firstChangedLine(file: DiffFile): KeyPointEvidence {
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === "added") {
+        return { path: file.path, line: line.newLineNumber };
+      }
+      if (line.type === "removed") {
+        return { path: file.path, line: line.oldLineNumber, removed: true };
+      }
+    }
+  }
+  return { path: file.path };
+}
+
+// Helper to tell whether a condition has anything to match on
+function hasCriteria(condition: KeyPointCondition): boolean {
+  return Boolean(
+    condition.paths?.length ||
+      condition.status?.length ||
+      condition.addedLines?.length ||
+      condition.removedLines?.length ||
+      condition.keywords?.length ||
+      condition.detector
+  );
+}
+
+/**
+ * Evaluates one condition of a key point rule against the parsed diff
+ *
+ * Files are narrowed down by path and status first. Line patterns and
+ * keywords then cite each matching line, a detector cites what its
+ * analysis found, and a condition with only file filters cites each file.
+ *
+ * @param condition The condition to evaluate
+ * @param parsedDiff The parsed diff between base and head
+ * @param analyses Results the detectors read besides the diff
+ * @returns The evidence, empty when the condition does not match
+ */
+export function evaluateKeyPointCondition(
+  condition: KeyPointCondition,
+  parsedDiff: ParsedDiff,
+  analyses: KeyPointAnalyses = {}
+): KeyPointEvidence[] {
+  if (!hasCriteria(condition)) {
+    return [];
+  }
+  const files = parsedDiff.files.filter(
+    (file) =>
+      (!condition.paths?.length || matchesGlob(file.path, condition.paths)) &&
+      !(
+        condition.excludePaths?.length &&
+        matchesGlob(file.path, condition.excludePaths)
+      ) &&
+      (!condition.status?.length || condition.status.includes(file.status))
+  );
+
+  const added = (condition.addedLines || []).map(
+    (pattern) => new RegExp(pattern)
+  );
+  const removed = (condition.removedLines || []).map(
+    (pattern) => new RegExp(pattern)
+  );
+  const keywords = condition.keywords || [];
+  const matchesLines =
+    added.length > 0 || removed.length > 0 || keywords.length > 0;
+
+  let evidence: KeyPointEvidence[];
+  let lineCount: number;
+  if (matchesLines) {
+    evidence = files.flatMap((file) => {
+      const lines: KeyPointEvidence[] = file.hunks.flatMap((hunk) =>
+        hunk.lines.flatMap((line) => {
+          const patterns =
+            line.type === "added"
+              ? added
+              : line.type === "removed"
+              ? removed
+              : undefined;
+          if (
+            !patterns ||
+            !(
+              patterns.some((pattern) => pattern.test(line.content)) ||
+              keywords.some((keyword) => line.content.includes(keyword))
+            )
+          ) {
+            return [];
+          }
+          return line.type === "added"
+            ? [{ path: file.path, line: line.newLineNumber }]
+            : [{ path: file.path, line: line.oldLineNumber, removed: true }];
+        })
+      );
+      // A keyword in the path makes the file itself the evidence
+      if (
+        lines.length === 0 &&
+        keywords.some((keyword) => file.path.includes(keyword))
+      ) {
+        return [firstChangedLine(file)];
+      }
+      return lines;
+    });
+    lineCount = evidence.length;
+  } else if (condition.detector) {
+    const paths = new Set(files.map((file) => file.path));
+    evidence = runDetector(condition.detector, parsedDiff, analyses).filter(
+      ({ path }) => paths.has(path)
+    );
+    lineCount = evidence.length;
+  } else {
+    evidence = files.map(firstChangedLine);
+    lineCount = files.reduce(
+      (total, file) => total + file.additions + file.deletions,
+      0
+    );
+  }
+
+  const fileCount = new Set(evidence.map(({ path }) => path)).size;
+  return fileCount >= (condition.minFiles ?? 1) &&
+    lineCount >= (condition.minLines ?? 1)
+    ? evidence
+    : [];
+}
+
+/**
+ * Evaluates key point rules against the parsed diff
+ *
+ * Custom rules replace built-in rules with the same label and are added
+ * after them otherwise; a rule without any condition removes the key point.
+ *
+ * @param parsedDiff The parsed diff between base and head
+ * @param customRules Project rules added to (or replacing) the built-in ones
+ * @param analyses Results the detectors read besides the diff
+ * @returns Each key point with whether it applies and the lines proving it
+ */
+export default function evaluateKeyPoints(
+  parsedDiff: ParsedDiff,
+  customRules: KeyPointRule[] = [],
+  analyses: KeyPointAnalyses = {}
+): KeyPointResult[] {
+  const rules = [
+    ...DEFAULT_KEY_POINT_RULES.map(
+      (rule) =>
+        customRules.find((custom) => custom.label === rule.label) || rule
+    ),
+    ...customRules.filter(
+      (rule) =>
+        !DEFAULT_KEY_POINT_RULES.some((builtIn) => builtIn.label === rule.label)
+    ),
+  ].filter((rule) => hasCriteria(rule) || rule.anyOf?.some(hasCriteria));
+
+  return rules.map((rule) => {
+    const evidence = [rule, ...(rule.anyOf || [])].flatMap((condition) =>
+      evaluateKeyPointCondition(condition, parsedDiff, analyses)
+    );
+    // The same line can be matched by several conditions
+    const unique = evidence.filter(
+      (item, index) =>
+        evidence.findIndex(
+          (other) =>
+            other.path === item.path &&
+            other.line === item.line &&
+            other.removed === item.removed
+        ) === index
+    );
+    return { label: rule.label, checked: unique.length > 0, evidence: unique };
+  });
+}
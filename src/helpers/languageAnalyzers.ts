@@ -0,0 +1,64 @@
+import interpretJavaScriptChanges from "./interpretJavaScriptChanges.js";
+import interpretJsonChanges from "./interpretJsonChanges.js";
+import interpretMarkdownChanges from "./interpretMarkdownChanges.js";
+import { createSymbolAnalyzer } from "./symbolAnalyzer.js";
+import python from "./languages/python.js";
+import go from "./languages/go.js";
+import java from "./languages/java.js";
+import kotlin from "./languages/kotlin.js";
+import rust from "./languages/rust.js";
+import sql from "./languages/sql.js";
+import type { FileSources } from "./compareExports.js";
+import type { DiffFile } from "./parseDiff.js";
+import type { SymbolChange } from "./symbolAnalyzer.js";
+
+export interface LanguageAnalyzer {
+  // Describes the changes of one file as markdown bullet points
+  describe(file: DiffFile, sources?: FileSources): string;
+  // Declarations added, removed or changed in the file, for analyzers
+  // that recognize them
+  findSymbols?(file: DiffFile): SymbolChange[];
+}
+
+// Analyzers keyed by the language names of getLanguageFromExtension
+const analyzers = new Map<string, LanguageAnalyzer>();
+
+/**
+ * Registers the analyzer used for files of one or more languages,
+ * replacing the analyzer registered before
+ *
+ * @param languages Language names as returned by getLanguageFromExtension
+ * @param analyzer Describes changed files of these languages
+ */
+export function registerLanguageAnalyzer(
+  languages: string | string[],
+  analyzer: LanguageAnalyzer
+): void {
+  for (const language of Array.isArray(languages) ? languages : [languages]) {
+    analyzers.set(language, analyzer);
+  }
+}
+
+/**
+ * Looks up the analyzer for a language
+ *
+ * @param language Language name as returned by getLanguageFromExtension
+ * @returns The registered analyzer, if there is one
+ */
+export function getLanguageAnalyzer(
+  language: string
+): LanguageAnalyzer | undefined {
+  return analyzers.get(language);
+}
+
+registerLanguageAnalyzer(["javascript", "typescript", "jsx", "tsx"], {
+  describe: interpretJavaScriptChanges,
+});
+registerLanguageAnalyzer("json", { describe: interpretJsonChanges });
+registerLanguageAnalyzer("markdown", { describe: interpretMarkdownChanges });
+registerLanguageAnalyzer("python", createSymbolAnalyzer(python));
+registerLanguageAnalyzer("go", createSymbolAnalyzer(go));
+registerLanguageAnalyzer("java", createSymbolAnalyzer(java));
+registerLanguageAnalyzer("kotlin", createSymbolAnalyzer(kotlin));
+registerLanguageAnalyzer("rust", createSymbolAnalyzer(rust));
+registerLanguageAnalyzer("sql", createSymbolAnalyzer(sql));
@@ -0,0 +1,35 @@
+import type { SymbolGrammar } from "../symbolAnalyzer.js";
+
+// func (s *Server) Start(ctx context.Context) error
+const METHOD =
+  /^func\s+\(\s*(?:\w+\s+)?\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*([A-Za-z_]\w*)\s*[([]/;
+const FUNCTION = /^func\s+([A-Za-z_]\w*)\s*[([]/;
+// Top-level `type Name ...` and the entries of a `type ( ... )` group
+const TYPE =
+  /^(?:type\s+|\s+)([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(struct|interface)\b/;
+const ALIAS = /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*=?\s*[\w*[\]]/;
+
+// Functions, methods with their receiver type, and type declarations
+const go: SymbolGrammar = {
+  matchDeclaration(line) {
+    const method = line.match(METHOD);
+    if (method) {
+      return { kind: "method", name: method[2], owner: method[1] };
+    }
+    const declaredFunction = line.match(FUNCTION);
+    if (declaredFunction) {
+      return { kind: "function", name: declaredFunction[1] };
+    }
+    const declaredType = line.match(TYPE);
+    if (declaredType) {
+      return { kind: declaredType[2], name: declaredType[1] };
+    }
+    const alias = line.match(ALIAS);
+    if (alias) {
+      return { kind: "type", name: alias[1] };
+    }
+    return undefined;
+  },
+};
+
+export default go;
@@ -0,0 +1,70 @@
+import type { SymbolGrammar } from "../symbolAnalyzer.js";
+
+const MODIFIERS =
+  "(?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp|default|synchronized|native|transient)\\s+)*";
+// Annotations written on the same line as the declaration
+const INLINE_ANNOTATIONS = /^\s*(?:@[\w.]+(?:\([^)]*\))?\s+)+/;
+const TYPE = new RegExp(
+  `^\\s*${MODIFIERS}(class|interface|enum|record|@interface)\\s+([A-Za-z_$][\\w$]*)`
+);
+// Return type (optional for constructors), name and the opening parenthesis
+const METHOD = new RegExp(
+  `^\\s*(${MODIFIERS})(?:<[^>]*>\\s+)?(?:([\\w$.<>\\[\\]?, ]+?)\\s+)?([A-Za-z_$][\\w$]*)\\s*\\(`
+);
+// Statements that look like a call after a type
+const STATEMENT_KEYWORDS = new Set([
+  "return",
+  "new",
+  "throw",
+  "else",
+  "case",
+  "yield",
+  "await",
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "synchronized",
+]);
+const ANNOTATION = /^@([\w.]+)(?:\(.*\))?$/;
+
+// Classes, interfaces, enums, records, methods and constructors, with
+// their annotations
+const java: SymbolGrammar = {
+  matchDeclaration(line) {
+    const code = line.replace(INLINE_ANNOTATIONS, "");
+    const declaredType = code.match(TYPE);
+    if (declaredType) {
+      return {
+        kind: declaredType[1] === "@interface" ? "annotation" : declaredType[1],
+        name: declaredType[2],
+        container: true,
+      };
+    }
+
+    const method = code.match(METHOD);
+    if (
+      !method ||
+      code.substring(0, method.index! + method[0].length).includes("=")
+    ) {
+      return undefined;
+    }
+    const [, modifiers, returnType, name] = method;
+    const words = [...(returnType || "").split(/\s+/), name];
+    if (words.some((word) => STATEMENT_KEYWORDS.has(word))) {
+      return undefined;
+    }
+    // A call such as `foo(bar);` has neither modifiers nor a return type
+    if (!returnType) {
+      return modifiers ? { kind: "constructor", name } : undefined;
+    }
+    return { kind: "method", name };
+  },
+  matchAnnotation(line) {
+    const annotation = line.match(ANNOTATION);
+    return annotation ? `@${annotation[1]}` : undefined;
+  },
+};
+
+export default java;
@@ -0,0 +1,50 @@
+import type { SymbolGrammar } from "../symbolAnalyzer.js";
+
+const MODIFIERS =
+  "(?:(?:public|protected|private|internal|open|abstract|sealed|data|enum|annotation|inner|value|final|override|inline|suspend|operator|infix|tailrec|external|expect|actual|const|lateinit)\\s+)*";
+const INLINE_ANNOTATIONS = /^\s*(?:@[\w.:]+(?:\([^)]*\))?\s+)+/;
+const TYPE = new RegExp(
+  `^\\s*${MODIFIERS}(class|interface|object)\\s+([A-Za-z_]\\w*)`
+);
+const COMPANION = new RegExp(
+  `^\\s*${MODIFIERS}companion\\s+object\\b(?:\\s+([A-Za-z_]\\w*))?`
+);
+// fun <T> Receiver.name( for extension functions
+const FUNCTION = new RegExp(
+  `^\\s*${MODIFIERS}fun\\s+(?:<[^>]*>\\s*)?(?:([A-Za-z_][\\w.<>?, ]*?)\\.)?([A-Za-z_]\\w*)\\s*\\(`
+);
+const ANNOTATION = /^@([\w.:]+)(?:\(.*\))?$/;
+
+// Classes, objects, interfaces and functions, with their annotations
+const kotlin: SymbolGrammar = {
+  matchDeclaration(line) {
+    const code = line.replace(INLINE_ANNOTATIONS, "");
+    const companion = code.match(COMPANION);
+    if (companion) {
+      return {
+        kind: "companion object",
+        name: companion[1] || "Companion",
+        container: true,
+      };
+    }
+    const declaredType = code.match(TYPE);
+    if (declaredType) {
+      return { kind: declaredType[1], name: declaredType[2], container: true };
+    }
+    const declaredFunction = code.match(FUNCTION);
+    if (declaredFunction) {
+      return {
+        kind: declaredFunction[1] ? "extension function" : "function",
+        name: declaredFunction[2],
+        owner: declaredFunction[1],
+      };
+    }
+    return undefined;
+  },
+  matchAnnotation(line) {
+    const annotation = line.match(ANNOTATION);
+    return annotation ? `@${annotation[1]}` : undefined;
+  },
+};
+
+export default kotlin;
@@ -0,0 +1,26 @@
+import type { SymbolGrammar } from "../symbolAnalyzer.js";
+
+const DEFINITION = /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)\s*[([]/;
+const CLASS = /^\s*class\s+([A-Za-z_]\w*)\s*[(:[]/;
+const DECORATOR = /^@\s*([\w.]+)/;
+
+// Functions, methods and classes, with their decorators
+const python: SymbolGrammar = {
+  matchDeclaration(line) {
+    const definition = line.match(DEFINITION);
+    if (definition) {
+      return { kind: "function", name: definition[1] };
+    }
+    const declaredClass = line.match(CLASS);
+    if (declaredClass) {
+      return { kind: "class", name: declaredClass[1], container: true };
+    }
+    return undefined;
+  },
+  matchAnnotation(line) {
+    const decorator = line.match(DECORATOR);
+    return decorator ? `@${decorator[1]}` : undefined;
+  },
+};
+
+export default python;
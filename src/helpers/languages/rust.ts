@@ -0,0 +1,51 @@
+import type { SymbolGrammar } from "../symbolAnalyzer.js";
+
+const VISIBILITY = "(?:pub(?:\\([^)]*\\))?\\s+)?";
+const FUNCTION = new RegExp(
+  `^\\s*${VISIBILITY}(?:(?:default|const|async|unsafe|extern\\s+"[^"]*")\\s+)*fn\\s+([A-Za-z_]\\w*)`
+);
+// impl<T> Trait<T> for Type<T> / impl Type
+const IMPL =
+  /^\s*(?:unsafe\s+)?impl\s*(?:<[^{]*?>\s*)?(?:(!?[\w:]+(?:<[^{]*?>)?)\s+for\s+)?([\w:]+)/;
+const ITEM = new RegExp(
+  `^\\s*${VISIBILITY}(?:unsafe\\s+)?(struct|enum|union|trait|type|mod|macro_rules!)\\s*([A-Za-z_]\\w*)`
+);
+const ATTRIBUTE = /^#!?\[\s*([\w:]+)/;
+
+// Functions, impl blocks with their methods, traits and type definitions,
+// with their attributes
+const rust: SymbolGrammar = {
+  separator: "::",
+  matchDeclaration(line) {
+    const declaredFunction = line.match(FUNCTION);
+    if (declaredFunction) {
+      return { kind: "function", name: declaredFunction[1] };
+    }
+    const impl = line.match(IMPL);
+    if (impl) {
+      const type = impl[2].split("::").pop()!;
+      return {
+        kind: "impl",
+        name: impl[1] ? `${impl[1]} for ${impl[2]}` : impl[2],
+        container: true,
+        scope: type,
+      };
+    }
+    const item = line.match(ITEM);
+    if (item) {
+      const kind = item[1] === "macro_rules!" ? "macro" : item[1];
+      return {
+        kind,
+        name: item[2],
+        container: kind === "trait" || kind === "mod",
+      };
+    }
+    return undefined;
+  },
+  matchAnnotation(line) {
+    const attribute = line.match(ATTRIBUTE);
+    return attribute ? `#[${attribute[1]}]` : undefined;
+  },
+};
+
+export default rust;
@@ -0,0 +1,38 @@
+import type { SymbolGrammar } from "../symbolAnalyzer.js";
+
+const OBJECT_TYPES =
+  "TABLE|VIEW|MATERIALIZED\\s+VIEW|INDEX|SEQUENCE|FUNCTION|PROCEDURE|TRIGGER|SCHEMA|TYPE|DOMAIN|DATABASE|EXTENSION|POLICY|ROLE";
+// CREATE [OR REPLACE] [UNIQUE] [TEMPORARY] TABLE [IF NOT EXISTS] name
+const DDL = new RegExp(
+  `^\\s*(CREATE|ALTER|DROP|TRUNCATE|COMMENT\\s+ON)\\s+(?:OR\\s+REPLACE\\s+)?(?:UNIQUE\\s+)?(?:TEMP(?:ORARY)?\\s+)?(?:(${OBJECT_TYPES})\\s+)?(?:CONCURRENTLY\\s+)?(?:IF\\s+(?:NOT\\s+)?EXISTS\\s+)?(?:ONLY\\s+)?([\\w."\`\\[\\]]+)`,
+  "i"
+);
+const RENAME = /^\s*RENAME\s+TABLE\s+([\w."`[\]]+)/i;
+
+// Helper to remove the quoting of an identifier, e.g. "public"."users"
+function unquoteIdentifier(name: string): string {
+  return name.replace(/["`[\]]/g, "");
+}
+
+// DDL statements, named by statement and object, e.g. CREATE TABLE `users`
+const sql: SymbolGrammar = {
+  matchDeclaration(line) {
+    const ddl = line.match(DDL);
+    // TRUNCATE users is short for TRUNCATE TABLE users, other statements
+    // name the kind of object
+    if (ddl && (ddl[2] || /^TRUNCATE$/i.test(ddl[1]))) {
+      const objectType = (ddl[2] || "TABLE").replace(/\s+/g, " ");
+      return {
+        kind: `${ddl[1].replace(/\s+/g, " ")} ${objectType}`.toUpperCase(),
+        name: unquoteIdentifier(ddl[3]),
+      };
+    }
+    const rename = line.match(RENAME);
+    if (rename) {
+      return { kind: "RENAME TABLE", name: unquoteIdentifier(rename[1]) };
+    }
+    return undefined;
+  },
+};
+
+export default sql;
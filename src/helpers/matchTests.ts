@@ -0,0 +1,202 @@
+import { posix } from "path";
+import getLanguageFromExtension from "./getLanguageFromExtension.js";
+import matchesGlob from "./matchesGlob.js";
+import { isMigrationPath } from "./detectMigrations.js";
+import type { ParsedDiff } from "./parseDiff.js";
+import type { FileClass } from "./classifyFile.js";
+
+export type TestKind = "unit" | "integration";
+
+export interface ChangedTest {
+  path: string;
+  kind: TestKind;
+  // Changed source files the test is named after
+  sources: string[];
+}
+
+export interface TestReport {
+  tests: ChangedTest[];
+  // Changed source files with the tests changed alongside them
+  tested: { path: string; tests: string[] }[];
+  // Changed source files without any test change
+  untested: string[];
+}
+
+// Test file conventions: foo.test.ts, foo.spec.js, __tests__/, test_foo.py,
+// foo_test.py, foo_test.go, FooTest.java, foo_spec.rb
+const TEST_FILES = [
+  "**/*.{test,spec}.{ts,tsx,mts,cts,js,jsx,mjs,cjs}",
+  "**/__tests__/**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}",
+  "**/test_*.py",
+  "**/*_test.{py,go,rs}",
+  "**/*{Test,Tests,IT}.{java,kt}",
+  "**/*_spec.rb",
+  "**/{test,tests,spec}/**/*.{ts,tsx,js,jsx,py,rb,go,java,kt,rs,php,cs}",
+];
+const INTEGRATION_TESTS = [
+  "**/{integration,integration-tests,e2e,it}/**",
+  "**/*.{int,integration,e2e}.{test,spec}.*",
+  "**/*IT.{java,kt}",
+  "**/test_integration_*.py",
+];
+// Files that are code but not worth a test of their own
+const UNTESTABLE_FILES = ["**/*.d.ts", "**/*.config.*", "**/__mocks__/**"];
+const CODE_LANGUAGES = new Set([
+  "javascript",
+  "typescript",
+  "jsx",
+  "tsx",
+  "python",
+  "ruby",
+  "java",
+  "go",
+  "php",
+  "csharp",
+  "rust",
+  "swift",
+  "kotlin",
+]);
+// Directories that only say a file is a test, left out when comparing
+// where a test and its source live
+const TEST_DIRECTORIES = new Set([
+  "__tests__",
+  "test",
+  "tests",
+  "spec",
+  "integration",
+  "e2e",
+  "unit",
+  "src",
+  "lib",
+  "main",
+  "java",
+  "kotlin",
+]);
+
+/**
+ * Tells whether a path is a test file by the usual naming conventions
+ *
+ * @param path Repository-relative path
+ * @returns True for test files
+ */
+export function isTestFile(path: string): boolean {
+  return matchesGlob(path, TEST_FILES);
+}
+
+// Helper to strip the test markers from a file name, leaving the name of
+// the file under test, e.g. "foo" for foo.test.ts or test_foo.py
+function subjectName(path: string): string {
+  const name = posix.basename(path);
+  const extension = posix.extname(name);
+  return name
+    .substring(0, name.length - extension.length)
+    .replace(/\.(?:int|integration|e2e|unit)?\.?(?:test|spec)$/, "")
+    .replace(/^test_(?:integration_)?/, "")
+    .replace(/_(?:test|spec)$/, "")
+    .replace(/(?:Tests?|IT)$/, "");
+}
+
+// Helper to get the directories of a path that say where it belongs,
+// without test and source root directories
+function meaningfulDirectories(path: string): string[] {
+  return posix
+    .dirname(path)
+    .split("/")
+    .filter((segment) => segment !== "." && !TEST_DIRECTORIES.has(segment));
+}
+
+// Helper to count the directories two paths share from the innermost out
+function sharedDirectories(a: string, b: string): number {
+  const left = meaningfulDirectories(a).reverse();
+  const right = meaningfulDirectories(b).reverse();
+  let shared = 0;
+  while (
+    shared < left.length &&
+    shared < right.length &&
+    left[shared] === right[shared]
+  ) {
+    shared++;
+  }
+  return shared;
+}
+
+// Helper to tell whether a changed file is code that tests could cover
+function isSourceFile(path: string): boolean {
+  const language = getLanguageFromExtension(posix.extname(path).substring(1));
+  return (
+    CODE_LANGUAGES.has(language) &&
+    !isTestFile(path) &&
+    !isMigrationPath(path) &&
+    !matchesGlob(path, UNTESTABLE_FILES)
+  );
+}
+
+/**
+ * Pairs the changed test files with the changed source files they are
+ * named after, and lists the source files changed without their tests
+ *
+ * A test matches a source file with the same name once the test markers
+ * are stripped (`foo.test.ts`, `test_foo.py` and `foo_test.go` all test
+ * `foo`). When several files share the name, the one whose directories are
+ * closest to the test's wins.
+ *
+ * @param parsedDiff The parsed diff between base and head
+ * @param fileClasses Class of each changed file; only source and test
+ *   files are matched
+ * @returns The changed tests, and the tested and untested source files
+ */
+export default function matchTests(
+  parsedDiff: ParsedDiff,
+  fileClasses: Record<string, FileClass> = {}
+): TestReport {
+  // Generated, vendored and minified copies are neither sources nor tests
+  const changed = parsedDiff.files.filter(
+    (file) =>
+      file.status !== "deleted" &&
+      !file.binary &&
+      ["source", "test", undefined].includes(fileClasses[file.path])
+  );
+  const sources = changed
+    .map((file) => file.path)
+    .filter((path) => fileClasses[path] !== "test" && isSourceFile(path));
+  const tests: ChangedTest[] = changed
+    .filter((file) => isTestFile(file.path))
+    .map((file) => {
+      const subject = subjectName(file.path);
+      const candidates = sources
+        .filter((source) => subjectName(source) === subject)
+        .map((source) => ({
+          source,
+          shared: sharedDirectories(file.path, source),
+        }));
+      const best = Math.max(0, ...candidates.map(({ shared }) => shared));
+      const closest = candidates.filter(({ shared }) => shared === best);
+      return {
+        path: file.path,
+        kind: matchesGlob(file.path, INTEGRATION_TESTS)
+          ? ("integration" as const)
+          : ("unit" as const),
+        // A name shared by unrelated files, like index.ts, proves nothing
+        sources:
+          closest.length === 1 || best > 0
+            ? closest.map(({ source }) => source)
+            : [],
+      };
+    });
+
+  const tested = sources
+    .map((path) => ({
+      path,
+      tests: tests
+        .filter((test) => test.sources.includes(path))
+        .map((test) => test.path),
+    }))
+    .filter(({ tests }) => tests.length > 0);
+  return {
+    tests,
+    tested,
+    untested: sources.filter(
+      (path) => !tested.some((entry) => entry.path === path)
+    ),
+  };
+}
@@ -0,0 +1,57 @@
+// Helper to turn a glob into a regular expression. Supports `**`, `*`, `?`
+// and `{a,b}`; patterns without a slash match the file name at any depth,
+// like .gitignore entries.
+function globToRegExp(glob: string): RegExp {
+  let pattern = glob.replace(/^\.\//, "");
+  if (!pattern.includes("/")) {
+    pattern = `**/${pattern}`;
+  }
+  if (pattern.startsWith("/")) {
+    pattern = pattern.substring(1);
+  }
+
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" matches zero or more directories, a trailing "**" anything
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  // A pattern naming a directory also matches everything inside it
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+// Helper to check a repository-relative path against one or more globs
+export default function matchesGlob(
+  path: string,
+  globs: string | string[]
+): boolean {
+  const normalized = path.replace(/\\/g, "/");
+  return (Array.isArray(globs) ? globs : [globs]).some((glob) =>
+    globToRegExp(glob).test(normalized)
+  );
+}
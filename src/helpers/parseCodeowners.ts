@@ -0,0 +1,73 @@
+import matchesGlob from "./matchesGlob.js";
+
+// Where GitHub, GitLab and Gitea look for the file, first match wins
+export const CODEOWNERS_PATHS = [
+  ".github/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+export interface CodeownersRule {
+  pattern: string;
+  // @user, @org/team or email addresses; empty when the rule unsets owners
+  owners: string[];
+}
+
+/**
+ * Parses a `CODEOWNERS` file into its pattern lines
+ *
+ * GitLab section headers (`[Docs]`, `^[Optional]`) are skipped, their rules
+ * are read like any other.
+ *
+ * @param content The file content
+ * @returns The rules in file order
+ */
+export default function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // "#" starts a comment unless escaped, "\#" is part of a pattern
+    const line = rawLine.replace(/(^|[^\\])#.*$/, "$1").trim();
+    if (!line || /^\^?\[[^\]]*\]/.test(line)) {
+      continue;
+    }
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern: pattern.replace(/\\(.)/g, "$1"), owners });
+  }
+  return rules;
+}
+
+// Helper to check a path against a CODEOWNERS pattern, which follows
+// .gitignore: "docs/" matches a docs directory at any depth, "/docs/" only
+// the root one, and "docs/*" files directly inside docs/ but not deeper
+function matchesCodeownersPattern(path: string, pattern: string): boolean {
+  // A slash other than a trailing one anchors the pattern to the root;
+  // matchesGlob reads a leading "/" the same way and strips it
+  let glob = pattern.replace(/\/$/, "");
+  if (!glob.includes("/")) {
+    glob = `**/${glob}`;
+  }
+  if (!matchesGlob(path, glob)) {
+    return false;
+  }
+  return (
+    !glob.endsWith("/*") ||
+    glob.endsWith("**/*") ||
+    path.split("/").length === glob.replace(/^\//, "").split("/").length
+  );
+}
+
+/**
+ * Finds the owners of a path, the last matching rule winning as on GitHub
+ *
+ * @param path Repository-relative path
+ * @param rules Rules from parseCodeowners
+ * @returns The owners, empty when no rule assigns any
+ */
+export function ownersFor(path: string, rules: CodeownersRule[]): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (matchesCodeownersPattern(path, rules[i].pattern)) {
+      return rules[i].owners;
+    }
+  }
+  return [];
+}
@@ -0,0 +1,91 @@
+// Field and record separators used in the `git log` format string
+export const COMMIT_FIELD_SEPARATOR = "\x1f";
+export const COMMIT_RECORD_SEPARATOR = "\x1e";
+
+// Format string to pass to `git log --format=` so the output can be parsed
+export const COMMIT_LOG_FORMAT =
+  ["%H", "%h", "%an", "%ae", "%aI", "%s", "%b"].join("%x1f") + "%x1e";
+
+export interface CommitTrailer {
+  key: string;
+  value: string;
+}
+
+export interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body: string;
+  trailers: CommitTrailer[];
+  // Conventional Commit parts, when the subject follows the convention
+  type?: string;
+  scope?: string;
+  breaking: boolean;
+}
+
+const CONVENTIONAL_SUBJECT = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+const TRAILER_LINE = /^([A-Za-z][A-Za-z0-9-]*|BREAKING CHANGE):\s*(.+)$/;
+
+// Helper to split trailers (e.g. `Closes: #12`) off the end of a commit body
+function splitTrailers(body: string): {
+  body: string;
+  trailers: CommitTrailer[];
+} {
+  const paragraphs = body.trim().split(/\n\s*\n/);
+  const lastParagraph = paragraphs[paragraphs.length - 1] || "";
+  const lines = lastParagraph.split("\n").filter((line) => line.trim());
+
+  // Only treat the last paragraph as trailers when every line looks like one
+  if (
+    lines.length === 0 ||
+    !lines.every((line) => TRAILER_LINE.test(line.trim()))
+  ) {
+    return { body: body.trim(), trailers: [] };
+  }
+
+  const trailers = lines.map((line) => {
+    const match = line.trim().match(TRAILER_LINE)!;
+    return { key: match[1], value: match[2].trim() };
+  });
+
+  return {
+    body: paragraphs.slice(0, -1).join("\n\n").trim(),
+    trailers,
+  };
+}
+
+// Helper to parse `git log --format=COMMIT_LOG_FORMAT` output into commits
+export default function parseCommitLog(log: string): CommitInfo[] {
+  return log
+    .split(COMMIT_RECORD_SEPARATOR)
+    .map((record) => record.replace(/^\n+/, ""))
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [hash, shortHash, author, email, date, subject = "", rawBody = ""] =
+        record.split(COMMIT_FIELD_SEPARATOR);
+      const { body, trailers } = splitTrailers(rawBody);
+      const conventional = subject.match(CONVENTIONAL_SUBJECT);
+
+      return {
+        hash,
+        shortHash,
+        author,
+        email,
+        date,
+        subject,
+        body,
+        trailers,
+        type: conventional ? conventional[1].toLowerCase() : undefined,
+        scope: conventional?.[2] || undefined,
+        breaking:
+          Boolean(conventional?.[3]) ||
+          trailers.some((trailer) =>
+            /^BREAKING[ -]CHANGE$/.test(trailer.key)
+          ) ||
+          /^BREAKING[ -]CHANGE:/m.test(body),
+      };
+    });
+}
@@ -0,0 +1,190 @@
+import { posix } from "path";
+
+export type CoverageFormat = "istanbul" | "lcov" | "cobertura";
+
+export interface FileCoverage {
+  lines: { covered: number; total: number };
+  // Hits per line number, when the report has line details
+  hits?: Record<number, number>;
+}
+
+export interface CoverageReport {
+  format: CoverageFormat;
+  // Report path relative to the repository root
+  path: string;
+  // Coverage by repository-relative file path
+  files: Record<string, FileCoverage>;
+}
+
+// Helper to make a path from a report relative to the repository root
+function relativePath(path: string, root: string): string {
+  const normalized = path.replace(/\\/g, "/");
+  const normalizedRoot = root.replace(/\\/g, "/").replace(/\/$/, "");
+  if (normalized.startsWith(`${normalizedRoot}/`)) {
+    return normalized.substring(normalizedRoot.length + 1);
+  }
+  return posix.normalize(normalized).replace(/^\.\//, "");
+}
+
+// Helper to read the attributes of an XML start tag
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+// Helper to total the hits of a file's lines
+function fromHits(hits: Record<number, number>): FileCoverage {
+  const counts = Object.values(hits);
+  return {
+    lines: {
+      covered: counts.filter((count) => count > 0).length,
+      total: counts.length,
+    },
+    hits,
+  };
+}
+
+// Helper to read an Istanbul json-summary report (coverage-summary.json)
+function parseIstanbulSummary(
+  content: string,
+  root: string
+): Record<string, FileCoverage> {
+  const summary = JSON.parse(content) as Record<
+    string,
+    { lines?: { covered: number; total: number } }
+  >;
+  const files: Record<string, FileCoverage> = {};
+  for (const [path, coverage] of Object.entries(summary)) {
+    if (path !== "total" && coverage.lines) {
+      files[relativePath(path, root)] = {
+        lines: {
+          covered: coverage.lines.covered,
+          total: coverage.lines.total,
+        },
+      };
+    }
+  }
+  return files;
+}
+
+// Helper to read an lcov tracefile: SF, DA and end_of_record lines
+function parseLcov(
+  content: string,
+  root: string
+): Record<string, FileCoverage> {
+  const files: Record<string, FileCoverage> = {};
+  let path: string | undefined;
+  let hits: Record<number, number> = {};
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith("SF:")) {
+      path = relativePath(line.substring(3).trim(), root);
+      hits = {};
+    } else if (line.startsWith("DA:") && path) {
+      const [number, count] = line.substring(3).split(",");
+      hits[Number(number)] = (hits[Number(number)] || 0) + Number(count);
+    } else if (line.trim() === "end_of_record" && path) {
+      files[path] = fromHits(hits);
+      path = undefined;
+    }
+  }
+  return files;
+}
+
+// Helper to read a Cobertura XML report, whose class file names are
+// relative to one of its <source> directories
+function parseCobertura(
+  content: string,
+  root: string
+): Record<string, FileCoverage> {
+  const sources = Array.from(
+    content.matchAll(/<source>([^<]*)<\/source>/g),
+    ([, source]) => source.trim()
+  );
+  const hitsByFile: Record<string, Record<number, number>> = {};
+
+  for (const [, tag, body] of content.matchAll(
+    /<class\b([^>]*)>([\s\S]*?)<\/class>/g
+  )) {
+    const { filename } = xmlAttributes(tag);
+    if (!filename) {
+      continue;
+    }
+    // Coverage tools write the project directory, or "." for the root
+    const source = sources[0];
+    const path = relativePath(
+      source && !posix.isAbsolute(filename)
+        ? posix.join(source, filename)
+        : filename,
+      root
+    );
+    const hits = (hitsByFile[path] ||= {});
+    // Inner classes of one file repeat its lines
+    for (const [line] of body.matchAll(/<line\b[^>]*>/g)) {
+      const attributes = xmlAttributes(line);
+      const number = Number(attributes.number);
+      hits[number] = Math.max(hits[number] || 0, Number(attributes.hits));
+    }
+  }
+
+  const files: Record<string, FileCoverage> = {};
+  for (const [path, hits] of Object.entries(hitsByFile)) {
+    files[path] = fromHits(hits);
+  }
+  return files;
+}
+
+/**
+ * Tells the format of a coverage report from its name and content
+ *
+ * @param path Path of the report
+ * @param content The report content
+ * @returns The format, or undefined for unsupported reports
+ */
+export function coverageFormat(
+  path: string,
+  content: string
+): CoverageFormat | undefined {
+  if (path.endsWith(".json") && /"lines"\s*:/.test(content)) {
+    return "istanbul";
+  }
+  if (/^SF:/m.test(content)) {
+    return "lcov";
+  }
+  if (/<coverage\b/.test(content)) {
+    return "cobertura";
+  }
+  return undefined;
+}
+
+/**
+ * Parses a coverage report into line coverage per file
+ *
+ * Supports Istanbul's `coverage-summary.json`, lcov tracefiles and
+ * Cobertura XML. Absolute paths inside the report are made relative to the
+ * repository root so they can be compared with the diff.
+ *
+ * @param path Report path relative to the repository root
+ * @param content The report content
+ * @param root Absolute path of the repository root
+ * @returns The parsed report, or undefined when the format is unknown
+ */
+export default function parseCoverage(
+  path: string,
+  content: string,
+  root: string
+): CoverageReport | undefined {
+  const format = coverageFormat(path, content);
+  switch (format) {
+    case "istanbul":
+      return { format, path, files: parseIstanbulSummary(content, root) };
+    case "lcov":
+      return { format, path, files: parseLcov(content, root) };
+    case "cobertura":
+      return { format, path, files: parseCobertura(content, root) };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,383 @@
+export type DiffFileStatus =
+  | "added"
+  | "deleted"
+  | "modified"
+  | "renamed"
+  | "copied";
+
+export type DiffLineType = "added" | "removed" | "context";
+
+export interface DiffLine {
+  type: DiffLineType;
+  // Line content without the leading "+", "-" or " " marker
+  content: string;
+  // Line number in the old file (context and removed lines)
+  oldLineNumber?: number;
+  // Line number in the new file (context and added lines)
+  newLineNumber?: number;
+}
+
+export interface DiffHunk {
+  header: string;
+  // Function or section name git prints after the hunk range
+  section: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  // Path before the change (equal to newPath unless renamed or copied)
+  oldPath: string;
+  // Path after the change (equal to oldPath for deleted files)
+  newPath: string;
+  // The path the file is known by after the change, or before if deleted
+  path: string;
+  status: DiffFileStatus;
+  binary: boolean;
+  // Similarity score (0-100) for renames and copies
+  similarity?: number;
+  oldMode?: string;
+  newMode?: string;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+export interface ParsedDiff {
+  files: DiffFile[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+// Helper to undo the C-style quoting git uses for unusual paths
+function unquotePath(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"')) {
+    return path;
+  }
+
+  const bytes: number[] = [];
+  const inner = path.slice(1, -1);
+  const escapes: Record<string, string> = {
+    n: "\n",
+    t: "\t",
+    r: "\r",
+    '"': '"',
+    "\\": "\\",
+    a: "\x07",
+    b: "\b",
+    f: "\f",
+    v: "\v",
+  };
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char, "utf8"));
+      continue;
+    }
+
+    const next = inner[i + 1];
+    const octal = inner.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else if (next in escapes) {
+      bytes.push(...Buffer.from(escapes[next], "utf8"));
+      i += 1;
+    } else {
+      bytes.push(...Buffer.from(char, "utf8"));
+    }
+  }
+
+  return Buffer.from(bytes).toString("utf8");
+}
+
+// Helper to strip the a/ or b/ prefix from a path in a diff header
+function stripPrefix(path: string): string {
+  const unquoted = unquotePath(path.trim());
+  return unquoted.replace(/^[ab]\//, "");
+}
+
+// Helper to read both paths out of a `diff --git a/... b/...` line
+function parseGitHeaderPaths(line: string): {
+  oldPath: string;
+  newPath: string;
+} {
+  const rest = line.substring("diff --git ".length);
+
+  // Quoted paths can be split unambiguously
+  const quoted = rest.match(
+    /^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*"|\S+)$/
+  );
+  if (quoted && (quoted[1].startsWith('"') || quoted[2].startsWith('"'))) {
+    return { oldPath: stripPrefix(quoted[1]), newPath: stripPrefix(quoted[2]) };
+  }
+
+  // Unquoted paths may contain spaces; when both sides are the same path the
+  // header is "a/<path> b/<path>", so it can be split down the middle
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half)) {
+    const first = rest.substring(0, half);
+    const second = rest.substring(half + 1);
+    if (
+      first.startsWith("a/") &&
+      second.startsWith("b/") &&
+      first.substring(2) === second.substring(2)
+    ) {
+      return { oldPath: first.substring(2), newPath: second.substring(2) };
+    }
+  }
+
+  // Renames and copies are corrected later from the extended headers
+  const match = rest.match(/^a\/(.*?) b\/(.*)$/);
+  return match
+    ? { oldPath: match[1], newPath: match[2] }
+    : { oldPath: rest, newPath: rest };
+}
+
+/**
+ * Parses unified `git diff` output into files, hunks and numbered lines
+ *
+ * @param diff The git diff content to parse
+ * @returns The structured diff model
+ */
+export default function parseDiff(diff: string): ParsedDiff {
+  const files: DiffFile[] = [];
+  let currentFile: DiffFile | undefined;
+  let currentHunk: DiffHunk | undefined;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let oldLineNumber = 0;
+  let newLineNumber = 0;
+
+  for (const line of diff.split("\n")) {
+    // Lines inside a hunk are consumed by count, so content such as
+    // "--- foo" or "diff --git" on a changed line is never mistaken for a header
+    if (currentFile && currentHunk && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line[0];
+      const content = line.substring(1);
+
+      if (marker === "+") {
+        currentHunk.lines.push({
+          type: "added",
+          content,
+          newLineNumber: newLineNumber++,
+        });
+        currentFile.additions++;
+        newRemaining--;
+        continue;
+      }
+      if (marker === "-") {
+        currentHunk.lines.push({
+          type: "removed",
+          content,
+          oldLineNumber: oldLineNumber++,
+        });
+        currentFile.deletions++;
+        oldRemaining--;
+        continue;
+      }
+      if (marker === " " || line === "") {
+        currentHunk.lines.push({
+          type: "context",
+          content,
+          oldLineNumber: oldLineNumber++,
+          newLineNumber: newLineNumber++,
+        });
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+      if (marker === "\\") {
+        // "\ No newline at end of file"
+        continue;
+      }
+      // Anything else means the hunk was shorter than announced
+      oldRemaining = 0;
+      newRemaining = 0;
+    }
+
+    if (line.startsWith("diff --git ")) {
+      const { oldPath, newPath } = parseGitHeaderPaths(line);
+      currentFile = {
+        oldPath,
+        newPath,
+        path: newPath,
+        status: "modified",
+        binary: false,
+        hunks: [],
+        additions: 0,
+        deletions: 0,
+      };
+      currentHunk = undefined;
+      files.push(currentFile);
+      continue;
+    }
+
+    if (!currentFile) {
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      continue;
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      currentHunk = {
+        header: line,
+        section: hunkMatch[5].trim(),
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldLines: hunkMatch[2] === undefined ? 1 : parseInt(hunkMatch[2], 10),
+        newStart: parseInt(hunkMatch[3], 10),
+        newLines: hunkMatch[4] === undefined ? 1 : parseInt(hunkMatch[4], 10),
+        lines: [],
+      };
+      currentFile.hunks.push(currentHunk);
+      oldRemaining = currentHunk.oldLines;
+      newRemaining = currentHunk.newLines;
+      oldLineNumber = currentHunk.oldStart;
+      newLineNumber = currentHunk.newStart;
+      continue;
+    }
+
+    // Extended header lines between "diff --git" and the first hunk
+    if (line.startsWith("new file mode ")) {
+      currentFile.status = "added";
+      currentFile.newMode = line.substring("new file mode ".length).trim();
+    } else if (line.startsWith("deleted file mode ")) {
+      currentFile.status = "deleted";
+      currentFile.oldMode = line.substring("deleted file mode ".length).trim();
+      currentFile.path = currentFile.oldPath;
+    } else if (line.startsWith("old mode ")) {
+      currentFile.oldMode = line.substring("old mode ".length).trim();
+    } else if (line.startsWith("new mode ")) {
+      currentFile.newMode = line.substring("new mode ".length).trim();
+    } else if (line.startsWith("similarity index ")) {
+      currentFile.similarity = parseInt(line.substring(17), 10);
+    } else if (line.startsWith("rename from ")) {
+      currentFile.status = "renamed";
+      currentFile.oldPath = unquotePath(line.substring("rename from ".length));
+    } else if (line.startsWith("rename to ")) {
+      currentFile.status = "renamed";
+      currentFile.newPath = unquotePath(line.substring("rename to ".length));
+      currentFile.path = currentFile.newPath;
+    } else if (line.startsWith("copy from ")) {
+      currentFile.status = "copied";
+      currentFile.oldPath = unquotePath(line.substring("copy from ".length));
+    } else if (line.startsWith("copy to ")) {
+      currentFile.status = "copied";
+      currentFile.newPath = unquotePath(line.substring("copy to ".length));
+      currentFile.path = currentFile.newPath;
+    } else if (
+      line.startsWith("Binary files ") ||
+      line.startsWith("GIT binary patch")
+    ) {
+      currentFile.binary = true;
+    } else if (line.startsWith("--- ") && !line.startsWith("--- /dev/null")) {
+      currentFile.oldPath = stripPrefix(line.substring(4));
+    } else if (line.startsWith("+++ ") && !line.startsWith("+++ /dev/null")) {
+      currentFile.newPath = stripPrefix(line.substring(4));
+      currentFile.path = currentFile.newPath;
+    }
+  }
+
+  return { files };
+}
+
+/**
+ * Keeps the files of a diff whose old or new path passes a check, leaving
+ * their text untouched
+ *
+ * @param diff The git diff content to filter
+ * @param keep Decides on a repository-relative path
+ * @returns The diff of the kept files
+ */
+export function filterDiff(
+  diff: string,
+  keep: (path: string) => boolean
+): string {
+  // Changed lines are prefixed with "+", "-" or " ", so a line starting
+  // with "diff --git " always starts a file
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter((part) => {
+      if (!part.startsWith("diff --git ")) {
+        return false;
+      }
+      const { oldPath, newPath } = parseGitHeaderPaths(part.split("\n", 1)[0]);
+      return keep(oldPath) || keep(newPath);
+    })
+    .join("");
+}
+
+// Helper to collect the added lines of a file across all hunks
+export function getAddedLines(file: DiffFile): DiffLine[] {
+  return file.hunks.flatMap((hunk) =>
+    hunk.lines.filter((line) => line.type === "added")
+  );
+}
+
+// Helper to collect the removed lines of a file across all hunks
+export function getRemovedLines(file: DiffFile): DiffLine[] {
+  return file.hunks.flatMap((hunk) =>
+    hunk.lines.filter((line) => line.type === "removed")
+  );
+}
+
+// Helper to turn line numbers into compact ranges, e.g. "L3-L5, L9"
+export function formatLineRanges(lineNumbers: number[]): string {
+  const sorted = Array.from(new Set(lineNumbers)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) {
+      i++;
+    }
+    ranges.push(start === sorted[i] ? `L${start}` : `L${start}-L${sorted[i]}`);
+  }
+
+  return ranges.join(", ");
+}
+
+// Helper to describe a changed file, e.g. "`a.ts` → `b.ts` (renamed, 95% similar)"
+export function describeFile(file: DiffFile): string {
+  const details: string[] = [];
+  const similarity =
+    file.similarity !== undefined ? `${file.similarity}% similar` : "";
+
+  switch (file.status) {
+    case "added":
+      details.push("new file");
+      break;
+    case "deleted":
+      details.push("deleted");
+      break;
+    case "renamed":
+      details.push("renamed");
+      break;
+    case "copied":
+      details.push("copied");
+      break;
+  }
+  if (similarity && (file.status === "renamed" || file.status === "copied")) {
+    details.push(similarity);
+  }
+  if (file.binary) {
+    details.push("binary");
+  }
+  if (file.oldMode && file.newMode && file.oldMode !== file.newMode) {
+    details.push(`mode ${file.oldMode} → ${file.newMode}`);
+  }
+
+  const name =
+    file.status === "renamed" || file.status === "copied"
+      ? `\`${file.oldPath}\` → \`${file.newPath}\``
+      : `\`${file.path}\``;
+
+  return details.length > 0 ? `${name} (${details.join(", ")})` : name;
+}
@@ -0,0 +1,67 @@
+import matchesGlob from "./matchesGlob.js";
+
+// true for `attr`, false for `-attr`, the value for `attr=value`
+export type AttributeValue = boolean | string;
+
+export interface GitattributesRule {
+  pattern: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+/**
+ * Parses a `.gitattributes` file into its pattern lines
+ *
+ * Macros and `!attr` (unspecified) entries are left out, they only matter
+ * to git itself.
+ *
+ * @param content The file content
+ * @returns The rules in file order
+ */
+export default function parseGitattributes(
+  content: string
+): GitattributesRule[] {
+  const rules: GitattributesRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith("[attr]")) {
+      continue;
+    }
+    const [pattern, ...entries] = line.split(/\s+/);
+    const attributes: Record<string, AttributeValue> = {};
+    for (const entry of entries) {
+      if (entry.startsWith("-")) {
+        attributes[entry.substring(1)] = false;
+      } else if (entry.includes("=")) {
+        const [name, value] = entry.split("=", 2);
+        // Linguist reads "true" and "false" like set and unset
+        attributes[name] =
+          value === "true" ? true : value === "false" ? false : value;
+      } else if (!entry.startsWith("!")) {
+        attributes[entry] = true;
+      }
+    }
+    rules.push({ pattern, attributes });
+  }
+  return rules;
+}
+
+/**
+ * Resolves the attributes of a path, later lines overriding earlier ones
+ * as in git
+ *
+ * @param path Repository-relative path
+ * @param rules Rules from parseGitattributes
+ * @returns The attributes set for the path
+ */
+export function attributesFor(
+  path: string,
+  rules: GitattributesRule[]
+): Record<string, AttributeValue> {
+  const attributes: Record<string, AttributeValue> = {};
+  for (const rule of rules) {
+    if (matchesGlob(path, rule.pattern)) {
+      Object.assign(attributes, rule.attributes);
+    }
+  }
+  return attributes;
+}
@@ -0,0 +1,329 @@
+import { posix } from "path";
+
+export type LockfileKind = "npm" | "yarn" | "pnpm";
+
+// Lockfile names mapped to the package manager writing them
+export const LOCKFILE_NAMES: Record<string, LockfileKind> = {
+  "package-lock.json": "npm",
+  "npm-shrinkwrap.json": "npm",
+  "yarn.lock": "yarn",
+  "pnpm-lock.yaml": "pnpm",
+};
+
+export interface LockedDependency {
+  // Range the lockfile was generated for, when the lockfile records it
+  specifier?: string;
+  // Version the dependency resolved to
+  version?: string;
+}
+
+export interface Lockfile {
+  kind: LockfileKind;
+  // Direct dependencies of each workspace package, keyed by its directory
+  // relative to the lockfile ("" for the root package)
+  importers: Map<string, Map<string, LockedDependency>>;
+  // Every locked package, including transitive ones, with its versions
+  packages: Map<string, Set<string>>;
+  // yarn.lock entries: "name@range" mapped to the resolved version
+  descriptors: Map<string, string>;
+}
+
+// Dependency fields recorded by lockfiles for the packages they install
+const LOCKED_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+];
+
+/**
+ * Tells whether a path is a lockfile this module can read
+ *
+ * @param path Repository-relative path
+ * @returns The package manager writing the lockfile, if it is one
+ */
+export function lockfileKind(path: string): LockfileKind | undefined {
+  return LOCKFILE_NAMES[posix.basename(path)];
+}
+
+// Helper to record one resolved version of a package
+function addPackage(lockfile: Lockfile, name: string, version: unknown) {
+  if (typeof version !== "string" || !name) {
+    return;
+  }
+  const versions = lockfile.packages.get(name) || new Set<string>();
+  versions.add(version);
+  lockfile.packages.set(name, versions);
+}
+
+// Helper to create an empty lockfile of a kind
+function emptyLockfile(kind: LockfileKind): Lockfile {
+  return {
+    kind,
+    importers: new Map(),
+    packages: new Map(),
+    descriptors: new Map(),
+  };
+}
+
+// Helper to read package-lock.json and npm-shrinkwrap.json. Version 2 and 3
+// list every installed path under `packages`, version 1 nests the tree
+// under `dependencies`.
+function parseNpmLockfile(content: string): Lockfile | undefined {
+  let json: any;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    return undefined;
+  }
+  if (!json || typeof json !== "object") {
+    return undefined;
+  }
+  const lockfile = emptyLockfile("npm");
+
+  if (json.packages && typeof json.packages === "object") {
+    const packages: Record<string, any> = json.packages;
+    for (const [key, entry] of Object.entries(packages)) {
+      if (!entry || typeof entry !== "object") {
+        continue;
+      }
+      const index = key.lastIndexOf("node_modules/");
+      if (index !== -1) {
+        // Links point at workspace packages, not at installed versions
+        if (!entry.link) {
+          addPackage(
+            lockfile,
+            key.substring(index + "node_modules/".length),
+            entry.version
+          );
+        }
+        continue;
+      }
+
+      // "" is the root package, other keys are workspace directories
+      const dependencies = new Map<string, LockedDependency>();
+      for (const field of LOCKED_FIELDS) {
+        for (const [name, specifier] of Object.entries(entry[field] || {})) {
+          // Nested installs win over the hoisted one in the root
+          const installed =
+            (key && packages[`${key}/node_modules/${name}`]) ||
+            packages[`node_modules/${name}`];
+          dependencies.set(name, {
+            specifier: String(specifier),
+            version: installed?.link ? undefined : installed?.version,
+          });
+        }
+      }
+      lockfile.importers.set(key, dependencies);
+    }
+    return lockfile;
+  }
+
+  // Version 1 records no ranges, only the installed tree
+  const root = new Map<string, LockedDependency>();
+  const walk = (dependencies: Record<string, any>, topLevel: boolean) => {
+    for (const [name, entry] of Object.entries(dependencies || {})) {
+      if (!entry || typeof entry !== "object") {
+        continue;
+      }
+      addPackage(lockfile, name, entry.version);
+      if (topLevel) {
+        root.set(name, { version: entry.version });
+      }
+      walk(entry.dependencies, false);
+    }
+  };
+  walk(json.dependencies, true);
+  lockfile.importers.set("", root);
+  return lockfile;
+}
+
+// Helper to split a yarn descriptor such as "@scope/name@npm:^1.0.0" into
+// the package name and the range
+function splitDescriptor(descriptor: string): [string, string] | undefined {
+  const index = descriptor.indexOf("@", 1);
+  if (index === -1) {
+    return undefined;
+  }
+  return [descriptor.substring(0, index), descriptor.substring(index + 1)];
+}
+
+// Helper to remove the quotes around a yarn.lock or YAML scalar
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+// Helper to read yarn.lock, both the v1 format and the YAML one of yarn 2+
+function parseYarnLockfile(content: string): Lockfile {
+  const lockfile = emptyLockfile("yarn");
+  let descriptors: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith("#")) {
+      continue;
+    }
+    if (!/^\s/.test(line)) {
+      // An entry header lists every range resolving to this entry
+      descriptors = line
+        .replace(/:\s*$/, "")
+        .split(/,\s*/)
+        .map(unquote)
+        .filter((descriptor) => descriptor !== "__metadata");
+      continue;
+    }
+
+    // Only the entry's own version, not one of its dependencies
+    const version = line.match(/^ {2}version:?\s+(.+)$/);
+    if (!version || descriptors.length === 0) {
+      continue;
+    }
+    for (const descriptor of descriptors) {
+      const parts = splitDescriptor(descriptor);
+      // Workspace packages are not installed from a registry
+      if (!parts || parts[1].startsWith("workspace:")) {
+        continue;
+      }
+      const resolved = unquote(version[1]);
+      lockfile.descriptors.set(descriptor, resolved);
+      addPackage(lockfile, parts[0], resolved);
+    }
+    descriptors = [];
+  }
+  return lockfile;
+}
+
+// Helper to read the block mappings of a YAML document into nested objects.
+// pnpm-lock.yaml only uses mappings and scalars where it matters here, so
+// sequences are skipped and flow collections are kept as strings.
+function parseYamlMappings(content: string): Record<string, any> {
+  const root: Record<string, any> = {};
+  const stack: { indent: number; value: Record<string, any> }[] = [
+    { indent: -1, value: root },
+  ];
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("- ")) {
+      continue;
+    }
+    const indent = line.length - line.trimStart().length;
+    const match = trimmed.match(/^("[^"]*"|'[^']*'|[^:]+):(?:\s+(.*))?$/);
+    if (!match) {
+      continue;
+    }
+    while (stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1].value;
+    const key = unquote(match[1]);
+    if (match[2] === undefined || match[2] === "") {
+      const child: Record<string, any> = {};
+      parent[key] = child;
+      stack.push({ indent, value: child });
+    } else {
+      parent[key] = unquote(match[2]);
+    }
+  }
+  return root;
+}
+
+// Helper to drop the peer dependency suffix pnpm adds to versions, such as
+// "1.0.0(react@18.2.0)" or "1.0.0_react@18.2.0" in older lockfiles
+function stripPeerSuffix(version: string): string {
+  return version.replace(/\(.*$/, "").replace(/_.*$/, "");
+}
+
+// Helper to split a key of the pnpm `packages` mapping into name and version:
+// "/name/1.0.0" (v5), "/name@1.0.0(peer@1.0.0)" (v6) or "name@1.0.0" (v9)
+function splitPnpmPackageKey(key: string): [string, string] | undefined {
+  const path = key.replace(/^\//, "").replace(/\(.*$/, "");
+  // The v5 peer suffix can contain "@" too, so that form is matched first
+  const v5 = path.match(/^((?:@[^/]+\/)?[^/@]+)\/(\d[^/]*)$/);
+  if (v5) {
+    return [v5[1], stripPeerSuffix(v5[2])];
+  }
+  const at = path.indexOf("@", 1);
+  return at === -1
+    ? undefined
+    : [path.substring(0, at), path.substring(at + 1)];
+}
+
+// Helper to read the direct dependencies of one pnpm importer. Version 5
+// keeps ranges in `specifiers`, later versions next to each version.
+function readPnpmImporter(
+  importer: Record<string, any>
+): Map<string, LockedDependency> {
+  const dependencies = new Map<string, LockedDependency>();
+  const specifiers: Record<string, any> = importer.specifiers || {};
+  for (const field of LOCKED_FIELDS) {
+    const entries: Record<string, any> = importer[field] || {};
+    if (typeof entries !== "object") {
+      continue;
+    }
+    for (const [name, entry] of Object.entries(entries)) {
+      const version = typeof entry === "object" ? entry.version : entry;
+      const specifier =
+        typeof entry === "object" ? entry.specifier : specifiers[name];
+      dependencies.set(name, {
+        specifier: typeof specifier === "string" ? specifier : undefined,
+        // "link:../other" points at a workspace package
+        version:
+          typeof version === "string" && !version.startsWith("link:")
+            ? stripPeerSuffix(version)
+            : undefined,
+      });
+    }
+  }
+  return dependencies;
+}
+
+// Helper to read pnpm-lock.yaml, from lockfile version 5 to 9
+function parsePnpmLockfile(content: string): Lockfile {
+  const lockfile = emptyLockfile("pnpm");
+  const document = parseYamlMappings(content);
+
+  if (document.importers && typeof document.importers === "object") {
+    for (const [directory, importer] of Object.entries(document.importers)) {
+      if (importer && typeof importer === "object") {
+        lockfile.importers.set(
+          directory === "." ? "" : directory,
+          readPnpmImporter(importer as Record<string, any>)
+        );
+      }
+    }
+  } else {
+    lockfile.importers.set("", readPnpmImporter(document));
+  }
+
+  for (const key of Object.keys(document.packages || {})) {
+    const parts = splitPnpmPackageKey(key);
+    if (parts) {
+      addPackage(lockfile, parts[0], parts[1]);
+    }
+  }
+  return lockfile;
+}
+
+/**
+ * Reads the locked dependencies out of an npm, yarn or pnpm lockfile
+ *
+ * @param path Path of the lockfile, its name tells the format
+ * @param content The lockfile content
+ * @returns The direct dependencies per workspace package and every locked
+ *   package version, or undefined when the file cannot be read
+ */
+export default function parseLockfile(
+  path: string,
+  content: string
+): Lockfile | undefined {
+  switch (lockfileKind(path)) {
+    case "npm":
+      return parseNpmLockfile(content);
+    case "yarn":
+      return parseYarnLockfile(content);
+    case "pnpm":
+      return parsePnpmLockfile(content);
+    default:
+      return undefined;
+  }
+}
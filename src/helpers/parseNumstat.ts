@@ -0,0 +1,53 @@
+export interface NumstatEntry {
+  path: string;
+  // Path before a rename or copy
+  oldPath?: string;
+  // Undefined for binary files, which git counts as "-"
+  additions?: number;
+  deletions?: number;
+}
+
+// Helper to read a count column, "-" for binary files
+function parseCount(value: string): number | undefined {
+  return value === "-" ? undefined : Number(value);
+}
+
+/**
+ * Parses the output of `git diff --numstat -z`
+ *
+ * Each record is `added<TAB>deleted<TAB>path<NUL>`, or for renames and
+ * copies `added<TAB>deleted<TAB><NUL>old<NUL>new<NUL>`. Untracked files
+ * diffed with `--no-index` against `/dev/null` come out as renames from
+ * `/dev/null` and are reported as added files.
+ *
+ * @param output Raw numstat output
+ * @returns One entry per changed file
+ */
+export default function parseNumstat(output: string): NumstatEntry[] {
+  const entries: NumstatEntry[] = [];
+  const fields = output.split("\0");
+  for (let i = 0; i < fields.length; i++) {
+    const match = fields[i]
+      .replace(/^\n/, "")
+      .match(/^(\d+|-)\t(\d+|-)\t(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, additions, deletions, path] = match;
+    const entry: NumstatEntry = {
+      path,
+      additions: parseCount(additions),
+      deletions: parseCount(deletions),
+    };
+    if (!path) {
+      // Renamed or copied, the old and new paths follow
+      const oldPath = fields[++i];
+      entry.path = fields[++i];
+      if (oldPath !== "/dev/null") {
+        entry.oldPath = oldPath;
+      }
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
@@ -1,68 +1,63 @@
+import type { CommitInfo } from "./parseCommitLog.js";
+import type { ChangeClassification } from "./classifyChanges.js";
+import { getAddedLines } from "./parseDiff.js";
+import type { ParsedDiff } from "./parseDiff.js";
+import type { PublicApiChange, PublicApiReport } from "./comparePublicApi.js";
+import evaluateKeyPoints from "./keyPointRules.js";
+import type { KeyPointAnalyses, KeyPointRule } from "./keyPointRules.js";
+import type { SecretFinding } from "./scanSecrets.js";
+import type { TestReport } from "./matchTests.js";
+import type { ChangeStats, StatsRollup } from "./computeChangeStats.js";
+import type { CoverageReport, FileCoverage } from "./parseCoverage.js";
+import type { ReviewerReport } from "./suggestReviewers.js";
+import type {
+  MigrationFile,
+  MigrationFramework,
+  MigrationReport,
+  SchemaOperation,
+} from "./detectMigrations.js";
+
+const MAX_EVIDENCE = 3;
+
 /**
- * Generates key implementation points based on diff content
+ * Generates key implementation points by evaluating the key point rules
+ * against the parsed diff, citing the lines that matched under each ticked
+ * box
  *
- * @param diff The git diff content to analyze
+ * @param parsedDiff The parsed diff to analyze
+ * @param customRules Project rules added to (or replacing) the built-in ones
+ * @param analyses Results the detectors read besides the diff
  * @returns Formatted markdown string with checkboxes
  */
-export function generateKeyPoints(diff: string): string {
-  const points = [];
-
-  // Check for core functionality changes
-  if (
-    diff.includes("function") ||
-    diff.includes("class") ||
-    diff.includes("interface")
-  ) {
-    points.push("- [x] Core functionality changes");
-  } else {
-    points.push("- [ ] Core functionality changes");
-  }
-
-  // Check for API modifications
-  if (
-    diff.includes("api") ||
-    diff.includes("endpoint") ||
-    diff.includes("route")
-  ) {
-    points.push("- [x] API modifications");
-  } else {
-    points.push("- [ ] API modifications");
-  }
-
-  // Check for database schema updates
-  if (
-    diff.includes("schema") ||
-    diff.includes("model") ||
-    diff.includes("migration")
-  ) {
-    points.push("- [x] Database schema updates");
-  } else {
-    points.push("- [ ] Database schema updates");
-  }
-
-  // Check for configuration changes
-  if (
-    diff.includes("config") ||
-    diff.includes(".env") ||
-    diff.includes("settings")
-  ) {
-    points.push("- [x] Configuration changes");
-  } else {
-    points.push("- [ ] Configuration changes");
-  }
-
-  // Check for third-party integrations
-  if (
-    diff.includes("import") ||
-    diff.includes("require") ||
-    diff.includes("dependency")
-  ) {
-    points.push("- [x] Third-party integrations");
-  } else {
-    points.push("- [ ] Third-party integrations");
-  }
-
-  return points.join("\n");
+export function generateKeyPoints(
+  parsedDiff: ParsedDiff,
+  customRules: KeyPointRule[] = [],
+  analyses: KeyPointAnalyses = {}
+): string {
+  return evaluateKeyPoints(parsedDiff, customRules, analyses)
+    .map(({ label, checked, evidence }) => {
+      if (!checked) {
+        return `- [ ] ${label}`;
+      }
+      // One line per file, so several files show up before "more"
+      const cited = evidence
+        .filter(
+          (item, index) =>
+            evidence.findIndex(({ path }) => path === item.path) === index
+        )
+        .slice(0, MAX_EVIDENCE);
+      const formatted = cited.map(
+        ({ path, line, removed }) =>
+          `\`${path}${line ? `:${line}` : ""}\`${removed ? " (removed)" : ""}`
+      );
+      if (evidence.length > cited.length) {
+        formatted.push(`+${evidence.length - cited.length} more`);
+      }
+      // The evidence changes with each commit, so it stays out of the
+      // checkbox label that update_pr matches ticks by
+      return `- [x] ${label}\n  - ${formatted.join(", ")}`;
+    })
+    .join("\n");
 }
 
 /**
@@ -90,3 +85,634 @@ export function generateSimpleLogicSummary(diff: string): string {
 
   return logicChanges || "Basic functionality changes detected";
 }
+
+/**
+ * Generates the commit list for the PR from the parsed git log
+ *
+ * @param commits Commits between base and head, newest first
+ * @returns Formatted markdown list of commits with their trailers
+ */
+export function generateCommitsSection(commits: CommitInfo[]): string {
+  return commits
+    .map((commit) => {
+      let entry = `- \`${commit.shortHash}\` ${commit.subject} (${commit.author})`;
+      for (const trailer of commit.trailers) {
+        entry += `\n  - ${trailer.key}: ${trailer.value}`;
+      }
+      return entry;
+    })
+    .join("\n");
+}
+
+/**
+ * Generates the "Type of Change" checkboxes from the change classification
+ *
+ * @param classification Change types detected for the PR
+ * @returns Formatted markdown string with checkboxes and the reasoning
+ */
+export function generateTypeOfChange(
+  classification: ChangeClassification
+): string {
+  const { types, reasons } = classification;
+  const box = (checked: boolean) => (checked ? "[x]" : "[ ]");
+
+  const checkboxes = [
+    `- ${box(
+      types.has("bugfix")
+    )} 🐛 Bug fix (non-breaking change which fixes an issue)`,
+    `- ${box(
+      types.has("feature")
+    )} ✨ New feature (non-breaking change which adds functionality)`,
+    `- ${box(
+      types.has("breaking")
+    )} 💥 Breaking change (fix or feature that would cause existing functionality to not work as expected)`,
+    `- ${box(types.has("docs"))} 📚 Documentation update`,
+    `- ${box(
+      types.has("refactor")
+    )} ♻️ Code refactoring (no functional changes, no api changes)`,
+    `- ${box(types.has("performance"))} ⚡ Performance improvements`,
+  ].join("\n");
+
+  if (reasons.length === 0) {
+    return checkboxes;
+  }
+
+  // Keep "--" out of the reasons so they cannot close the HTML comment
+  const reasoning = reasons
+    .map((reason) => `  - ${reason.replace(/--/g, "- -")}`)
+    .join("\n");
+  return `${checkboxes}\n\n<!-- Pre-checked because:\n${reasoning}\n-->`;
+}
+
+/**
+ * Collects the issue references from `Closes:`/`Fixes:` commit trailers
+ *
+ * @param commits Commits between base and head
+ * @returns Unique issue references in commit order
+ */
+export function getClosedIssues(commits: CommitInfo[]): string[] {
+  const issues = commits
+    .flatMap((commit) => commit.trailers)
+    .filter((trailer) => /^(closes|fixes|resolves)$/i.test(trailer.key))
+    .map((trailer) => trailer.value);
+
+  return Array.from(new Set(issues));
+}
+
+// Helper to describe one export change of the public API
+function describeApiChange(
+  change: PublicApiChange,
+  entryPoint: string
+): string {
+  const name = `\`${change.name}\``;
+  const where = `${entryPoint}\`${change.file}\` ${
+    change.change === "removed" ? "old " : ""
+  }L${change.line}`;
+  const details =
+    change.reasons.length > 0 ? `: ${change.reasons.join(", ")}` : "";
+
+  switch (change.change) {
+    case "added":
+      return `- Added ${name} (${change.kind}, ${where})`;
+    case "removed":
+      return `- ⚠️ Removed ${name} (${change.kind}, ${where})`;
+    case "renamed":
+      return `- ⚠️ Renamed \`${change.previousName}\` → ${name} (${where})`;
+    default:
+      return `- ${
+        change.breaking ? "⚠️ " : ""
+      }Changed ${name} (${where})${details}`;
+  }
+}
+
+/**
+ * Generates the "Public API Impact" section from the package API comparison
+ *
+ * @param report Entry point and export changes of the package
+ * @returns Markdown with the suggested version bump and the API changes
+ */
+export function generatePublicApiImpact(report: PublicApiReport): string {
+  const lines: string[] = [];
+  const version =
+    report.version.before && report.suggestedVersion
+      ? ` (${report.version.before} → ${report.suggestedVersion})`
+      : "";
+  lines.push(`**Suggested version bump: ${report.bump}**${version}`, "");
+
+  for (const entry of report.entryPoints) {
+    const entryPoint = `\`${entry.entryPoint}\``;
+    if (entry.change === "removed") {
+      lines.push(`- ⚠️ Entry point ${entryPoint} was removed`);
+    } else if (entry.change === "added") {
+      lines.push(`- Added entry point ${entryPoint} (\`${entry.after}\`)`);
+    } else {
+      lines.push(
+        `- Entry point ${entryPoint} moved from \`${entry.before}\` to \`${entry.after}\``
+      );
+    }
+  }
+
+  // Name the entry point only when the package has more than one
+  const multipleEntryPoints =
+    new Set(report.changes.map((change) => change.entryPoint)).size > 1;
+  const visible = report.changes.filter(
+    (change) => change.change !== "updated"
+  );
+  const ordered = [
+    ...visible.filter((change) => change.breaking),
+    ...visible.filter((change) => !change.breaking),
+  ];
+  for (const change of ordered) {
+    lines.push(
+      describeApiChange(
+        change,
+        multipleEntryPoints ? `\`${change.entryPoint}\` from ` : ""
+      )
+    );
+  }
+
+  const updated = report.changes.length - visible.length;
+  if (updated > 0) {
+    lines.push(
+      `- ${updated} export${
+        updated !== 1 ? "s" : ""
+      } changed only in implementation`
+    );
+  }
+  if (report.entryPoints.length === 0 && report.changes.length === 0) {
+    lines.push("- No changes to the exported API");
+  }
+
+  for (const note of report.notes) {
+    lines.push(`- _Note: ${note}_`);
+  }
+
+  return lines.join("\n");
+}
+
+const FRAMEWORK_NAMES: Record<MigrationFramework, string> = {
+  prisma: "Prisma",
+  typeorm: "TypeORM",
+  knex: "Knex",
+  sequelize: "Sequelize",
+  rails: "Rails",
+  alembic: "Alembic",
+  flyway: "Flyway",
+  sql: "SQL",
+};
+
+// Helper to describe one schema operation, e.g. "Dropped column `users.age`"
+function describeSchemaOperation(operation: SchemaOperation): string {
+  const table = operation.table ? `\`${operation.table}\`` : "a table";
+  const column = (name?: string) =>
+    operation.table ? `\`${operation.table}.${name}\`` : `\`${name}\``;
+  const index = operation.index ? ` \`${operation.index}\`` : "";
+
+  switch (operation.action) {
+    case "create table":
+      return `Created table ${table}${
+        operation.columns && operation.columns.length > 0
+          ? ` (${operation.columns.map((name) => `\`${name}\``).join(", ")})`
+          : ""
+      }`;
+    case "drop table":
+      return `Dropped table ${table}`;
+    case "rename table":
+      return `Renamed table ${table} to \`${operation.newName}\``;
+    case "truncate table":
+      return `Truncated table ${table}`;
+    case "delete rows":
+      return `Deleted rows from ${table}`;
+    case "add column":
+      return `Added column ${column(operation.column)}`;
+    case "drop column":
+      return `Dropped column ${column(operation.column)}`;
+    case "alter column":
+      return `Altered column ${column(operation.column)}`;
+    case "rename column":
+      return `Renamed column ${column(operation.column)} to \`${
+        operation.newName
+      }\``;
+    case "create index":
+      return `Created index${index} on ${table}`;
+    case "drop index":
+      return `Dropped index${index}${operation.table ? ` on ${table}` : ""}`;
+    case "add constraint":
+      return `Added constraint${index} on ${table}`;
+    case "drop constraint":
+      return `Dropped constraint${index} on ${table}`;
+  }
+}
+
+// Helper to describe how a migration can be rolled back
+function describeRollback(file: MigrationFile): string {
+  const path = `\`${file.path}\``;
+  const steps = `${file.rollback.length} operation${
+    file.rollback.length !== 1 ? "s" : ""
+  }`;
+  switch (file.rollbackSupport) {
+    case "down":
+      return file.rollback.length > 0
+        ? `- ${path}: the down migration reverts ${steps}`
+        : `- ⚠️ ${path}: the down migration does not change the schema`;
+    case "reversible":
+      return file.irreversible.length > 0
+        ? `- ⚠️ ${path}: reversible, except ${file.irreversible
+            .map((name) => `\`${name}\``)
+            .join(", ")}`
+        : `- ${path}: reversed automatically`;
+    case "undo-file":
+      return `- ${path}: has an undo migration in this PR`;
+    case "n/a":
+      return `- ${path}: repeatable migration, re-applied when it changes`;
+    case "none":
+      return file.framework === "prisma"
+        ? `- ⚠️ ${path}: Prisma Migrate has no down migrations; roll back with a new migration`
+        : `- ⚠️ ${path}: no down migration`;
+  }
+}
+
+/**
+ * Generates the migration notes: the schema changes made by the PR's
+ * migrations, destructive operations first, and how each can be rolled back
+ *
+ * @param report Migrations found in the diff
+ * @returns Formatted markdown for the Migration Notes / Rollback section
+ */
+export function generateMigrationNotes(report: MigrationReport): string {
+  const lines: string[] = [];
+  const migrations = report.files.map(
+    (file) => `\`${file.path}\` (${FRAMEWORK_NAMES[file.framework]})`
+  );
+  if (migrations.length > 0) {
+    lines.push(`**Migrations:** ${migrations.join(", ")}`, "");
+  }
+
+  const operations = report.files.flatMap((file) => file.operations);
+  const destructive = operations.filter((operation) => operation.destructive);
+  if (destructive.length > 0) {
+    lines.push(
+      `**⚠️ ${destructive.length} destructive operation${
+        destructive.length !== 1 ? "s" : ""
+      }**`,
+      ""
+    );
+  }
+  for (const operation of [
+    ...destructive,
+    ...operations.filter((operation) => !operation.destructive),
+  ]) {
+    const where = `\`${operation.file}\` L${operation.line}`;
+    lines.push(
+      operation.destructive
+        ? `- ⚠️ ${describeSchemaOperation(operation)}: ${
+            operation.reason
+          } (${where})`
+        : `- ${describeSchemaOperation(operation)} (${where})`
+    );
+  }
+  if (report.files.length > 0 && operations.length === 0) {
+    lines.push("- No schema operations recognized in the migrations");
+  }
+
+  if (report.schemaFiles.length > 0) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+    lines.push(
+      `**Schema files updated:** ${report.schemaFiles
+        .map((path) => `\`${path}\``)
+        .join(", ")}`
+    );
+  }
+
+  // Undo migrations are covered by the migrations they revert
+  const rollbacks = report.files.filter(
+    (file) => file.operations.length > 0 || file.rollback.length === 0
+  );
+  if (rollbacks.length > 0) {
+    lines.push("", "**Rollback:**", ...rollbacks.map(describeRollback));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates the warning listing potential secrets added by the PR, without
+ * their values
+ *
+ * @param findings Secrets found in the added lines
+ * @returns Formatted markdown for the Potential secrets section
+ */
+export function generateSecretsWarning(findings: SecretFinding[]): string {
+  return [
+    "These added lines look like credentials. Their values are redacted here; rotate any real credential and remove it from the branch history before merging.",
+    "",
+    ...findings.map(
+      (finding) => `- ${finding.kind} at \`${finding.path}:${finding.line}\``
+    ),
+  ].join("\n");
+}
+
+// Helper to format line coverage as a percentage
+function formatCoverage({ lines }: FileCoverage): string {
+  return lines.total > 0
+    ? `${((lines.covered / lines.total) * 100).toFixed(1)}%`
+    : "n/a";
+}
+
+// Helper to format the change of line coverage between two reports
+function formatCoverageDelta(before: FileCoverage, after: FileCoverage) {
+  if (before.lines.total === 0 || after.lines.total === 0) {
+    return "n/a";
+  }
+  const delta =
+    (after.lines.covered / after.lines.total -
+      before.lines.covered / before.lines.total) *
+    100;
+  return `${delta >= 0 ? "+" : ""}${delta.toFixed(1)}%`;
+}
+
+/**
+ * Generates the Testing Done checkboxes and test overview: the tests changed
+ * with the code, source files changed without tests, and the line coverage
+ * of the changed files when a coverage report is available
+ *
+ * @param report Changed tests matched to changed source files
+ * @param parsedDiff The parsed diff, for the coverage of added lines
+ * @param coverage Report of the working tree and optional baseline report
+ * @returns Formatted markdown for the Testing Done section
+ */
+export function generateTestingDone(
+  report: TestReport,
+  parsedDiff: ParsedDiff,
+  coverage: { current?: CoverageReport; baseline?: CoverageReport } = {}
+): string {
+  const has = (kind: string) => report.tests.some((test) => test.kind === kind);
+  const lines = [
+    `- [${has("unit") ? "x" : " "}] Unit Tests`,
+    `- [${has("integration") ? "x" : " "}] Integration Tests`,
+    "- [ ] Manual Testing",
+  ];
+
+  if (report.tested.length > 0) {
+    lines.push("", "**Tests changed with the code:**");
+    for (const { path, tests } of report.tested) {
+      lines.push(
+        `- \`${path}\`: ${tests.map((test) => `\`${test}\``).join(", ")}`
+      );
+    }
+  }
+  const otherTests = report.tests.filter((test) => test.sources.length === 0);
+  if (otherTests.length > 0) {
+    lines.push(
+      "",
+      `**Other test changes:** ${otherTests
+        .map((test) => `\`${test.path}\``)
+        .join(", ")}`
+    );
+  }
+  if (report.untested.length > 0) {
+    lines.push("", "**⚠️ Source files changed without test changes:**");
+    lines.push(...report.untested.map((path) => `- \`${path}\``));
+  }
+
+  const { current, baseline } = coverage;
+  const sources = [
+    ...report.tested.map(({ path }) => path),
+    ...report.untested,
+  ].filter((path) => current?.files[path]);
+  if (!current || sources.length === 0) {
+    return lines.join("\n");
+  }
+
+  // Coverage of the added lines needs line hits, which summaries lack
+  const withHits = sources.some((path) => current.files[path].hits);
+  lines.push(
+    "",
+    `**Coverage** from \`${current.path}\`${
+      baseline ? ` compared to \`${baseline.path}\`` : ""
+    }:`,
+    "",
+    `| File | Lines |${baseline ? " Change |" : ""}${
+      withHits ? " Added lines covered |" : ""
+    }`,
+    `| --- | ---: |${baseline ? " ---: |" : ""}${withHits ? " ---: |" : ""}`
+  );
+  for (const path of sources) {
+    const after = current.files[path];
+    const before = baseline?.files[path];
+    const cells = [`\`${path}\``, formatCoverage(after)];
+    if (baseline) {
+      cells.push(before ? formatCoverageDelta(before, after) : "new");
+    }
+    if (withHits) {
+      const file = parsedDiff.files.find((changed) => changed.path === path);
+      const added = (file ? getAddedLines(file) : [])
+        .map(({ newLineNumber }) => newLineNumber!)
+        .filter((number) => after.hits?.[number] !== undefined);
+      cells.push(
+        added.length > 0
+          ? `${added.filter((number) => after.hits![number] > 0).length}/${
+              added.length
+            }`
+          : "n/a"
+      );
+    }
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+  const missing =
+    report.tested.length + report.untested.length - sources.length;
+  if (missing > 0) {
+    lines.push(
+      "",
+      `_${missing} changed source file${
+        missing !== 1 ? "s are" : " is"
+      } not in the coverage report_`
+    );
+  }
+  return lines.join("\n");
+}
+
+// Width of the longest bar in the change statistics chart
+const CHART_WIDTH = 30;
+// Rows of the directory and language tables before the rest is summed up
+const MAX_ROLLUP_ROWS = 10;
+
+// Helper to render a rollup as a table, summing up the smallest groups
+function formatRollupTable(title: string, rollups: StatsRollup[]): string {
+  const rows = rollups.slice(0, MAX_ROLLUP_ROWS);
+  const rest = rollups.slice(MAX_ROLLUP_ROWS);
+  if (rest.length > 0) {
+    rows.push({
+      name: `${rest.length} more`,
+      files: rest.reduce((total, item) => total + item.files, 0),
+      additions: rest.reduce((total, item) => total + item.additions, 0),
+      deletions: rest.reduce((total, item) => total + item.deletions, 0),
+    });
+  }
+  return [
+    `| ${title} | Files | Added | Deleted |`,
+    "| --- | ---: | ---: | ---: |",
+    ...rows.map(
+      (row, index) =>
+        `| ${index < MAX_ROLLUP_ROWS ? `\`${row.name}\`` : `_${row.name}_`} | ${
+          row.files
+        } | +${row.additions} | -${row.deletions} |`
+    ),
+  ].join("\n");
+}
+
+// Helper to draw the directories as bars of + and -, like git diff --stat
+function formatStatsChart(rollups: StatsRollup[]): string {
+  const rows = rollups.slice(0, MAX_ROLLUP_ROWS);
+  const widest = Math.max(...rows.map((row) => row.additions + row.deletions));
+  const nameWidth = Math.max(...rows.map((row) => row.name.length));
+  const countWidth = String(widest).length;
+  const lines = rows.map((row) => {
+    const churn = row.additions + row.deletions;
+    const scale = widest > CHART_WIDTH ? CHART_WIDTH / widest : 1;
+    // Any change gets at least one character
+    const plus =
+      row.additions > 0 ? Math.max(1, Math.round(row.additions * scale)) : 0;
+    const minus =
+      row.deletions > 0 ? Math.max(1, Math.round(row.deletions * scale)) : 0;
+    return `${row.name.padEnd(nameWidth)} | ${String(churn).padStart(
+      countWidth
+    )} ${"+".repeat(plus)}${"-".repeat(minus)}`;
+  });
+  return ["```", ...lines, "```"].join("\n");
+}
+
+/**
+ * Generates the change statistics section: totals, a bar chart and a table
+ * by top-level directory, a table by language, churn hotspots and the
+ * per-file counts
+ *
+ * @param stats Statistics from computeChangeStats
+ * @returns Formatted markdown for the Change Statistics section
+ */
+export function generateChangeStats(stats: ChangeStats): string {
+  const { totals } = stats;
+  const lines = [
+    `**${totals.files} file${totals.files !== 1 ? "s" : ""} changed, +${
+      totals.additions
+    } -${totals.deletions}**`,
+  ];
+  if (totals.files === 0) {
+    return lines.join("\n");
+  }
+
+  lines.push(
+    "",
+    formatStatsChart(stats.directories),
+    "",
+    formatRollupTable("Directory", stats.directories),
+    "",
+    formatRollupTable("Language", stats.languages)
+  );
+
+  if (stats.hotspots.length > 0) {
+    lines.push("", "**Churn hotspots:**");
+    for (const hotspot of stats.hotspots) {
+      lines.push(
+        `- \`${hotspot.path}\`: ${hotspot.churn} line${
+          hotspot.churn !== 1 ? "s" : ""
+        } changed (${Math.round(hotspot.share * 100)}% of the churn)`
+      );
+    }
+  }
+
+  lines.push(
+    "",
+    "<details>",
+    "<summary>Changes per file</summary>",
+    "",
+    "| File | Added | Deleted |",
+    "| --- | ---: | ---: |",
+    ...stats.files.map(
+      (file) =>
+        `| \`${file.path}\` | ${
+          file.binary
+            ? "binary | binary"
+            : `+${file.additions} | -${file.deletions}`
+        } |`
+    ),
+    "",
+    "</details>"
+  );
+  return lines.join("\n");
+}
+
+// Most files named per owner group or reviewer, the rest are counted
+const MAX_REVIEWER_FILES = 5;
+
+// Helper to list paths as code, e.g. "`a.ts`, `b.ts` and 3 more"
+function formatFileList(files: string[]): string {
+  const shown = files
+    .slice(0, MAX_REVIEWER_FILES)
+    .map((file) => `\`${file}\``)
+    .join(", ");
+  return files.length > MAX_REVIEWER_FILES
+    ? `${shown} and ${files.length - MAX_REVIEWER_FILES} more`
+    : shown;
+}
+
+/**
+ * Generates the suggested reviewers section: the code owners that must
+ * approve each group of changed files, and the people who wrote the
+ * changed lines or committed to the files recently
+ *
+ * @param report Report from suggestReviewers
+ * @returns Formatted markdown for the Suggested Reviewers section, empty
+ * when there are neither owners nor earlier authors
+ */
+export function generateSuggestedReviewers(report: ReviewerReport): string {
+  const lines: string[] = [];
+
+  if (report.codeownersPath && report.owners.length > 0) {
+    lines.push(
+      `**Code owners** (from \`${report.codeownersPath}\`), one approval needed per group:`,
+      "",
+      "| Owners | Files |",
+      "| --- | --- |",
+      ...report.owners.map(
+        (group) =>
+          `| ${
+            group.owners.length > 0 ? group.owners.join(" ") : "_No owner_"
+          } | ${formatFileList(group.files)} |`
+      )
+    );
+  }
+
+  if (report.suggested.length > 0) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+    lines.push("**Suggested from history:**");
+    for (const reviewer of report.suggested) {
+      const evidence: string[] = [];
+      if (reviewer.lines > 0) {
+        evidence.push(
+          `wrote ${reviewer.lines} of the changed line${
+            reviewer.lines !== 1 ? "s" : ""
+          }`
+        );
+      }
+      if (reviewer.commits > 0) {
+        evidence.push(
+          `${reviewer.commits} recent commit${
+            reviewer.commits !== 1 ? "s" : ""
+          }`
+        );
+      }
+      lines.push(
+        `- **${reviewer.name}**${
+          reviewer.email ? ` (${reviewer.email})` : ""
+        } — ${evidence.join(", ")} in ${formatFileList(reviewer.files)}`
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -1,95 +1,187 @@
 import getLanguageFromExtension from "./getLanguageFromExtension.js";
 import interpretFileChanges from "./interpretFileChanges.js";
+import interpretDependencyChanges from "./interpretDependencyChanges.js";
+import { getLanguageAnalyzer } from "./languageAnalyzers.js";
+import categorizeFile from "./categorizeFile.js";
+import matchesGlob from "./matchesGlob.js";
+import rankFiles from "./rankFiles.js";
+import type { FileRelevance, RankedFile } from "./rankFiles.js";
+import type { FileClass } from "./classifyFile.js";
+import type { GitattributesRule } from "./parseGitattributes.js";
+import computeChangeStats, { numstatFromDiff } from "./computeChangeStats.js";
+import type { ChangeStats } from "./computeChangeStats.js";
+import type { NumstatEntry } from "./parseNumstat.js";
+import { findDependents, groupByPackage } from "./detectWorkspaces.js";
+import type { Workspace, WorkspacePackage } from "./detectWorkspaces.js";
+import type { FileCategory } from "./categorizeFile.js";
+import type { FileSources } from "./compareExports.js";
+import type { DependencyReport } from "./analyzeDependencies.js";
+import { describeFile, getAddedLines } from "./parseDiff.js";
+import type { DiffFile, ParsedDiff } from "./parseDiff.js";
+
+// Paths left out of the logic analysis unless the project adds more
+export const DEFAULT_IGNORE_GLOBS = [
+  "**/node_modules/**",
+  "*.env",
+  "*.lock",
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "pnpm-lock.yaml",
+  "*.log",
+];
+
+// Where a change lives when it is not part of a commit yet
+export type WorkingTreeState = "staged" | "unstaged" | "untracked";
+
+// Helper to summarize the files left out of the detailed lists, e.g.
+// "and 12 more files: 8 generated, 4 vendored"
+function describeCollapsedFiles(collapsed: RankedFile[]): string {
+  const counts = new Map<FileRelevance, number>();
+  for (const { relevance } of collapsed) {
+    counts.set(relevance, (counts.get(relevance) || 0) + 1);
+  }
+  const kinds = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(
+      ([relevance, count]) =>
+        `${count} ${relevance === "formatting" ? "formatting-only" : relevance}`
+    );
+  return `- _…and ${collapsed.length} more file${
+    collapsed.length !== 1 ? "s" : ""
+  }: ${kinds.join(", ")}_`;
+}
+
+// Helper to describe the changed packages of a monorepo and the packages
+// that depend on them, e.g. "**Dependent packages:** `web` (via `ui`)"
+function describeAffectedPackages(
+  affected: WorkspacePackage[],
+  workspace: Workspace
+): string {
+  const lines = [
+    `**Affected packages:** ${affected
+      .map((item) => `\`${item.name}\``)
+      .join(", ")}`,
+  ];
+  const dependents = findDependents(
+    affected.map((item) => item.name),
+    workspace
+  );
+  if (dependents.length > 0) {
+    lines.push(
+      `**Dependent packages:** ${dependents
+        .map(({ name, via }) => `\`${name}\` (via \`${via}\`)`)
+        .join(", ")}`
+    );
+  }
+  return lines.join("\n");
+}
 
 // Enhanced function to process git diff and extract meaningful information
-export default function processDiffForPreview(diff: string): {
+export default function processDiffForPreview(
+  parsedDiff: ParsedDiff,
+  options: {
+    ignore?: string[];
+    // Files with changes that are not committed yet, and where they live
+    workingTreeStates?: Record<string, WorkingTreeState[]>;
+    // Contents before and after the change of JS/TS files, keyed by path
+    sources?: Record<string, FileSources>;
+    // Dependency changes of package.json files and lockfiles
+    dependencies?: DependencyReport;
+    // Rules from .gitattributes, marking generated and vendored files
+    gitattributes?: GitattributesRule[];
+    // Most files listed and analyzed, the least relevant are collapsed
+    maxFiles?: number;
+    // Line counts from git diff --numstat, counted from the diff otherwise
+    numstat?: NumstatEntry[];
+    // Packages of a monorepo, the lists are grouped by package when set
+    workspace?: Workspace;
+  } = {}
+): {
   changesSummary: string;
   mainLogicChanges: string;
+  fileCategories: Record<string, FileCategory>;
+  fileClasses: Record<string, FileClass>;
+  statistics: ChangeStats;
 } {
-  const lines = diff.split("\n");
-  const modifiedFiles = new Map<
-    string,
-    { added: string[]; removed: string[]; changes: string[] }
-  >();
-  let currentFile = "";
-  let currentFileType = "";
-  let inHunk = false;
-  let hunkHeader = "";
-
-  // Process the diff line by line
-  for (const line of lines) {
-    // Track file changes
-    if (line.startsWith("diff --git")) {
-      const match = line.match(/diff --git a\/(.*?) b\/(.*)/);
-      if (match) {
-        currentFile = match[1];
-        currentFileType = currentFile.split(".").pop() || "";
-        if (!modifiedFiles.has(currentFile)) {
-          modifiedFiles.set(currentFile, {
-            added: [],
-            removed: [],
-            changes: [],
-          });
-        }
-      }
-    }
-    // Track hunk headers for context
-    else if (line.startsWith("@@")) {
-      inHunk = true;
-      hunkHeader = line;
-      const fileData = modifiedFiles.get(currentFile);
-      if (fileData) {
-        fileData.changes.push(
-          `Changed section: ${hunkHeader
-            .replace(/@@\s-\d+,\d+\s\+\d+,\d+\s@@/, "")
-            .trim()}`
-        );
-      }
-    }
-    // Track added lines
-    else if (line.startsWith("+") && !line.startsWith("+++")) {
-      const content = line.substring(1).trim();
-      if (content && currentFile) {
-        const fileData = modifiedFiles.get(currentFile);
-        if (fileData) {
-          fileData.added.push(content);
+  const projectIgnore = options.ignore || [];
+  const ignore = [...DEFAULT_IGNORE_GLOBS, ...projectIgnore];
+  const modifiedFiles = new Map<string, DiffFile>();
+  for (const file of parsedDiff.files) {
+    modifiedFiles.set(file.path, file);
+  }
+
+  // The least relevant files beyond maxFiles are only counted
+  const ranked = rankFiles(parsedDiff, options.gitattributes);
+  const listed = new Map(
+    ranked
+      .slice(0, options.maxFiles ?? ranked.length)
+      .map((item) => [item.file.path, item])
+  );
+  const collapsed = ranked.filter((item) => !listed.has(item.file.path));
+
+  // Generate the summary of modified files, with the class of each
+  const summaryLines = new Map(
+    parsedDiff.files
+      .filter((file) => listed.has(file.path))
+      .map((file) => {
+        const { fileClass, relevance } = listed.get(file.path)!;
+        const labels = [
+          relevance === "formatting"
+            ? `${fileClass}, formatting only`
+            : fileClass,
+        ];
+        const states = options.workingTreeStates?.[file.path] || [];
+        if (states.length > 0) {
+          labels.push(`not yet committed: ${states.join(", ")}`);
         }
-      }
+        return [file.path, `- ${describeFile(file)} — _${labels.join("; ")}_`];
+      })
+  );
+
+  // Create a focused summary of main logic changes, one section per file
+  const logicSections = new Map<string, string>();
+  for (const [file, data] of modifiedFiles.entries()) {
+    const rankedFile = listed.get(file);
+    if (!rankedFile) {
+      continue;
     }
-    // Track removed lines
-    else if (line.startsWith("-") && !line.startsWith("---")) {
-      const content = line.substring(1).trim();
-      if (content && currentFile) {
-        const fileData = modifiedFiles.get(currentFile);
-        if (fileData) {
-          fileData.removed.push(content);
-        }
-      }
+    let mainLogicChanges = "";
+
+    // Lockfiles are skipped by default, but described when the dependency
+    // analysis read them
+    const dependencyChanges =
+      options.dependencies && !matchesGlob(file, projectIgnore)
+        ? interpretDependencyChanges(file, options.dependencies)
+        : undefined;
+    if (dependencyChanges) {
+      logicSections.set(file, `#### ${file}\n\n${dependencyChanges}\n\n`);
+      continue;
     }
-  }
 
-  // Generate the summary of modified files
-  const changesSummary = Array.from(modifiedFiles.keys())
-    .map((file) => `- \`${file}\``)
-    .join("\n");
+    // Skip generated, vendored, binary and minified files, node_modules,
+    // env files, lock files and project ignores
+    if (rankedFile.excluded || matchesGlob(file, ignore)) {
+      continue;
+    }
 
-  // Create a focused summary of main logic changes
-  let mainLogicChanges = "";
-  for (const [file, data] of modifiedFiles.entries()) {
-    const fileExt = file.split(".").pop() || "";
-
-    // Skip node_modules, env files, and lock files
-    if (
-      file.includes("node_modules") ||
-      file.endsWith(".env") ||
-      file.endsWith(".lock") ||
-      file.endsWith(".log")
-    ) {
+    // Code that could be parsed is described by its declarations, and
+    // languages with a symbol analyzer by the symbols it finds
+    const sources = options.sources?.[file];
+    const analyzer = getLanguageAnalyzer(
+      getLanguageFromExtension(file.split(".").pop() || "")
+    );
+    if (sources || analyzer?.findSymbols) {
+      logicSections.set(
+        file,
+        `#### ${file}\n\n${interpretFileChanges(data, sources)}\n`
+      );
       continue;
     }
 
     // Focus on business logic changes, excluding imports and env values
-    const logicRelatedChanges = data.added.filter((line) => {
+    const logicRelatedChanges = getAddedLines(data).filter(({ content }) => {
+      const line = content.trim();
+
       // Skip imports
       if (
         line.trim().startsWith("import ") ||
@@ -138,75 +230,122 @@ export default function processDiffForPreview(diff: string): {
         fileAnalysis.includes("Example changes:")
       ) {
         const exampleChanges = logicRelatedChanges
-          .filter((change) => change.trim().length > 0)
+          .filter((change) => change.content.trim().length > 0)
           .slice(0, 2);
 
         if (exampleChanges.length > 0) {
           exampleChanges.forEach((change) => {
             // Clean up the line for better readability
-            const cleanedChange = change
+            const cleanedChange = change.content
               .trim()
               .replace(/\s+/g, " ") // Normalize whitespace
               .replace(/;$/, ""); // Remove trailing semicolons
 
-            mainLogicChanges += `- \`${cleanedChange}\`\n`;
+            mainLogicChanges += `- \`${cleanedChange}\` (L${change.newLineNumber})\n`;
           });
           mainLogicChanges += "\n";
         }
       }
+      logicSections.set(file, mainLogicChanges);
+    }
+  }
+
+  // In a monorepo both lists are grouped by package
+  const workspace = options.workspace;
+  const groups: { package?: WorkspacePackage; paths: string[] }[] = workspace
+    ? groupByPackage([...summaryLines.keys()], workspace)
+    : [{ paths: [...summaryLines.keys()] }];
+  const affected = groups.flatMap((group) =>
+    group.package ? [group.package] : []
+  );
+
+  const summaryParts = groups.map((group) => {
+    const lines = group.paths.map((path) => summaryLines.get(path)!);
+    if (!workspace) {
+      return lines.join("\n");
     }
+    const heading = group.package
+      ? `**📦 \`${group.package.name}\`** (\`${group.package.path}\`)`
+      : "**Repository root**";
+    return [heading, ...lines].join("\n");
+  });
+  if (workspace && affected.length > 0) {
+    summaryParts.unshift(describeAffectedPackages(affected, workspace));
   }
+  if (collapsed.length > 0) {
+    summaryParts.push(describeCollapsedFiles(collapsed));
+  }
+  const changesSummary = summaryParts
+    .filter(Boolean)
+    .join(workspace ? "\n\n" : "\n");
+
+  let mainLogicChanges = groups
+    .map((group) => {
+      const sections = group.paths
+        .map((path) => logicSections.get(path) || "")
+        .join("");
+      if (!workspace || !sections) {
+        return sections;
+      }
+      const heading = group.package
+        ? `### 📦 \`${group.package.name}\` (\`${group.package.path}\`)`
+        : "### Repository root";
+      return `${heading}\n\n${sections}`;
+    })
+    .join("");
 
   if (!mainLogicChanges) {
     mainLogicChanges = "No significant business logic changes detected.\n";
   }
 
   // Generate statistics
-  const filesCount = modifiedFiles.size;
-  let additionsCount = 0;
-  let deletionsCount = 0;
+  const statistics = computeChangeStats(
+    options.numstat || numstatFromDiff(parsedDiff)
+  );
 
-  for (const data of modifiedFiles.values()) {
-    additionsCount += data.added.length;
-    deletionsCount += data.removed.length;
+  const fileCategories: Record<string, FileCategory> = {};
+  for (const file of modifiedFiles.keys()) {
+    fileCategories[file] = categorizeFile(file);
   }
 
   return {
     changesSummary,
     mainLogicChanges,
+    fileCategories,
+    fileClasses: Object.fromEntries(
+      ranked.map(({ file, fileClass }) => [file.path, fileClass])
+    ),
+    statistics,
   };
 }
 
 // Helper function to analyze file changes and provide meaningful context
-function analyzeFileChanges(
-  file: string,
-  data: { added: string[]; removed: string[]; changes: string[] }
-): string {
-  const fileExt = file.split(".").pop() || "";
+function analyzeFileChanges(file: string, data: DiffFile): string {
   let analysis = "";
+  const added = getAddedLines(data).map((line) => line.content.trim());
 
   // Count meaningful patterns
-  const functionChanges = data.added.filter(
+  const functionChanges = added.filter(
     (line) => line.includes("function") && line.includes("(")
   ).length;
-  const componentChanges = data.added.filter(
+  const componentChanges = added.filter(
     (line) =>
       line.includes("component") ||
       (line.includes("return") && line.includes("<") && line.includes(">"))
   ).length;
-  const apiChanges = data.added.filter(
+  const apiChanges = added.filter(
     (line) =>
       line.includes("api.") ||
       line.includes("endpoint") ||
       line.includes("route")
   ).length;
-  const dataModelChanges = data.added.filter(
+  const dataModelChanges = added.filter(
     (line) =>
       line.includes("schema") ||
       line.includes("model") ||
       line.includes("interface ")
   ).length;
-  const stateChanges = data.added.filter(
+  const stateChanges = added.filter(
     (line) =>
       line.includes("useState") ||
       line.includes("useReducer") ||
@@ -214,20 +353,19 @@ function analyzeFileChanges(
   ).length;
 
   // Determine the main purpose of the changes
-  if (fileExt === "tsx" || fileExt === "jsx" || file.includes("component")) {
+  const category = categorizeFile(file);
+  if (category === "ui") {
     if (componentChanges > 0) {
       analysis += `**UI Component Changes**: Modified UI structure or component logic`;
 
       // Check for specific UI patterns
       if (
-        data.added.some(
-          (line) => line.includes("flex") || line.includes("grid")
-        )
+        added.some((line) => line.includes("flex") || line.includes("grid"))
       ) {
         analysis += ` with layout adjustments`;
       }
       if (
-        data.added.some(
+        added.some(
           (line) => line.includes("onClick") || line.includes("onChange")
         )
       ) {
@@ -241,7 +379,7 @@ function analyzeFileChanges(
 
       analysis += `Example changes:`;
     }
-  } else if (fileExt === "ts" || fileExt === "js") {
+  } else if (category === "code") {
     if (functionChanges > 0) {
       if (apiChanges > 0) {
         analysis += `**API Logic Changes**: Modified API endpoints or request handling`;
@@ -250,9 +388,7 @@ function analyzeFileChanges(
       } else {
         analysis += `**Business Logic Changes**: Updated core functionality`;
         if (
-          data.added.some(
-            (line) => line.includes("async") || line.includes("await")
-          )
+          added.some((line) => line.includes("async") || line.includes("await"))
         ) {
           analysis += ` with asynchronous operations`;
         }
@@ -263,19 +399,19 @@ function analyzeFileChanges(
       analysis += `**Data Model Changes**: Updated data structures or interfaces.\n\n`;
       analysis += `Example changes:`;
     }
-  } else if (fileExt === "css" || fileExt === "scss") {
+  } else if (category === "styling") {
     analysis += `**Styling Changes**: Updated visual appearance or layout.\n\n`;
-  } else if (fileExt === "json") {
+  } else if (category === "configuration") {
     analysis += `**Configuration Changes**: Updated project settings or dependencies.\n\n`;
-  } else if (fileExt === "md") {
+  } else if (category === "documentation") {
     analysis += `**Documentation Changes**: Updated project documentation.\n\n`;
   }
 
   // If we couldn't determine a specific pattern
   if (!analysis) {
-    analysis = `**Code Changes**: Made ${data.added.length} additions and ${data.removed.length} removals.\n\n`;
+    analysis = `**Code Changes**: Made ${data.additions} additions and ${data.deletions} removals.\n\n`;
 
-    if (data.added.length > 0) {
+    if (data.additions > 0) {
       analysis += `Example changes:`;
     }
   }
@@ -0,0 +1,89 @@
+import classifyFile, { EXCLUDED_FILE_CLASSES } from "./classifyFile.js";
+import type { FileClass } from "./classifyFile.js";
+import type { GitattributesRule } from "./parseGitattributes.js";
+import type { DiffFile, ParsedDiff } from "./parseDiff.js";
+
+// Why a file ranks where it does: its class, or "formatting" for code
+// where only whitespace changed
+export type FileRelevance = FileClass | "formatting";
+
+export interface RankedFile {
+  file: DiffFile;
+  fileClass: FileClass;
+  relevance: FileRelevance;
+  // Higher is more relevant
+  score: number;
+  // Generated, vendored, binary or minified, never analyzed in detail
+  excluded: boolean;
+}
+
+const RELEVANCE_WEIGHTS: Record<FileRelevance, number> = {
+  source: 1000,
+  test: 600,
+  config: 400,
+  docs: 300,
+  other: 300,
+  formatting: 100,
+  minified: 60,
+  generated: 50,
+  binary: 40,
+  vendored: 0,
+};
+
+// Helper to tell whether a change only moved whitespace around: the same
+// lines were removed and added once whitespace is ignored
+function isFormattingOnly(file: DiffFile): boolean {
+  if (file.status !== "modified" || file.additions === 0) {
+    return false;
+  }
+  const normalize = (content: string) => content.replace(/\s+/g, "");
+  const counts = new Map<string, number>();
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === "context") {
+        continue;
+      }
+      const content = normalize(line.content);
+      if (!content) {
+        continue;
+      }
+      const delta = line.type === "added" ? 1 : -1;
+      counts.set(content, (counts.get(content) || 0) + delta);
+    }
+  }
+  return [...counts.values()].every((count) => count === 0);
+}
+
+/**
+ * Ranks the changed files by how much they tell a reviewer: source code
+ * before tests, configuration and docs, and formatting-only, generated and
+ * vendored files last. Within the same relevance, bigger changes rank
+ * higher. Files classified as generated, vendored, binary or minified are
+ * flagged as excluded.
+ *
+ * @param parsedDiff The parsed diff between base and head
+ * @param rules Rules parsed from the repository's `.gitattributes`
+ * @returns The files, most relevant first
+ */
+export default function rankFiles(
+  parsedDiff: ParsedDiff,
+  rules: GitattributesRule[] = []
+): RankedFile[] {
+  return parsedDiff.files
+    .map((file) => {
+      const fileClass = classifyFile(file, rules);
+      const excluded = EXCLUDED_FILE_CLASSES.includes(fileClass);
+      const relevance: FileRelevance =
+        !excluded && isFormattingOnly(file) ? "formatting" : fileClass;
+      // Logarithmic, so a big change never outranks a more relevant kind
+      const size = Math.log2(1 + file.additions + file.deletions);
+      return {
+        file,
+        fileClass,
+        relevance,
+        score: RELEVANCE_WEIGHTS[relevance] + Math.min(size * 10, 99),
+        excluded,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,230 @@
+import matchesGlob from "./matchesGlob.js";
+import type { ParsedDiff } from "./parseDiff.js";
+
+export interface SecretFinding {
+  // What the value looks like, e.g. "AWS access key ID"
+  kind: string;
+  path: string;
+  // Line in the new file
+  line: number;
+  // The matched values, more than one for multi-line private keys
+  secrets: string[];
+}
+
+export interface SecretScanOptions {
+  // Globs of files that are not scanned, e.g. test fixtures
+  excludePaths?: string[];
+  // Regular expressions of values that are known not to be secrets
+  allow?: string[];
+}
+
+interface SecretPattern {
+  kind: string;
+  // The first group is the secret, the rest of the match is context
+  pattern: RegExp;
+}
+
+// Token formats that are secrets wherever they appear
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    kind: "AWS access key ID",
+    pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16})\b/g,
+  },
+  {
+    kind: "AWS secret access key",
+    pattern:
+      /aws[\w.-]*(?:secret|sk)[\w.-]*["']?\s*[:=]{1,2}>?\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+  },
+  { kind: "GitHub token", pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,255})\b/g },
+  { kind: "GitHub token", pattern: /\b(github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { kind: "Slack token", pattern: /\b(xox[abprse]-[A-Za-z0-9-]{10,})\b/g },
+  {
+    kind: "Slack webhook URL",
+    pattern: /(https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/_-]+)/g,
+  },
+  {
+    kind: "JSON Web Token",
+    pattern:
+      /\b(eyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,})/g,
+  },
+  {
+    kind: "Private key",
+    pattern:
+      /(-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[^"'`\n]*)/g,
+  },
+];
+
+// A literal assigned to a name that suggests a credential
+const SECRET_ASSIGNMENT =
+  /([\w.-]*(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|apikey|access[_-]?key|auth[_-]?key|credential|private[_-]?key)[\w.-]*)["']?\s*(?:[:=]{1,2}>?|=>)\s*["'`]([^"'`\s]{8,})["'`]/gi;
+// A long quoted string mixing letters and digits, e.g. an unlabelled key
+const QUOTED_STRING = /["'`]([A-Za-z0-9+/_=-]{32,})["'`]/g;
+// Values that are obviously not real credentials
+const PLACEHOLDER =
+  /^(?:x+|\*+|\.+)$|\$\{|\{\{|<[^>]+>|changeme|change-me|example|placeholder|dummy|your[_-]|redacted|xxxx/i;
+
+// Files whose long strings are hashes, not credentials
+const SKIPPED_FILES = [
+  "**/package-lock.json",
+  "**/npm-shrinkwrap.json",
+  "**/yarn.lock",
+  "**/pnpm-lock.yaml",
+  "**/*.lock",
+  "**/go.sum",
+  "**/*.min.js",
+  "**/*.map",
+  "**/*.svg",
+];
+
+const ASSIGNMENT_ENTROPY = 3;
+const STRING_ENTROPY = 4.5;
+
+// Helper to measure the Shannon entropy of a string in bits per character
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+// Helper to find the secrets in one added line
+function scanLine(content: string): { kind: string; secret: string }[] {
+  const found: { kind: string; secret: string }[] = [];
+  const seen = (secret: string) =>
+    found.some((item) => item.secret.includes(secret));
+
+  for (const { kind, pattern } of SECRET_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      if (!seen(match[1])) {
+        found.push({ kind, secret: match[1] });
+      }
+    }
+  }
+
+  for (const match of content.matchAll(SECRET_ASSIGNMENT)) {
+    const [, name, value] = match;
+    if (
+      !seen(value) &&
+      !PLACEHOLDER.test(value) &&
+      shannonEntropy(value) >= ASSIGNMENT_ENTROPY
+    ) {
+      found.push({ kind: `Hard-coded secret (\`${name}\`)`, secret: value });
+    }
+  }
+
+  for (const match of content.matchAll(QUOTED_STRING)) {
+    const value = match[1];
+    if (
+      !seen(value) &&
+      /[a-z]/.test(value) &&
+      /[A-Z]/.test(value) &&
+      /\d/.test(value) &&
+      !/^sha\d+-/.test(value) &&
+      shannonEntropy(value) >= STRING_ENTROPY
+    ) {
+      found.push({ kind: "High-entropy string", secret: value });
+    }
+  }
+  return found;
+}
+
+/**
+ * Scans the added lines of a diff for credentials: known token formats
+ * (AWS, GitHub, Slack, private keys, JWTs), literals assigned to names like
+ * `password` or `apiKey`, and long random-looking strings
+ *
+ * @param parsedDiff The parsed diff between base and head
+ * @param options Files to skip and values known to be safe
+ * @returns The potential secrets with where they were added
+ */
+export default function scanSecrets(
+  parsedDiff: ParsedDiff,
+  options: SecretScanOptions = {}
+): SecretFinding[] {
+  const allowed = (options.allow || []).map((pattern) => new RegExp(pattern));
+  const findings: SecretFinding[] = [];
+
+  for (const file of parsedDiff.files) {
+    if (
+      file.binary ||
+      matchesGlob(file.path, [
+        ...SKIPPED_FILES,
+        ...(options.excludePaths || []),
+      ])
+    ) {
+      continue;
+    }
+
+    // The lines of a private key after its BEGIN line
+    let privateKey: SecretFinding | undefined;
+    for (const hunk of file.hunks) {
+      for (const line of hunk.lines) {
+        if (line.type !== "added" || !line.newLineNumber) {
+          privateKey = undefined;
+          continue;
+        }
+        const content = line.content.trim();
+        if (privateKey) {
+          if (content) {
+            privateKey.secrets.push(content);
+          }
+          if (/-----END [A-Z0-9 ]*PRIVATE KEY/.test(content)) {
+            privateKey = undefined;
+          }
+          continue;
+        }
+
+        for (const { kind, secret } of scanLine(line.content)) {
+          if (allowed.some((pattern) => pattern.test(secret))) {
+            continue;
+          }
+          const finding = {
+            kind,
+            path: file.path,
+            line: line.newLineNumber,
+            secrets: [secret],
+          };
+          findings.push(finding);
+          if (kind === "Private key") {
+            privateKey = finding;
+          }
+        }
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Replaces secrets in generated text with `[REDACTED]`: the values found
+ * by scanSecrets, and anything else in a known token format, such as a
+ * token pasted into a commit message
+ *
+ * @param text The text to clean up
+ * @param findings Secrets found in the diff
+ * @returns The text without the secrets
+ */
+export function redactSecrets(
+  text: string,
+  findings: SecretFinding[] = []
+): string {
+  const secrets = findings
+    .flatMap((finding) => finding.secrets)
+    .sort((a, b) => b.length - a.length);
+  let redacted = text;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join("[REDACTED]");
+  }
+  for (const { pattern } of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, (match, secret: string) =>
+      match.replace(secret, "[REDACTED]")
+    );
+  }
+  return redacted;
+}
@@ -0,0 +1,67 @@
+// Rough size of a token in English text and code, used for estimates only
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates how many tokens a text takes up in a model's context
+ *
+ * @param text The text to measure
+ * @returns The approximate token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Helper to cut a section that is too big on its own into lines, and lines
+// that are too big into slices
+function splitSection(section: string, maxChars: number): string[] {
+  return section.split("\n").flatMap((line) => {
+    const slices: string[] = [];
+    for (let start = 0; start < line.length; start += maxChars) {
+      slices.push(line.substring(start, start + maxChars));
+    }
+    return slices.length > 0 ? slices : [line];
+  });
+}
+
+/**
+ * Splits a markdown document into chunks that each fit a token budget
+ *
+ * Chunks break before headings where possible, so a section stays in one
+ * piece unless it is bigger than the budget by itself. Joining the chunks
+ * with newlines gives back the document, apart from lines longer than a
+ * whole chunk, which are cut.
+ *
+ * @param content The markdown document
+ * @param maxTokens Budget of each chunk
+ * @returns The chunks, a single one when the document fits
+ */
+export default function splitIntoChunks(
+  content: string,
+  maxTokens: number
+): string[] {
+  const maxChars = Math.max(1, maxTokens * CHARS_PER_TOKEN);
+  if (content.length <= maxChars) {
+    return [content];
+  }
+
+  const pieces = content
+    .split(/\n(?=#{1,4} )/)
+    .flatMap((section) =>
+      section.length <= maxChars ? [section] : splitSection(section, maxChars)
+    );
+
+  const chunks: string[] = [];
+  let current: string | undefined;
+  for (const piece of pieces) {
+    if (current !== undefined && current.length + 1 + piece.length > maxChars) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current === undefined ? piece : `${current}\n${piece}`;
+    }
+  }
+  if (current !== undefined) {
+    chunks.push(current);
+  }
+  return chunks;
+}
@@ -0,0 +1,228 @@
+import { ownersFor } from "./parseCodeowners.js";
+import type { CodeownersRule } from "./parseCodeowners.js";
+import type { DiffFile } from "./parseDiff.js";
+
+export interface Author {
+  name: string;
+  email: string;
+}
+
+// Who wrote the changed lines of a file before the change (`git blame`)
+export interface BlameEvidence {
+  path: string;
+  authors: (Author & { lines: number })[];
+}
+
+// Who committed to a file recently (`git log`), with the hashes of their
+// commits so a commit touching several files counts once
+export interface HistoryEvidence {
+  path: string;
+  authors: (Author & { commits: string[] })[];
+}
+
+export interface OwnerGroup {
+  // Empty for the files no CODEOWNERS rule assigns
+  owners: string[];
+  files: string[];
+}
+
+export interface SuggestedReviewer extends Author {
+  // Changed lines they wrote last
+  lines: number;
+  // Recent commits to the changed files
+  commits: number;
+  files: string[];
+}
+
+export interface ReviewerReport {
+  // Path of the CODEOWNERS file, when the repository has one
+  codeownersPath?: string;
+  owners: OwnerGroup[];
+  suggested: SuggestedReviewer[];
+}
+
+const MAX_SUGGESTED_REVIEWERS = 5;
+// A recent commit to a changed file counts like this many blamed lines
+const COMMIT_WEIGHT = 5;
+
+// Helper to recognize the same person across name and email spellings
+function authorKey(author: Author): string {
+  return (author.email || author.name).toLowerCase();
+}
+
+/**
+ * Parses `git blame --line-porcelain` output into line counts per author
+ *
+ * @param output Raw blame output
+ * @returns Authors with the number of lines they wrote, most lines first
+ */
+export function parseBlame(output: string): (Author & { lines: number })[] {
+  const authors = new Map<string, Author & { lines: number }>();
+  let name = "";
+  for (const line of output.split("\n")) {
+    if (line.startsWith("author ")) {
+      name = line.substring("author ".length);
+    } else if (line.startsWith("author-mail ")) {
+      const email = line.substring("author-mail ".length).replace(/^<|>$/g, "");
+      const key = authorKey({ name, email });
+      const author = authors.get(key) || { name, email, lines: 0 };
+      author.lines++;
+      authors.set(key, author);
+    }
+  }
+  return [...authors.values()].sort((a, b) => b.lines - a.lines);
+}
+
+/**
+ * Finds the lines of the old version of a file worth blaming: the removed
+ * lines, or for hunks that only add lines the context around them
+ *
+ * @param file A changed file of a parsed diff
+ * @returns Inclusive line ranges in the old version
+ */
+export function changedLineRanges(file: DiffFile): [number, number][] {
+  const lineNumbers = file.hunks
+    .flatMap((hunk) => {
+      const removed = hunk.lines.filter((line) => line.type === "removed");
+      return removed.length > 0
+        ? removed
+        : hunk.lines.filter((line) => line.type === "context");
+    })
+    .map((line) => line.oldLineNumber!)
+    .sort((a, b) => a - b);
+  const ranges: [number, number][] = [];
+  for (const lineNumber of lineNumbers) {
+    const last = ranges[ranges.length - 1];
+    if (last && lineNumber <= last[1] + 1) {
+      last[1] = Math.max(last[1], lineNumber);
+    } else {
+      ranges.push([lineNumber, lineNumber]);
+    }
+  }
+  return ranges;
+}
+
+// Format string to pass to `git log --format=` for parseAuthorLog
+export const AUTHOR_LOG_FORMAT = "%H%x1f%an%x1f%ae";
+
+/**
+ * Parses `git log` output in AUTHOR_LOG_FORMAT into the commits per author
+ *
+ * @param output Raw log output, one commit per line
+ * @returns Authors with the hashes of their commits, most commits first
+ */
+export function parseAuthorLog(
+  output: string
+): (Author & { commits: string[] })[] {
+  const authors = new Map<string, Author & { commits: string[] }>();
+  for (const line of output.split("\n")) {
+    const [hash, name, email] = line.split("\x1f");
+    if (!hash || !name || email === undefined) {
+      continue;
+    }
+    const key = authorKey({ name, email });
+    const author = authors.get(key) || { name, email, commits: [] };
+    author.commits.push(hash);
+    authors.set(key, author);
+  }
+  return [...authors.values()].sort(
+    (a, b) => b.commits.length - a.commits.length
+  );
+}
+
+/**
+ * Lists the owners that must approve each group of changed files, and
+ * suggests reviewers from who wrote the changed lines and who committed to
+ * the files recently
+ *
+ * @param paths Repository-relative paths of the changed files
+ * @param evidence CODEOWNERS rules plus blame and history of the files
+ * @param exclude Authors of the change itself, never suggested
+ * @returns The owner groups and suggested reviewers
+ */
+export default function suggestReviewers(
+  paths: string[],
+  evidence: {
+    codeowners?: { path: string; rules: CodeownersRule[] };
+    blame?: BlameEvidence[];
+    history?: HistoryEvidence[];
+  },
+  exclude: Author[] = []
+): ReviewerReport {
+  // Files owned by the same set of owners form a group
+  const groups = new Map<string, OwnerGroup>();
+  if (evidence.codeowners) {
+    for (const path of paths) {
+      const owners = ownersFor(path, evidence.codeowners.rules);
+      const key = owners.join(" ");
+      const group = groups.get(key) || { owners, files: [] };
+      group.files.push(path);
+      groups.set(key, group);
+    }
+  }
+
+  const excluded = new Set(
+    exclude
+      .flatMap((author) => [author.email, author.name])
+      .filter(Boolean)
+      .map((value) => value.toLowerCase())
+  );
+  const candidates = new Map<string, SuggestedReviewer>();
+  // Distinct commits per candidate, one commit often touches several files
+  const commits = new Map<SuggestedReviewer, Set<string>>();
+  const candidate = (path: string, author: Author) => {
+    const key = authorKey(author);
+    if (
+      excluded.has(author.email.toLowerCase()) ||
+      excluded.has(author.name.toLowerCase())
+    ) {
+      return undefined;
+    }
+    const reviewer = candidates.get(key) || {
+      name: author.name,
+      email: author.email,
+      lines: 0,
+      commits: 0,
+      files: [],
+    };
+    if (!reviewer.files.includes(path)) {
+      reviewer.files.push(path);
+    }
+    candidates.set(key, reviewer);
+    return reviewer;
+  };
+  for (const { path, authors } of evidence.blame || []) {
+    for (const author of authors) {
+      const reviewer = candidate(path, author);
+      if (reviewer) {
+        reviewer.lines += author.lines;
+      }
+    }
+  }
+  for (const { path, authors } of evidence.history || []) {
+    for (const author of authors) {
+      const reviewer = candidate(path, author);
+      if (reviewer) {
+        const hashes = commits.get(reviewer) || new Set<string>();
+        author.commits.forEach((hash) => hashes.add(hash));
+        commits.set(reviewer, hashes);
+        reviewer.commits = hashes.size;
+      }
+    }
+  }
+
+  const score = (reviewer: SuggestedReviewer) =>
+    reviewer.lines + reviewer.commits * COMMIT_WEIGHT;
+  return {
+    codeownersPath: evidence.codeowners?.path,
+    // Owned groups first, the unowned files last
+    owners: [...groups.values()].sort(
+      (a, b) =>
+        Number(a.owners.length === 0) - Number(b.owners.length === 0) ||
+        b.files.length - a.files.length
+    ),
+    suggested: [...candidates.values()]
+      .sort((a, b) => score(b) - score(a) || a.name.localeCompare(b.name))
+      .slice(0, MAX_SUGGESTED_REVIEWERS),
+  };
+}
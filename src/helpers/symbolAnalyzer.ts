@@ -0,0 +1,334 @@
+import interpretGenericChanges from "./interpretGenericChanges.js";
+import { formatLineRanges } from "./parseDiff.js";
+import type { DiffFile, DiffLine } from "./parseDiff.js";
+import type { LanguageAnalyzer } from "./languageAnalyzers.js";
+
+export interface SymbolMatch {
+  // What was declared, e.g. "function", "class" or "CREATE TABLE"
+  kind: string;
+  name: string;
+  // Declarations below this one and indented deeper are its members
+  container?: boolean;
+  // Name members are qualified with, when not the symbol name itself,
+  // e.g. "Foo" for `impl Display for Foo`
+  scope?: string;
+  // Type the declaration belongs to although it is not nested in it,
+  // e.g. the receiver of a Go method
+  owner?: string;
+}
+
+export interface SymbolGrammar {
+  // Recognizes a declaration in one line of code
+  matchDeclaration(line: string): SymbolMatch | undefined;
+  // Recognizes a line annotating the next declaration, returning a short
+  // name such as "@app.route" for Python decorators
+  matchAnnotation?(line: string): string | undefined;
+  // Joins a container and a member name, "." by default
+  separator?: string;
+}
+
+export interface SymbolChange {
+  kind: string;
+  // Name qualified with its container, e.g. "Server.start"
+  name: string;
+  // "changed" when the declaration line itself changed, "modified" when
+  // only lines inside the symbol did
+  change: "added" | "removed" | "changed" | "modified";
+  // Declaration line, in the old file for removed symbols
+  line?: number;
+  // Later lines declaring the same symbol again, e.g. a second ALTER TABLE
+  // of one table or an overload
+  repeatedAt?: number[];
+  // Changed lines inside a modified symbol
+  lines: { side: "new" | "old"; numbers: number[] };
+  // Annotations of added symbols, or added and removed ones of others
+  annotations: string[];
+}
+
+interface OpenSymbol {
+  kind: string;
+  name: string;
+  indent: number;
+  container: boolean;
+  scope: string;
+}
+
+interface SideState {
+  // Declarations the current line is nested in, innermost last
+  open: OpenSymbol[];
+  // Annotations waiting for the declaration they belong to
+  annotations: { name: string; changed: boolean }[];
+}
+
+// A line that only closes a block, which belongs to the block before it
+// rather than to the declaration around it
+const CLOSING_LINE = /^\s*[}\])]+[;,]?\s*$/;
+
+// Helper to measure the indentation of a line, counting a tab as 4 spaces
+function indentOf(line: string): number {
+  const whitespace = line.match(/^[ \t]*/)![0];
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+/**
+ * Finds the symbols declared, removed or changed in a file by scanning its
+ * hunks with a line-based grammar
+ *
+ * Nesting is followed through indentation, starting from the enclosing
+ * declaration git prints in the hunk header, so a method is reported as
+ * `Class.method` and a changed line inside a function marks that function
+ * as modified.
+ *
+ * @param file The changed file
+ * @param grammar Declaration patterns of the file's language
+ * @returns Added and changed symbols, then removed and modified ones
+ */
+export function findSymbolChanges(
+  file: DiffFile,
+  grammar: SymbolGrammar
+): SymbolChange[] {
+  const separator = grammar.separator || ".";
+  const added = new Map<string, SymbolChange>();
+  const removed = new Map<string, SymbolChange>();
+  const modified = new Map<string, SymbolChange>();
+  const key = (kind: string, name: string) => `${kind} ${name}`;
+
+  // Helper to qualify a declaration with its owner or enclosing container
+  const qualify = (state: SideState, match: SymbolMatch) => {
+    const container = [...state.open]
+      .reverse()
+      .find((symbol) => symbol.container);
+    const owner = match.owner || container?.scope;
+    return {
+      kind: owner && match.kind === "function" ? "method" : match.kind,
+      name: owner ? `${owner}${separator}${match.name}` : match.name,
+    };
+  };
+
+  // Helper to record a change inside a symbol that is itself unchanged
+  const markModified = (
+    symbol: { kind: string; name: string },
+    side: "new" | "old",
+    number: number | undefined,
+    annotation?: string
+  ) => {
+    const id = key(symbol.kind, symbol.name);
+    const entry = modified.get(id) || {
+      ...symbol,
+      change: "modified" as const,
+      lines: { side, numbers: [] },
+      annotations: [],
+    };
+    // Lines of the new file are cited when there are any
+    if (entry.lines.side === "old" && side === "new") {
+      entry.lines = { side, numbers: [] };
+    }
+    if (entry.lines.side === side && number !== undefined) {
+      entry.lines.numbers.push(number);
+    }
+    if (annotation) {
+      entry.annotations.push(annotation);
+    }
+    modified.set(id, entry);
+  };
+
+  for (const hunk of file.hunks) {
+    const states: Record<"old" | "new", SideState> = {
+      old: { open: [], annotations: [] },
+      new: { open: [], annotations: [] },
+    };
+
+    // The hunk header names the declaration the hunk starts in
+    const section = hunk.section && grammar.matchDeclaration(hunk.section);
+    if (section) {
+      for (const state of Object.values(states)) {
+        state.open.push({
+          ...qualify(state, section),
+          indent: indentOf(hunk.section),
+          container: Boolean(section.container),
+          scope: section.scope || section.name,
+        });
+      }
+    }
+
+    for (const line of hunk.lines) {
+      if (!line.content.trim()) {
+        continue;
+      }
+      const sides: ("old" | "new")[] =
+        line.type === "context"
+          ? ["old", "new"]
+          : line.type === "removed"
+          ? ["old"]
+          : ["new"];
+      const indent = indentOf(line.content);
+      for (const side of sides) {
+        const open = states[side].open;
+        while (open.length > 0 && open[open.length - 1].indent >= indent) {
+          open.pop();
+        }
+      }
+
+      const annotation = grammar.matchAnnotation?.(line.content.trim());
+      if (annotation) {
+        for (const side of sides) {
+          states[side].annotations.push({
+            name: annotation,
+            changed: line.type !== "context",
+          });
+        }
+        continue;
+      }
+
+      const match = grammar.matchDeclaration(line.content);
+      if (!match) {
+        for (const side of sides) {
+          const state = states[side];
+          state.annotations = [];
+          const enclosing = state.open[state.open.length - 1];
+          if (
+            line.type !== "context" &&
+            enclosing &&
+            !CLOSING_LINE.test(line.content)
+          ) {
+            markModified(enclosing, side, lineNumber(line));
+          }
+        }
+        continue;
+      }
+
+      for (const side of sides) {
+        const state = states[side];
+        const symbol = qualify(state, match);
+        const annotations = state.annotations;
+        state.annotations = [];
+
+        if (line.type === "context") {
+          // A decorator or annotation added to an unchanged declaration
+          for (const { name } of annotations.filter(({ changed }) => changed)) {
+            markModified(symbol, side, undefined, name);
+          }
+        } else {
+          const changes = line.type === "added" ? added : removed;
+          const id = key(symbol.kind, symbol.name);
+          const previous = changes.get(id);
+          if (previous) {
+            // Statements such as ALTER TABLE repeat under the same name
+            previous.repeatedAt = [
+              ...(previous.repeatedAt || []),
+              lineNumber(line)!,
+            ];
+            previous.annotations.push(...annotations.map(({ name }) => name));
+          } else {
+            changes.set(id, {
+              ...symbol,
+              change: line.type === "added" ? "added" : "removed",
+              line: lineNumber(line),
+              lines: { side, numbers: [] },
+              annotations: annotations.map(({ name }) => name),
+            });
+          }
+        }
+
+        state.open.push({
+          ...symbol,
+          indent,
+          container: Boolean(match.container),
+          scope: match.scope || match.name,
+        });
+      }
+    }
+  }
+
+  const changes: SymbolChange[] = [];
+  for (const [id, symbol] of added) {
+    const previous = removed.get(id);
+    changes.push(previous ? { ...symbol, change: "changed" } : symbol);
+  }
+  for (const [id, symbol] of removed) {
+    if (!added.has(id)) {
+      changes.push(symbol);
+    }
+  }
+  for (const [id, symbol] of modified) {
+    if (!added.has(id) && !removed.has(id)) {
+      changes.push(symbol);
+    }
+  }
+  return changes;
+}
+
+// Helper to get the number of a line in the file it belongs to
+function lineNumber(line: DiffLine): number | undefined {
+  return line.type === "removed" ? line.oldLineNumber : line.newLineNumber;
+}
+
+// Helper to cite every line declaring a symbol, e.g. "L2, L5"
+function declarationLines(symbol: SymbolChange): string {
+  return formatLineRanges(
+    [symbol.line, ...(symbol.repeatedAt || [])].filter(
+      (number): number is number => number !== undefined
+    )
+  );
+}
+
+// Helper to list annotations in backticks
+function formatAnnotations(annotations: string[]): string {
+  return Array.from(new Set(annotations))
+    .map((annotation) => `\`${annotation}\``)
+    .join(", ");
+}
+
+// Helper to describe one changed symbol
+function describeSymbolChange(symbol: SymbolChange): string {
+  const name = `${symbol.kind} \`${symbol.name}\``;
+  const annotations =
+    symbol.annotations.length > 0
+      ? `, ${formatAnnotations(symbol.annotations)}`
+      : "";
+
+  switch (symbol.change) {
+    case "added":
+      return `- Added ${name} (${declarationLines(symbol)}${annotations}).\n`;
+    case "removed":
+      return `- Removed ${name} (old ${declarationLines(symbol)}).\n`;
+    case "changed":
+      return `- Changed the declaration of ${name} (${declarationLines(
+        symbol
+      )}${annotations}).\n`;
+    case "modified": {
+      const { side, numbers } = symbol.lines;
+      const where =
+        numbers.length > 0
+          ? `${side === "old" ? "old " : ""}${formatLineRanges(numbers)}`
+          : "";
+      const details = [
+        where,
+        symbol.annotations.length > 0
+          ? `annotations ${formatAnnotations(symbol.annotations)}`
+          : "",
+      ].filter(Boolean);
+      return `- Modified ${name}${
+        details.length > 0 ? ` (${details.join(", ")})` : ""
+      }.\n`;
+    }
+  }
+}
+
+/**
+ * Creates an analyzer that describes a file by the symbols it declares
+ *
+ * @param grammar Declaration patterns of the language
+ * @returns An analyzer listing added, removed and changed symbols
+ */
+export function createSymbolAnalyzer(grammar: SymbolGrammar): LanguageAnalyzer {
+  return {
+    findSymbols: (file) => findSymbolChanges(file, grammar),
+    describe(file) {
+      const changes = findSymbolChanges(file, grammar);
+      return changes.length > 0
+        ? changes.map(describeSymbolChange).join("")
+        : interpretGenericChanges(file);
+    },
+  };
+}
@@ -7,123 +7,1033 @@ import {
   ListToolsRequestSchema,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
-import { exec as execCallback } from "child_process";
-import { promisify } from "util";
-import { writeFile } from "fs/promises";
-import { processDiffForPreview } from "./helpers/index.js";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+import {
+  processDiffForPreview,
+  parseDiff,
+  parseCommitLog,
+  COMMIT_LOG_FORMAT,
+  comparePublicApi,
+  analyzeDependencies,
+  isScriptFile,
+  scanSecrets,
+  redactSecrets,
+  parseGitattributes,
+  splitIntoChunks,
+  parseNumstat,
+  computeChangeStats,
+  detectWorkspaces,
+  filterDiff,
+  findDependents,
+  groupByPackage,
+  rankFiles,
+  parseCodeowners,
+  CODEOWNERS_PATHS,
+  suggestReviewers,
+  AUTHOR_LOG_FORMAT,
+  changedLineRanges,
+  parseAuthorLog,
+  parseBlame,
+  isInsideDirectory,
+} from "./helpers/index.js";
+import type {
+  Author,
+  BlameEvidence,
+  ChangeStats,
+  CodeownersRule,
+  CommitInfo,
+  CoverageReport,
+  DependencyReport,
+  FileSources,
+  GitattributesRule,
+  HistoryEvidence,
+  NumstatEntry,
+  PublicApiReport,
+  ReviewerReport,
+  SecretFinding,
+  SourceReader,
+  WorkingTreeState,
+  Workspace,
+  WorkspacePackage,
+} from "./helpers/index.js";
 import {
   generatePRMarkdown,
+  generatePRMarkdownFromTemplate,
   generateFallbackPRMarkdown,
 } from "./templates/pr-template.js";
-
-// Promisify exec for better async handling
-const exec = promisify(execCallback);
+import loadRepoTemplate, {
+  listRepoTemplates,
+} from "./templates/loadRepoTemplate.js";
+import type { RepoTemplate } from "./templates/loadRepoTemplate.js";
+import { extractSections, mergePRBody } from "./templates/sectionAnchors.js";
+import loadCoverage from "./reports/loadCoverage.js";
+import loadProjectConfig, {
+  MIN_OUTPUT_TOKENS,
+  OUTPUT_MODES,
+} from "./config/projectConfig.js";
+import { GitClient } from "./git/GitClient.js";
+import type { FileRevision } from "./git/GitClient.js";
+import createForgeProvider from "./forge/createForgeProvider.js";
+import type {
+  CreatedPullRequest,
+  ForgeProvider,
+} from "./forge/ForgeProvider.js";
+import {
+  DetachedHeadError,
+  NotARepositoryError,
+  ShallowCloneError,
+  UnknownRefError,
+} from "./git/errors.js";
+import type { OutputMode, ProjectConfig } from "./config/projectConfig.js";
 
 // Helper function to load and populate the PR template
 async function generatePRFromTemplate(
   title: string,
   description: string,
   diff: string,
-  screenshots?: { before?: string; after?: string } // Optional screenshots
+  screenshots?: { before?: string; after?: string }, // Optional screenshots
+  commits: CommitInfo[] = [],
+  repoTemplate?: RepoTemplate, // The target repo's own PR template, if any
+  config: ProjectConfig = {},
+  workingTreeStates: Record<string, WorkingTreeState[]> = {}, // Uncommitted files
+  sources: Record<string, FileSources> = {}, // JS/TS contents before and after
+  publicApi?: PublicApiReport, // API changes when the repo is a package
+  dependencies?: DependencyReport, // Changes of package.json and lockfiles
+  secrets: SecretFinding[] = [], // Potential credentials in added lines
+  coverage: { current?: CoverageReport; baseline?: CoverageReport } = {}, // Local coverage reports
+  gitattributes: GitattributesRule[] = [], // Marks generated and vendored files
+  maxFiles?: number, // Files listed in detail, the rest are collapsed
+  numstat?: NumstatEntry[], // Line counts from git diff --numstat
+  workspace?: Workspace, // Packages of a monorepo
+  reviewers?: ReviewerReport // Code owners and suggested reviewers
 ): Promise<string> {
   try {
     // Generate markdown content using the modular template
-    const { changesSummary, mainLogicChanges } = processDiffForPreview(diff);
-
-    return generatePRMarkdown(
+    const parsedDiff = parseDiff(diff);
+    const {
+      changesSummary,
+      mainLogicChanges,
+      fileCategories,
+      fileClasses,
+      statistics,
+    } = processDiffForPreview(parsedDiff, {
+      ignore: config.ignore,
+      workingTreeStates,
+      sources,
+      dependencies,
+      gitattributes,
+      maxFiles,
+      numstat,
+      workspace,
+    });
+    const data = {
       title,
       description,
       changesSummary,
       mainLogicChanges,
-      diff,
-      screenshots
+      parsedDiff,
+      screenshots,
+      commits,
+      fileCategories,
+      fileClasses,
+      sections: config.sections,
+      keyPointRules: config.keyPoints,
+      publicApi,
+      secrets,
+      coverage,
+      statistics,
+      reviewers,
+    };
+
+    return redactSecrets(
+      repoTemplate
+        ? generatePRMarkdownFromTemplate(repoTemplate.content, data)
+        : generatePRMarkdown(data),
+      secrets
     );
   } catch (error) {
     // Fallback to simple template if processing fails
-    return generateFallbackPRMarkdown(title, description, diff);
+    return redactSecrets(
+      generateFallbackPRMarkdown(title, description, diff),
+      secrets
+    );
   }
 }
 
-// Helper function to generate key implementation points
-function generateKeyPoints(diff: string): string {
-  const points = [];
+// Helper function to generate a simple logic summary for fallback
+function generateSimpleLogicSummary(diff: string): string {
+  const lines = diff.split("\n");
+  const logicChanges = lines
+    .filter(
+      (line) =>
+        line.startsWith("+") &&
+        (line.includes("function") ||
+          line.includes("class") ||
+          line.includes("interface") ||
+          line.includes("export") ||
+          line.includes("import"))
+    )
+    .map((line) => line.substring(1).trim())
+    .slice(0, 5)
+    .join("\n");
 
-  // Check for core functionality changes
-  if (
-    diff.includes("function") ||
-    diff.includes("class") ||
-    diff.includes("interface")
-  ) {
-    points.push("- [x] Core functionality changes");
-  } else {
-    points.push("- [ ] Core functionality changes");
+  return logicChanges || "Basic functionality changes detected";
+}
+
+// Helper function to describe how the document was produced, appended to
+// the success message
+function formatNotes(
+  repoTemplate: RepoTemplate | undefined,
+  notes: string[]
+): string {
+  const parts = repoTemplate
+    ? [`using the ${repoTemplate.path} template`, ...notes]
+    : notes;
+  return parts.length > 0 ? ` (${parts.join("; ")})` : "";
+}
+
+// Helper function to build the output file name from a pattern such as
+// "{branch}-{date}.md" or "{gitDir}/PR.md"
+function formatOutputFileName(
+  pattern: string,
+  values: { title: string; branch: string; gitDir?: string }
+): string {
+  return pattern
+    .replace(/\{gitDir\}/g, values.gitDir || ".git")
+    .replace(/\{title\}/g, values.title.toLowerCase().replace(/ /g, "_"))
+    .replace(/\{branch\}/g, values.branch.replace(/[\/\\]/g, "-"))
+    .replace(/\{date\}/g, new Date().toISOString().slice(0, 10));
+}
+
+// Where and how the PR document will be delivered, worked out before
+// anything with side effects happens
+interface DeliveryPlan {
+  mode: OutputMode;
+  part: { text: string; note: string };
+  // File to write in "file" mode
+  filePath?: string;
+}
+
+// Helper function to check the output target and chunk the caller asked
+// for, so a tracked file or a bad chunk fails before a PR is opened
+async function planDelivery(
+  git: GitClient,
+  config: ProjectConfig,
+  options: {
+    output?: OutputMode;
+    outputPath?: string;
+    force?: boolean;
+    maxOutputTokens?: number;
+    chunk?: number;
+  },
+  values: { title: string; branch: string; defaultFileName: string },
+  content: string
+): Promise<DeliveryPlan> {
+  const mode = options.output || config.output?.mode || "file";
+  const part = selectChunk(content, options.maxOutputTokens, options.chunk);
+  if (mode !== "file") {
+    return { mode, part };
   }
 
-  // Check for API modifications
+  // The .git directory is only a file in linked worktrees, so {gitDir}
+  // points at the worktree's real git directory
+  const gitDir = [options.outputPath, config.output?.fileName].some((pattern) =>
+    pattern?.includes("{gitDir}")
+  )
+    ? await git.gitDir()
+    : undefined;
+
+  const filePath = options.outputPath
+    ? resolve(
+        git.cwd,
+        formatOutputFileName(options.outputPath, { ...values, gitDir })
+      )
+    : resolve(
+        git.cwd,
+        config.output?.directory || ".",
+        config.output?.fileName
+          ? formatOutputFileName(config.output.fileName, { ...values, gitDir })
+          : values.defaultFileName
+      );
+
+  // The config comes with the repository, and {title} may hold slashes, so
+  // the configured location has to end up in the work tree or git directory
   if (
-    diff.includes("api") ||
-    diff.includes("endpoint") ||
-    diff.includes("route")
+    !options.outputPath &&
+    !isInsideDirectory(git.cwd, filePath) &&
+    !(gitDir && isInsideDirectory(gitDir, filePath))
   ) {
-    points.push("- [x] API modifications");
-  } else {
-    points.push("- [ ] API modifications");
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Refusing to write ${filePath} because it is outside the repository. Check output.directory and output.fileName in the project config`
+    );
   }
 
-  // Check for database schema updates
-  if (
-    diff.includes("schema") ||
-    diff.includes("model") ||
-    diff.includes("migration")
-  ) {
-    points.push("- [x] Database schema updates");
-  } else {
-    points.push("- [ ] Database schema updates");
+  // Never clobber a file that belongs to the project unless asked to
+  if (!options.force && (await git.isTracked(filePath))) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Refusing to overwrite ${filePath} because it is tracked by git. Pass force: true, choose another outputPath or use output: "return"`
+    );
   }
 
-  // Check for configuration changes
-  if (
-    diff.includes("config") ||
-    diff.includes(".env") ||
-    diff.includes("settings")
-  ) {
-    points.push("- [x] Configuration changes");
-  } else {
-    points.push("- [ ] Configuration changes");
+  return { mode, part, filePath };
+}
+
+// Helper function to deliver the PR document the way planDelivery worked
+// out: written to a file, or only returned in the response
+async function deliverPRDocument(
+  plan: DeliveryPlan,
+  content: string,
+  summary: string,
+  data: Record<string, unknown> = {} // Structured results for clients
+) {
+  const { mode, part, filePath } = plan;
+  const structured = {
+    type: "resource",
+    resource: {
+      uri: "generate-pr://data",
+      mimeType: "application/json",
+      text: JSON.stringify(data),
+    },
+  };
+
+  if (mode === "clipboard-safe") {
+    // Only the markdown, so clients can copy the response as-is
+    return { content: [{ type: "text", text: part.text }] };
+  }
+
+  if (mode === "return" || !filePath) {
+    return {
+      content: [
+        { type: "text", text: `${summary}. Not written to disk${part.note}` },
+        { type: "text", text: part.text },
+        structured,
+      ],
+    };
+  }
+
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, "utf8");
+
+  return {
+    content: [
+      { type: "text", text: `${summary}. Written to ${filePath}${part.note}` },
+      { type: "text", text: part.text },
+      structured,
+    ],
+  };
+}
+
+// Tokens taken up by the markers around a chunk
+const CHUNK_MARKER_TOKENS = 30;
+
+// Helper function to pick the part of the document returned when it is
+// bigger than the output budget. Each chunk is marked, and the note tells
+// the client how to ask for the next one
+function selectChunk(
+  content: string,
+  maxOutputTokens?: number,
+  chunk = 1
+): { text: string; note: string } {
+  const chunks = maxOutputTokens
+    ? // Leave room for the markers
+      splitIntoChunks(content, maxOutputTokens - CHUNK_MARKER_TOKENS)
+    : [content];
+  if (!Number.isInteger(chunk) || chunk < 1 || chunk > chunks.length) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `chunk must be between 1 and ${chunks.length}, the number of parts of this document`
+    );
+  }
+  if (chunks.length === 1) {
+    return { text: content, note: "" };
+  }
+  const marker = `generate-pr:chunk ${chunk}/${chunks.length}`;
+  return {
+    text: `<!-- ${marker} -->\n${chunks[chunk - 1]}\n<!-- end ${marker} -->`,
+    note: `. Larger than ${maxOutputTokens} tokens, returned part ${chunk} of ${
+      chunks.length
+    }${
+      chunk < chunks.length
+        ? `; call again with chunk: ${chunk + 1} for the next part`
+        : ""
+    }`,
+  };
+}
+
+// Helper function to drop the "# title" heading from the document, since
+// the forge shows the title separately
+function stripTitleHeading(content: string, title: string): string {
+  const heading = `# ${title}\n`;
+  return content.startsWith(heading)
+    ? content.substring(heading.length).replace(/^\n+/, "")
+    : content;
+}
+
+// Helper function to create the provider for the forge the configured
+// remote points at
+async function findForgeProvider(
+  git: GitClient,
+  config: ProjectConfig
+): Promise<{ provider: ForgeProvider; remote: string }> {
+  const settings = config.forge || {};
+  const remote = settings.remote || "origin";
+  const remoteUrl = await git.remoteUrl(remote);
+  if (!remoteUrl) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `There is no "${remote}" remote to find the forge from`
+    );
+  }
+  return { provider: createForgeProvider(remoteUrl, settings), remote };
+}
+
+// Helper function to push the branch when asked and open the pull request
+// on the forge the remote points at
+async function publishPullRequest(
+  git: GitClient,
+  config: ProjectConfig,
+  options: {
+    push?: boolean;
+    labels?: string[];
+    reviewers?: string[];
+    draft?: boolean;
+  },
+  values: { title: string; head: string; base: string; content: string }
+): Promise<CreatedPullRequest> {
+  const settings = config.forge || {};
+  const { provider, remote } = await findForgeProvider(git, config);
+
+  if (options.push ?? settings.push ?? false) {
+    if (!(await git.hasLocalBranch(values.head))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Cannot push ${values.head}: it is not a local branch`
+      );
+    }
+    await git.push(remote, values.head);
   }
 
-  // Check for third-party integrations
+  // The forge wants branch names, not remote-tracking refs
+  const base = values.base.startsWith(`${remote}/`)
+    ? values.base.substring(remote.length + 1)
+    : values.base;
+
+  return provider.createPullRequest({
+    title: values.title,
+    body: stripTitleHeading(values.content, values.title),
+    head: values.head,
+    base,
+    labels: options.labels ?? settings.labels ?? [],
+    reviewers: options.reviewers ?? settings.reviewers ?? [],
+    draft: options.draft ?? settings.draft ?? false,
+  });
+}
+
+// Helper function to turn errors from git and the forge into MCP errors
+function toMcpError(error: any, context: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
   if (
-    diff.includes("import") ||
-    diff.includes("require") ||
-    diff.includes("dependency")
+    error instanceof UnknownRefError ||
+    error instanceof DetachedHeadError ||
+    error instanceof ShallowCloneError
   ) {
-    points.push("- [x] Third-party integrations");
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  return new McpError(
+    ErrorCode.InternalError,
+    `${context}: ${error.message || "Unknown error"}`
+  );
+}
+
+// Environment variables CI systems use for the target branch of a PR/MR
+const CI_BASE_BRANCH_VARIABLES = [
+  "GITHUB_BASE_REF",
+  "CI_MERGE_REQUEST_TARGET_BRANCH_NAME",
+  "BITBUCKET_PR_DESTINATION_BRANCH",
+  "SYSTEM_PULLREQUEST_TARGETBRANCH",
+];
+
+// Helper function to find a branch locally or as origin's remote-tracking
+// branch, which is often the only copy in CI checkouts
+async function findBranch(
+  git: GitClient,
+  branch: string
+): Promise<string | undefined> {
+  if (await git.hasLocalBranch(branch)) {
+    return branch;
+  }
+  if (await git.hasRemoteBranch("origin", branch)) {
+    return `origin/${branch}`;
+  }
+  return undefined;
+}
+
+// Helper function to pick the base ref when none is given explicitly.
+// Order: the PR target branch from CI, origin/HEAD, the upstream tracking
+// branch (when it is not just the remote copy of the head branch), then
+// main/master, then the first other local branch.
+async function resolveDefaultBaseRef(
+  git: GitClient,
+  currentBranch: string,
+  detachedHead: boolean
+): Promise<string> {
+  for (const variable of CI_BASE_BRANCH_VARIABLES) {
+    const branch = process.env[variable]?.replace(/^refs\/heads\//, "");
+    const found = branch && (await findBranch(git, branch));
+    if (found) {
+      return found;
+    }
+  }
+
+  const remoteHead = await git.remoteHead("origin");
+  if (remoteHead) {
+    return remoteHead;
+  }
+
+  const upstream = detachedHead
+    ? undefined
+    : await git.upstreamOf(currentBranch);
+  if (upstream) {
+    const upstreamBranch = upstream.substring(upstream.indexOf("/") + 1);
+    if (upstream !== currentBranch && upstreamBranch !== currentBranch) {
+      return upstream;
+    }
+  }
+
+  for (const candidate of ["main", "master"]) {
+    const found = await findBranch(git, candidate);
+    if (found) {
+      return found;
+    }
+  }
+
+  // If neither main nor master exists, use the first available local branch
+  const branchList = (await git.localBranches()).filter(
+    (b) => b !== currentBranch && !b.startsWith("(")
+  );
+  if (branchList.length > 0) {
+    return branchList[0];
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    detachedHead
+      ? "HEAD is detached and no base branch was found locally. Pass baseRef (e.g. origin/main or a commit SHA)"
+      : "Could not determine base branch. Pass baseRef explicitly"
+  );
+}
+
+// Helper function to make sure a ref exists, with a hint for shallow and
+// single-branch clones where the base branch was never fetched
+async function ensureRef(
+  git: GitClient,
+  ref: string,
+  label: "base" | "head"
+): Promise<void> {
+  try {
+    await git.resolveCommit(ref);
+  } catch (error) {
+    if (!(error instanceof UnknownRefError)) {
+      throw error;
+    }
+    const hint = (await git.isShallow())
+      ? ` This is a shallow clone, fetch it first (e.g. git fetch --depth=50 origin ${ref.replace(
+          /^origin\//,
+          ""
+        )})`
+      : "";
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown ${label} ref: ${ref}.${hint}`
+    );
+  }
+}
+
+// Commits fetched per attempt when a shallow clone lacks the merge-base
+const DEEPEN_STEPS = [50, 200, 1000];
+
+// Helper function to diff head against its merge-base with base. Shallow
+// clones are deepened until the merge-base shows up; if it never does, an
+// explicitly given base is compared directly instead.
+async function diffAgainstBase(
+  git: GitClient,
+  base: string,
+  head: string,
+  explicitBase: boolean
+): Promise<{ diff: string; notes: string[] }> {
+  try {
+    return { diff: await git.diffFromMergeBase(base, head), notes: [] };
+  } catch (error) {
+    if (!(error instanceof ShallowCloneError)) {
+      throw error;
+    }
+  }
+
+  const remotes = await git.remotes();
+  const remote =
+    remotes.find((name) => base.startsWith(`${name}/`)) || remotes[0];
+  let fetched = 0;
+
+  for (const depth of remote ? DEEPEN_STEPS : []) {
+    try {
+      await git.deepen(remote, depth);
+    } catch (error) {
+      // Offline or the remote refused, stop trying
+      break;
+    }
+    fetched += depth;
+    if (await git.mergeBase(base, head)) {
+      return {
+        diff: await git.diffFromMergeBase(base, head),
+        notes: [`deepened the shallow clone by ${fetched} commits`],
+      };
+    }
+  }
+
+  if (explicitBase) {
+    return {
+      diff: await git.diffCommits(base, head),
+      notes: [
+        `no merge-base in this shallow clone, compared ${head} with ${base} directly`,
+      ],
+    };
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `This is a shallow clone and the merge-base of ${head} and ${base} is not in the fetched history${
+      fetched > 0 ? ` (fetched ${fetched} more commits)` : ""
+    }. Run git fetch --unshallow, or pass baseRef as a commit SHA to compare against it directly`
+  );
+}
+
+// Which changes generate_pr describes
+const CHANGE_SCOPES = [
+  "committed",
+  "staged",
+  "unstaged",
+  "all",
+  "untracked-included",
+] as const;
+
+type ChangeScope = (typeof CHANGE_SCOPES)[number];
+
+// Helper function to say what a scope compared, for the summary message;
+// staged and unstaged changes are not compared with the base branch
+function describeComparison(
+  scope: ChangeScope,
+  branch: string,
+  base: string
+): string {
+  switch (scope) {
+    case "committed":
+      return `comparing ${branch} to ${base}`;
+    case "staged":
+      return `for the staged changes on ${branch}, compared with HEAD`;
+    case "unstaged":
+      return `for the unstaged changes on ${branch}, compared with the index`;
+    case "all":
+      return `comparing ${branch} with all uncommitted changes to ${base}`;
+    case "untracked-included":
+      return `comparing ${branch} with all uncommitted changes and untracked files to ${base}`;
+  }
+}
+
+interface CollectedChanges {
+  diff: string;
+  commits: CommitInfo[];
+  // Files with changes that are not committed yet
+  workingTreeStates: Record<string, WorkingTreeState[]>;
+  notes: string[];
+  // Where the compared versions of a file are read from
+  revisions: { before: FileRevision; after: FileRevision };
+}
+
+// Helper function to record where uncommitted changes to files live
+function addWorkingTreeState(
+  states: Record<string, WorkingTreeState[]>,
+  files: string[],
+  state: WorkingTreeState
+): void {
+  for (const file of files) {
+    states[file] = [...(states[file] || []), state];
+  }
+}
+
+// Helper function to gather the diff, commits and uncommitted file states
+// for a scope. Scopes other than "committed" describe the working tree, so
+// they compare against the checked out commit.
+async function collectChanges(
+  git: GitClient,
+  scope: ChangeScope,
+  base: string,
+  head: string,
+  explicitBase: boolean
+): Promise<CollectedChanges> {
+  const workingTreeStates: Record<string, WorkingTreeState[]> = {};
+
+  if (scope === "committed") {
+    // Diff from the merge-base so commits already on base are left out
+    const { diff, notes } = await diffAgainstBase(
+      git,
+      base,
+      head,
+      explicitBase
+    );
+    const commits = parseCommitLog(
+      await git.log(base, head, COMMIT_LOG_FORMAT)
+    );
+    const before = (await git.mergeBase(base, head)) || base;
+    return {
+      diff,
+      commits,
+      workingTreeStates,
+      notes,
+      revisions: { before: { commit: before }, after: { commit: head } },
+    };
+  }
+
+  if (!(await git.isSameCommit(head, "HEAD"))) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `scope "${scope}" describes the working tree, so headRef must be the checked out commit (or left out)`
+    );
+  }
+
+  if (scope === "staged" || scope === "unstaged") {
+    const staged = scope === "staged";
+    addWorkingTreeState(
+      workingTreeStates,
+      await git.changedFiles(staged),
+      scope
+    );
+    return {
+      diff: await git.diffWorkingTree(staged),
+      commits: [],
+      workingTreeStates,
+      notes: [],
+      revisions: staged
+        ? { before: { commit: "HEAD" }, after: "index" }
+        : { before: "index", after: "working-tree" },
+    };
+  }
+
+  // "all" and "untracked-included": commits on the branch plus everything
+  // staged and unstaged, compared with the merge-base
+  const notes: string[] = [];
+  let from = await git.mergeBase(base, "HEAD");
+  if (!from) {
+    if (!explicitBase) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No merge-base between HEAD and ${base}. In a shallow clone run git fetch --unshallow, or pass baseRef as a commit SHA`
+      );
+    }
+    from = base;
+    notes.push(
+      `no merge-base, compared the working tree with ${base} directly`
+    );
+  }
+
+  let diff = await git.diffWorkingTreeFrom(from);
+  addWorkingTreeState(
+    workingTreeStates,
+    await git.changedFiles(true),
+    "staged"
+  );
+  addWorkingTreeState(
+    workingTreeStates,
+    await git.changedFiles(false),
+    "unstaged"
+  );
+
+  if (scope === "untracked-included") {
+    const untracked = await git.untrackedFiles();
+    for (const file of untracked) {
+      diff += await git.diffUntrackedFile(file);
+    }
+    addWorkingTreeState(workingTreeStates, untracked, "untracked");
+  }
+
+  const commits = parseCommitLog(
+    await git.log(base, "HEAD", COMMIT_LOG_FORMAT)
+  );
+  return {
+    diff,
+    commits,
+    workingTreeStates,
+    notes,
+    revisions: { before: { commit: from }, after: "working-tree" },
+  };
+}
+
+// Helper function to read files from the same revisions as the diff,
+// caching them because several analyses ask for the same files
+function createSourceReader(
+  git: GitClient,
+  changes: CollectedChanges
+): SourceReader {
+  const files = new Map<string, Promise<string | undefined>>();
+  return (side, path) => {
+    const key = `${side}:${path}`;
+    if (!files.has(key)) {
+      files.set(key, git.fileAt(changes.revisions[side], path));
+    }
+    return files.get(key)!;
+  };
+}
+
+// Helper function to scan the added lines for credentials, refusing to go
+// on when blocking is switched on
+function findSecrets(
+  diff: string,
+  config: ProjectConfig,
+  block = config.secrets?.block
+): SecretFinding[] {
+  const findings = scanSecrets(parseDiff(diff), config.secrets);
+  if (block && findings.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Potential secrets found in the added lines:\n${findings
+        .map(
+          (finding) => `  - ${finding.kind} at ${finding.path}:${finding.line}`
+        )
+        .join(
+          "\n"
+        )}\nRemove them, or list values that are not secrets in secrets.allow of .generate-pr.json`
+    );
+  }
+  return findings;
+}
+
+// Largest file parsed for the declaration analysis, bigger files are
+// usually generated or bundled
+const MAX_SOURCE_SIZE = 512 * 1024;
+
+// Helper function to read both versions of the changed JS/TS files, so
+// their declarations can be compared instead of guessed from diff lines
+async function loadSources(
+  git: GitClient,
+  changes: CollectedChanges
+): Promise<Record<string, FileSources>> {
+  const sources: Record<string, FileSources> = {};
+  for (const file of parseDiff(changes.diff).files) {
+    if (file.binary || !isScriptFile(file.path)) {
+      continue;
+    }
+    const [before, after] = await Promise.all([
+      file.status === "added"
+        ? undefined
+        : git.fileAt(changes.revisions.before, file.oldPath),
+      file.status === "deleted"
+        ? undefined
+        : git.fileAt(changes.revisions.after, file.newPath),
+    ]);
+    if ((before?.length || 0) + (after?.length || 0) > MAX_SOURCE_SIZE) {
+      continue;
+    }
+    if (before !== undefined || after !== undefined) {
+      sources[file.path] = { before, after };
+    }
+  }
+  return sources;
+}
+
+// Helper function to read the .gitattributes of the compared head, which
+// marks generated and vendored files
+async function loadGitattributes(
+  git: GitClient,
+  changes: CollectedChanges
+): Promise<GitattributesRule[]> {
+  const content = await git.fileAt(changes.revisions.after, ".gitattributes");
+  return content ? parseGitattributes(content) : [];
+}
+
+// Helper function to count the changed lines with git diff --numstat,
+// comparing the same revisions as the diff
+async function loadNumstat(
+  git: GitClient,
+  changes: CollectedChanges
+): Promise<NumstatEntry[]> {
+  const { before, after } = changes.revisions;
+  let output: string;
+  if (before === "index") {
+    output = await git.diffNumstat();
+  } else if (after === "index") {
+    output = await git.diffNumstat(undefined, undefined, true);
+  } else if (typeof before === "object" && after === "working-tree") {
+    output = await git.diffNumstat(before.commit);
+    for (const [path, states] of Object.entries(changes.workingTreeStates)) {
+      if (states.includes("untracked")) {
+        output += await git.numstatUntrackedFile(path);
+      }
+    }
+  } else if (typeof before === "object" && typeof after === "object") {
+    output = await git.diffNumstat(before.commit, after.commit);
   } else {
-    points.push("- [ ] Third-party integrations");
+    return [];
   }
+  return parseNumstat(output);
+}
 
-  return points.join("\n");
+// Helper function to detect the packages of a monorepo as they are in the
+// compared head
+async function loadWorkspace(
+  git: GitClient,
+  changes: CollectedChanges
+): Promise<Workspace | undefined> {
+  const { after } = changes.revisions;
+  return detectWorkspaces(await git.filesAt(after), (path) =>
+    git.fileAt(after, path)
+  );
 }
 
-// Helper function to generate a simple logic summary for fallback
-function generateSimpleLogicSummary(diff: string): string {
-  const lines = diff.split("\n");
-  const logicChanges = lines
+// Helper function to find a workspace package by name or directory
+function resolvePackage(
+  workspace: Workspace | undefined,
+  name: string
+): WorkspacePackage {
+  const directory = name.replace(/^\.\//, "").replace(/\/$/, "");
+  const found = workspace?.packages.find(
+    (item) => item.name === name || item.path === directory
+  );
+  if (!found) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      workspace
+        ? `Unknown package "${name}". Workspace packages: ${workspace.packages
+            .map((item) => item.name)
+            .join(", ")}`
+        : `package "${name}" was given, but no workspaces were found (package.json workspaces, pnpm-workspace.yaml or nx.json)`
+    );
+  }
+  return found;
+}
+
+// Helper function to narrow the changes down to the files of one package,
+// and the commits to those touching it
+async function limitToPackage(
+  git: GitClient,
+  changes: CollectedChanges,
+  item: WorkspacePackage,
+  base: string,
+  head: string
+): Promise<CollectedChanges> {
+  const inPackage = (path: string) => path.startsWith(`${item.path}/`);
+  const touching = new Set(
+    changes.commits.length > 0
+      ? (await git.log(base, head, "%H", [item.path])).split("\n")
+      : []
+  );
+  return {
+    ...changes,
+    diff: filterDiff(changes.diff, inPackage),
+    commits: changes.commits.filter((commit) => touching.has(commit.hash)),
+    workingTreeStates: Object.fromEntries(
+      Object.entries(changes.workingTreeStates).filter(([path]) =>
+        inPackage(path)
+      )
+    ),
+  };
+}
+
+// Helper function to describe the changed packages of a monorepo for
+// clients reading the structured results
+function summarizeWorkspace(workspace: Workspace, diff: string) {
+  const affected = groupByPackage(
+    parseDiff(diff).files.map((file) => file.path),
+    workspace
+  ).flatMap((group) => (group.package ? [group.package] : []));
+  return {
+    tools: workspace.tools,
+    affected,
+    dependents: findDependents(
+      affected.map((item) => item.name),
+      workspace
+    ),
+  };
+}
+
+// Most changed files blamed and looked up in the history, by relevance
+const MAX_HISTORY_FILES = 20;
+// Recent commits per file considered for reviewer suggestions
+const REVIEWER_HISTORY_DEPTH = 20;
+
+// Helper function to find the code owners of the changed files and suggest
+// reviewers from who wrote the changed lines and committed to the files
+async function loadReviewers(
+  git: GitClient,
+  changes: CollectedChanges,
+  gitattributes: GitattributesRule[]
+): Promise<ReviewerReport> {
+  const parsedDiff = parseDiff(changes.diff);
+  const { before, after } = changes.revisions;
+
+  // CODEOWNERS as it is in the compared head
+  let codeowners: { path: string; rules: CodeownersRule[] } | undefined;
+  for (const path of CODEOWNERS_PATHS) {
+    const content = await git.fileAt(after, path);
+    if (content !== undefined) {
+      codeowners = { path, rules: parseCodeowners(content) };
+      break;
+    }
+  }
+
+  // Authorship comes from the base, before the change rewrote the lines;
+  // unstaged changes are compared with the index, so blame HEAD
+  const baseCommit = typeof before === "object" ? before.commit : "HEAD";
+  const blame: BlameEvidence[] = [];
+  const history: HistoryEvidence[] = [];
+  const files = rankFiles(parsedDiff, gitattributes)
     .filter(
-      (line) =>
-        line.startsWith("+") &&
-        (line.includes("function") ||
-          line.includes("class") ||
-          line.includes("interface") ||
-          line.includes("export") ||
-          line.includes("import"))
+      ({ file, excluded }) =>
+        !excluded && !file.binary && file.status !== "added"
     )
-    .map((line) => line.substring(1).trim())
-    .slice(0, 5)
-    .join("\n");
+    .slice(0, MAX_HISTORY_FILES);
+  for (const { file } of files) {
+    const ranges = changedLineRanges(file);
+    const output =
+      ranges.length > 0
+        ? await git.blame(baseCommit, file.oldPath, ranges)
+        : undefined;
+    if (output) {
+      blame.push({ path: file.path, authors: parseBlame(output) });
+    }
+    history.push({
+      path: file.path,
+      authors: parseAuthorLog(
+        await git.fileHistory(
+          baseCommit,
+          file.oldPath,
+          AUTHOR_LOG_FORMAT,
+          REVIEWER_HISTORY_DEPTH
+        )
+      ),
+    });
+  }
 
-  return logicChanges || "Basic functionality changes detected";
+  // The authors of the change are not asked to review it
+  const exclude: Author[] = changes.commits.map((commit) => ({
+    name: commit.author,
+    email: commit.email,
+  }));
+  if (
+    changes.commits.length === 0 ||
+    Object.keys(changes.workingTreeStates).length > 0
+  ) {
+    exclude.push(await git.user());
+  }
+
+  return suggestReviewers(
+    parsedDiff.files.map((file) => file.path),
+    { codeowners, blame, history },
+    exclude
+  );
 }
 
 const server = new Server(
@@ -160,6 +1070,49 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["a", "b"],
         },
       },
+      {
+        name: "update_pr",
+        description:
+          "Regenerate the generated sections of an existing PR description after new commits, keeping everything edited by hand",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectDirectory: {
+              type: "string",
+              description: "The project directory",
+            },
+            rootUri: {
+              type: "string",
+              description: "The root URI of the project",
+            },
+            number: {
+              type: "number",
+              description:
+                "Number of the PR (MR iid on GitLab) on the forge of the remote",
+            },
+            filePath: {
+              type: "string",
+              description:
+                "A PR document written by generate_pr, absolute or relative to the project root",
+            },
+            baseRef: {
+              type: "string",
+              description:
+                "Base branch, tag or commit. Defaults to the PR's target branch",
+            },
+            headRef: {
+              type: "string",
+              description:
+                "Branch, tag or commit with the changes. Defaults to the PR's source branch, or HEAD for files",
+            },
+            force: {
+              type: "boolean",
+              description: "Update filePath even if it is tracked by git",
+            },
+          },
+          required: ["projectDirectory", "rootUri"],
+        },
+      },
       {
         name: "generate_pr",
         description: "Generate a PR for a feature branch",
@@ -179,6 +1132,92 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "The root URI of the project",
             },
+            baseRef: {
+              type: "string",
+              description:
+                "Branch, tag or commit to compare against. Defaults to origin/HEAD, then the upstream tracking branch, then main/master",
+            },
+            headRef: {
+              type: "string",
+              description:
+                "Branch, tag or commit containing the changes. Defaults to the current branch",
+            },
+            template: {
+              type: "string",
+              description:
+                'Name of a template in the repo\'s PULL_REQUEST_TEMPLATE/ directory (e.g. "bug"), or "builtin" to ignore the repo\'s templates. Defaults to the repo\'s pull_request_template.md when present',
+            },
+            output: {
+              type: "string",
+              enum: ["file", "return", "clipboard-safe"],
+              description:
+                'Where the PR document goes: "file" writes it (default), "return" only returns it, "clipboard-safe" returns the bare markdown',
+            },
+            outputPath: {
+              type: "string",
+              description:
+                "File to write in file mode, absolute or relative to the project root (e.g. {gitDir}/PR.md). Supports {title}, {branch}, {date} and {gitDir}",
+            },
+            force: {
+              type: "boolean",
+              description:
+                "Overwrite the output file even when it is tracked by git",
+            },
+            scope: {
+              type: "string",
+              enum: [...CHANGE_SCOPES],
+              description:
+                'Changes to describe: "committed" (base...head), "staged", "unstaged", "all" (commits plus staged and unstaged) or "untracked-included" (all plus untracked files). Defaults to committed changes, or local changes when head has nothing on top of base',
+            },
+            publish: {
+              type: "boolean",
+              description:
+                "Open the pull request on the forge of the remote (GitHub, GitLab, Gitea or Bitbucket). Needs a token, e.g. GITHUB_TOKEN",
+            },
+            push: {
+              type: "boolean",
+              description:
+                "With publish, push the branch to the remote first and set it as upstream",
+            },
+            labels: {
+              type: "array",
+              items: { type: "string" },
+              description: "With publish, labels to add to the pull request",
+            },
+            reviewers: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                'With publish, reviewers to request. On GitHub "org/team" requests a team',
+            },
+            draft: {
+              type: "boolean",
+              description: "With publish, open the pull request as a draft",
+            },
+            blockOnSecrets: {
+              type: "boolean",
+              description:
+                "Fail instead of generating the PR when added lines contain potential secrets. Defaults to secrets.block of the project configuration",
+            },
+            maxOutputTokens: {
+              type: "number",
+              description: `Longest response in tokens (at least ${MIN_OUTPUT_TOKENS}); longer documents are returned in marked chunks. Defaults to budget.maxOutputTokens of the project configuration`,
+            },
+            maxFiles: {
+              type: "number",
+              description:
+                'Most files listed and analyzed, ranked by relevance; the rest are collapsed into an "N more files" line. Defaults to budget.maxFiles of the project configuration',
+            },
+            chunk: {
+              type: "number",
+              description:
+                "Part of the document to return when it is split by maxOutputTokens, starting at 1",
+            },
+            package: {
+              type: "string",
+              description:
+                "In a monorepo, only describe the changes to this workspace package, given by name or directory",
+            },
           },
           required: ["title", "description", "projectDirectory", "rootUri"],
           additionalProperties: false,
@@ -190,12 +1229,50 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   if (request.params.name === "generate_pr") {
-    const { title, description, projectDirectory, rootUri } = request.params
-      .arguments as {
+    const {
+      title,
+      description,
+      projectDirectory,
+      rootUri,
+      baseRef,
+      headRef,
+      template,
+      output,
+      outputPath,
+      force,
+      scope,
+      publish,
+      push,
+      labels,
+      reviewers,
+      draft,
+      blockOnSecrets,
+      maxOutputTokens,
+      maxFiles,
+      chunk,
+      package: packageName,
+    } = request.params.arguments as {
       title: string;
       description: string;
       projectDirectory: string;
       rootUri: string;
+      baseRef?: string;
+      headRef?: string;
+      template?: string;
+      output?: OutputMode;
+      outputPath?: string;
+      force?: boolean;
+      scope?: ChangeScope;
+      publish?: boolean;
+      push?: boolean;
+      labels?: string[];
+      reviewers?: string[];
+      draft?: boolean;
+      blockOnSecrets?: boolean;
+      maxOutputTokens?: number;
+      maxFiles?: number;
+      chunk?: number;
+      package?: string;
     };
 
     try {
@@ -204,14 +1281,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         throw new McpError(ErrorCode.InternalError, "No root URI found");
       }
       const projectDirectory = URI.parse(rootUri).fsPath;
-      process.chdir(projectDirectory);
+      const git = new GitClient(projectDirectory);
 
       try {
         // check if the project directory is a git repository
-        await exec("git rev-parse --is-inside-work-tree", {
-          cwd: projectDirectory,
-        });
+        await git.ensureRepository();
       } catch (error) {
+        if (!(error instanceof NotARepositoryError)) {
+          throw error;
+        }
         return {
           content: [
             {
@@ -222,163 +1300,455 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      // Get current branch name
-      const { stdout: featureBranch } = await exec(
-        `git rev-parse --abbrev-ref HEAD`,
-        { cwd: projectDirectory }
-      );
+      if (scope && !CHANGE_SCOPES.includes(scope)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown scope "${scope}". Expected one of: ${CHANGE_SCOPES.join(
+            ", "
+          )}`
+        );
+      }
 
-      // Find local main branch (check for main first, then master)
-      let mainBranch = "main";
-      try {
-        await exec(`git show-ref --verify refs/heads/main`, {
-          cwd: projectDirectory,
-        });
-      } catch (error) {
+      if (output && !OUTPUT_MODES.includes(output)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown output mode "${output}". Expected one of: ${OUTPUT_MODES.join(
+            ", "
+          )}`
+        );
+      }
+
+      if (
+        maxOutputTokens !== undefined &&
+        (!Number.isInteger(maxOutputTokens) ||
+          maxOutputTokens < MIN_OUTPUT_TOKENS)
+      ) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `maxOutputTokens must be a whole number of at least ${MIN_OUTPUT_TOKENS}`
+        );
+      }
+      if (
+        maxFiles !== undefined &&
+        (!Number.isInteger(maxFiles) || maxFiles < 1)
+      ) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "maxFiles must be a positive whole number"
+        );
+      }
+
+      // Load the project's .generate-pr.json (or package.json "generatePr")
+      const config = await loadProjectConfig(projectDirectory);
+
+      // Use the repository's own PR template when it has one
+      const templateName = template || config.template;
+      let repoTemplate: RepoTemplate | undefined;
+      if (templateName !== "builtin") {
+        repoTemplate = await loadRepoTemplate(projectDirectory, templateName);
+        if (templateName && !repoTemplate) {
+          const available = await listRepoTemplates(projectDirectory);
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `PR template "${templateName}" not found. Available templates: ${
+              available.join(", ") || "none"
+            }`
+          );
+        }
+      }
+
+      // Get current branch name, CI checkouts often have a detached HEAD
+      let currentBranch = headRef || "HEAD";
+      let detachedHead = false;
+      if (!headRef) {
         try {
-          await exec(`git show-ref --verify refs/heads/master`, {
-            cwd: projectDirectory,
-          });
-          mainBranch = "master";
+          currentBranch = await git.currentBranch();
         } catch (error) {
-          // If neither main nor master exists locally, use the first available branch
-          try {
-            const { stdout: branches } = await exec(
-              `git branch --format='%(refname:short)'`,
-              { cwd: projectDirectory }
-            );
-            const branchList = branches
-              .trim()
-              .split("\n")
-              .filter((b) => b.trim() !== featureBranch.trim());
-            if (branchList.length > 0) {
-              mainBranch = branchList[0];
-            } else {
-              throw new McpError(
-                ErrorCode.InternalError,
-                "No suitable base branch found"
-              );
-            }
-          } catch (error) {
-            throw new McpError(
-              ErrorCode.InternalError,
-              "Could not determine base branch"
-            );
+          if (!(error instanceof DetachedHeadError)) {
+            throw error;
           }
+          detachedHead = true;
         }
       }
+      const mainBranch =
+        baseRef ||
+        config.baseBranch ||
+        (await resolveDefaultBaseRef(git, currentBranch, detachedHead));
+
+      // Make sure both refs point at commits before diffing them
+      await ensureRef(git, mainBranch, "base");
+      await ensureRef(git, currentBranch, "head");
+
+      const notes: string[] = [];
+      if (detachedHead) {
+        notes.push("HEAD is detached, compared the checked out commit");
+      }
+      if (await git.isLinkedWorktree()) {
+        notes.push("running in a linked worktree");
+      }
 
-      const currentBranch = featureBranch.trim();
-
-      // If we're on main/master, show staged changes instead
-      if (currentBranch === mainBranch) {
-        // Get staged changes
-        const { stdout: stagedDiff } = await exec(`git diff --staged`, {
-          cwd: projectDirectory,
-        });
-
-        // If no staged changes, get unstaged changes
-        let diff = stagedDiff;
-        if (!diff.trim()) {
-          const { stdout: unstagedDiff } = await exec(`git diff`, {
-            cwd: projectDirectory,
-          });
-          diff = unstagedDiff;
+      // Without a scope, local changes are described when head has nothing
+      // on top of base: staged changes, or unstaged ones if nothing is staged
+      const localChangesOnly =
+        !scope && !headRef && (await git.isSameCommit(mainBranch, "HEAD"));
+      let changes: CollectedChanges;
+      if (localChangesOnly) {
+        changes = await collectChanges(
+          git,
+          "staged",
+          mainBranch,
+          currentBranch,
+          false
+        );
+        if (!changes.diff.trim()) {
+          changes = await collectChanges(
+            git,
+            "unstaged",
+            mainBranch,
+            currentBranch,
+            false
+          );
         }
+      } else {
+        changes = await collectChanges(
+          git,
+          scope || "committed",
+          mainBranch,
+          currentBranch,
+          Boolean(baseRef || config.baseBranch)
+        );
+      }
+      notes.push(...changes.notes);
 
-        if (!diff.trim()) {
+      if (!changes.diff.trim()) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          localChangesOnly
+            ? "No changes found to generate PR for"
+            : `No differences found between ${currentBranch} and ${mainBranch}`
+        );
+      }
+
+      // In a monorepo the analysis can be limited to a single package
+      const workspace = await loadWorkspace(git, changes);
+      let numstat = await loadNumstat(git, changes);
+      if (packageName) {
+        const selected = resolvePackage(workspace, packageName);
+        changes = await limitToPackage(
+          git,
+          changes,
+          selected,
+          mainBranch,
+          currentBranch
+        );
+        numstat = numstat.filter((entry) =>
+          entry.path.startsWith(`${selected.path}/`)
+        );
+        if (!changes.diff.trim()) {
           throw new McpError(
-            ErrorCode.InternalError,
-            "No changes found to generate PR for"
+            ErrorCode.InvalidParams,
+            `No changes found in package ${selected.name} (${selected.path})`
           );
         }
+        notes.push(`limited to package ${selected.name}`);
+      }
 
-        // Optional: You can add logic here to detect and include screenshots
-        const screenshots = {
-          // before: "path/to/before/screenshot.png", // Optional
-          // after: "path/to/after/screenshot.png",   // Optional
-        };
+      // Optional: You can add logic here to detect and include screenshots
+      const screenshots = {
+        // before: "path/to/before/screenshot.png", // Optional
+        // after: "path/to/after/screenshot.png",   // Optional
+      };
 
-        // Create PRD content for local changes
-        const prdTemplate = await generatePRFromTemplate(
-          title,
-          description,
-          diff,
-          screenshots
-        );
+      // Scan before anything is generated, so blocking leaves no document
+      const secrets = findSecrets(
+        changes.diff,
+        config,
+        blockOnSecrets ?? config.secrets?.block
+      );
 
-        // Write to file using fs/promises
-        await writeFile(`${projectDirectory}/prd.md`, prdTemplate, "utf8");
+      // Generate PR content with optional screenshots
+      const read = createSourceReader(git, changes);
+      const changedPaths = parseDiff(changes.diff).files.map(
+        (file) => file.path
+      );
+      const coverage = await loadCoverage(projectDirectory, config.coverage);
+      notes.push(...coverage.notes);
+      const gitattributes = await loadGitattributes(git, changes);
+      const reviewerReport =
+        config.sections?.reviewers !== false
+          ? await loadReviewers(git, changes, gitattributes)
+          : undefined;
+      const prdContent = await generatePRFromTemplate(
+        title,
+        description,
+        changes.diff,
+        screenshots,
+        changes.commits,
+        repoTemplate,
+        config,
+        changes.workingTreeStates,
+        await loadSources(git, changes),
+        await comparePublicApi(read),
+        await analyzeDependencies(changedPaths, read),
+        secrets,
+        coverage,
+        gitattributes,
+        maxFiles ?? config.budget?.maxFiles,
+        numstat,
+        workspace,
+        reviewerReport
+      );
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PR document generated successfully for local changes on ${currentBranch} branch`,
-            },
-            {
-              type: "text",
-              text: prdTemplate,
-            },
-          ],
-        };
-      } else {
-        // Get diff between current branch and main branch
-        const { stdout: diff } = await exec(
-          `git diff ${mainBranch}..${currentBranch}`,
-          { cwd: projectDirectory }
-        );
+      // Check the output file and chunk first, a failure after publishing
+      // would leave the new pull request behind
+      const delivery = await planDelivery(
+        git,
+        config,
+        {
+          output,
+          outputPath,
+          force,
+          maxOutputTokens: maxOutputTokens ?? config.budget?.maxOutputTokens,
+          chunk,
+        },
+        {
+          title,
+          branch: currentBranch,
+          defaultFileName: localChangesOnly
+            ? "prd.md"
+            : formatOutputFileName("{title}.md", {
+                title,
+                branch: currentBranch,
+              }),
+        },
+        prdContent
+      );
 
-        if (!diff.trim()) {
+      // Only committed changes on a branch can become a pull request
+      if (publish) {
+        if (localChangesOnly || (scope && scope !== "committed")) {
           throw new McpError(
-            ErrorCode.InternalError,
-            `No differences found between ${currentBranch} and ${mainBranch}`
+            ErrorCode.InvalidParams,
+            "publish needs committed changes on a branch; commit them or drop the scope argument"
           );
         }
+        if (detachedHead) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "publish needs a branch, but HEAD is detached. Pass headRef with the branch name"
+          );
+        }
+        const pullRequest = await publishPullRequest(
+          git,
+          config,
+          { push, labels, reviewers, draft },
+          {
+            title,
+            head: currentBranch,
+            base: mainBranch,
+            content: prdContent,
+          }
+        );
+        notes.push(
+          `opened pull request #${pullRequest.number}: ${pullRequest.url}`,
+          ...pullRequest.notes
+        );
+      }
 
-        // Optional: You can add logic here to detect and include screenshots
-        const screenshots = {
-          // before: "path/to/before/screenshot.png", // Optional
-          // after: "path/to/after/screenshot.png",   // Optional
-        };
+      const uncommittedCount = Object.keys(changes.workingTreeStates).length;
+      if (!localChangesOnly && uncommittedCount > 0) {
+        notes.push(
+          `${uncommittedCount} file${
+            uncommittedCount !== 1 ? "s have" : " has"
+          } changes that are not committed yet`
+        );
+      }
 
-        // implement better naming convention for the PRD file
-        const prdFileName = `${title.toLowerCase().replace(/ /g, "_")}.md`;
+      return deliverPRDocument(
+        delivery,
+        prdContent,
+        localChangesOnly
+          ? `PR document generated successfully for local changes on ${currentBranch} branch${formatNotes(
+              repoTemplate,
+              notes
+            )}`
+          : `PR document generated successfully ${describeComparison(
+              scope || "committed",
+              currentBranch,
+              mainBranch
+            )}${formatNotes(repoTemplate, notes)}`,
+        {
+          statistics: computeChangeStats(numstat),
+          ...(workspace
+            ? { workspace: summarizeWorkspace(workspace, changes.diff) }
+            : {}),
+          ...(reviewerReport ? { reviewers: reviewerReport } : {}),
+        }
+      );
+    } catch (error: any) {
+      console.error("Error in generate_pr:", error);
+      throw toMcpError(error, "Error generating PR");
+    }
+  }
 
-        // Generate PR content with optional screenshots
-        const prdContent = await generatePRFromTemplate(
-          title,
-          description,
-          diff,
-          screenshots
+  if (request.params.name === "update_pr") {
+    const { rootUri, number, filePath, baseRef, headRef, force } = request
+      .params.arguments as {
+      projectDirectory: string;
+      rootUri: string;
+      number?: number;
+      filePath?: string;
+      baseRef?: string;
+      headRef?: string;
+      force?: boolean;
+    };
+
+    try {
+      if (!rootUri) {
+        throw new McpError(ErrorCode.InternalError, "No root URI found");
+      }
+      if ((number === undefined) === (filePath === undefined)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Pass either number (a PR on the forge) or filePath (a local PR document)"
         );
+      }
+      const projectDirectory = URI.parse(rootUri).fsPath;
+      const git = new GitClient(projectDirectory);
+      await git.ensureRepository();
+      const config = await loadProjectConfig(projectDirectory);
+
+      // Read the current body, and the branches when the PR is on a forge
+      let existingBody: string;
+      let title: string;
+      let currentBranch = headRef;
+      let mainBranch = baseRef;
+      let provider: ForgeProvider | undefined;
+      let target: string;
+      if (number !== undefined) {
+        provider = (await findForgeProvider(git, config)).provider;
+        const pullRequest = await provider.getPullRequest(number);
+        existingBody = pullRequest.body;
+        title = pullRequest.title;
+        target = pullRequest.url;
+        currentBranch ||=
+          (await findBranch(git, pullRequest.head)) || pullRequest.head;
+        mainBranch ||=
+          (await findBranch(git, pullRequest.base)) || pullRequest.base;
+      } else {
+        target = resolve(projectDirectory, filePath!);
+        try {
+          existingBody = await readFile(target, "utf8");
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Cannot read the PR document ${target}`
+          );
+        }
+        title = existingBody.match(/^# (.+)$/m)?.[1].trim() || "";
+      }
 
-        // Write to file using fs/promises
-        await writeFile(
-          `${projectDirectory}/${prdFileName}`,
-          prdContent,
-          "utf8"
+      if (extractSections(existingBody).size === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${target} has no generate-pr section anchors, so the generated parts cannot be told apart from edits. Create it with generate_pr first`
         );
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PR document generated successfully comparing ${currentBranch} to ${mainBranch}`,
-            },
-            {
-              type: "text",
-              text: prdContent,
-            },
-          ],
-        };
+      let detachedHead = false;
+      if (!currentBranch) {
+        try {
+          currentBranch = await git.currentBranch();
+        } catch (error) {
+          if (!(error instanceof DetachedHeadError)) {
+            throw error;
+          }
+          currentBranch = "HEAD";
+          detachedHead = true;
+        }
       }
-    } catch (error: any) {
-      console.error("Error in generate_pr:", error);
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Error generating PR: ${error.message || "Unknown error"}`
+      mainBranch ||=
+        config.baseBranch ||
+        (await resolveDefaultBaseRef(git, currentBranch, detachedHead));
+      await ensureRef(git, mainBranch, "base");
+      await ensureRef(git, currentBranch, "head");
+
+      // Regenerate with the built-in template, the only one with anchors
+      const changes = await collectChanges(
+        git,
+        "committed",
+        mainBranch,
+        currentBranch,
+        Boolean(baseRef || config.baseBranch)
+      );
+      const secrets = findSecrets(changes.diff, config);
+      const read = createSourceReader(git, changes);
+      const changedPaths = parseDiff(changes.diff).files.map(
+        (file) => file.path
+      );
+      const coverage = await loadCoverage(projectDirectory, config.coverage);
+      const gitattributes = await loadGitattributes(git, changes);
+      const generated = await generatePRFromTemplate(
+        title,
+        "",
+        changes.diff,
+        {},
+        changes.commits,
+        undefined,
+        config,
+        {},
+        await loadSources(git, changes),
+        await comparePublicApi(read),
+        await analyzeDependencies(changedPaths, read),
+        secrets,
+        coverage,
+        gitattributes,
+        config.budget?.maxFiles,
+        await loadNumstat(git, changes),
+        await loadWorkspace(git, changes),
+        config.sections?.reviewers !== false
+          ? await loadReviewers(git, changes, gitattributes)
+          : undefined
       );
+      const merged = mergePRBody(existingBody, generated);
+      merged.body = redactSecrets(merged.body, secrets);
+
+      if (provider) {
+        await provider.updatePullRequestBody(number!, merged.body);
+      } else {
+        if (!force && (await git.isTracked(target))) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Refusing to overwrite ${target} because it is tracked by git. Pass force: true to update it anyway`
+          );
+        }
+        await writeFile(target, merged.body, "utf8");
+      }
+
+      const changed = [
+        ...merged.updated,
+        ...merged.added.map((section) => `${section} (added)`),
+        ...merged.removed.map((section) => `${section} (removed)`),
+      ];
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Updated ${target} comparing ${currentBranch} to ${mainBranch}: ${
+              changed.length > 0
+                ? `regenerated ${changed.join(", ")}`
+                : "generated sections were already up to date"
+            }${formatNotes(undefined, [...changes.notes, ...coverage.notes])}`,
+          },
+          { type: "text", text: merged.body },
+        ],
+      };
+    } catch (error: any) {
+      console.error("Error in update_pr:", error);
+      if (error instanceof NotARepositoryError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw toMcpError(error, "Error updating PR");
     }
   }
 
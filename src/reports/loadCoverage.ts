@@ -0,0 +1,83 @@
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import { parseCoverage } from "../helpers/index.js";
+import type { CoverageReport } from "../helpers/index.js";
+
+// Where coverage tools write their reports by default, first match wins
+const REPORT_LOCATIONS = [
+  "coverage/coverage-summary.json",
+  "coverage/lcov.info",
+  "lcov.info",
+  "coverage/cobertura-coverage.xml",
+  "coverage/coverage.xml",
+  "coverage.xml",
+  "target/site/cobertura/coverage.xml",
+  "build/reports/cobertura/coverage.xml",
+];
+
+export interface LoadedCoverage {
+  // Report of the working tree
+  current?: CoverageReport;
+  // Report of the base branch, for per-file deltas
+  baseline?: CoverageReport;
+  // Reports that were found but could not be read
+  notes: string[];
+}
+
+// Helper to read and parse one report, noting why it could not be used
+async function readReport(
+  projectDirectory: string,
+  path: string,
+  notes: string[],
+  required: boolean
+): Promise<CoverageReport | undefined> {
+  let content: string;
+  try {
+    content = await readFile(resolve(projectDirectory, path), "utf8");
+  } catch (error) {
+    if (required) {
+      notes.push(`coverage report ${path} not found`);
+    }
+    return undefined;
+  }
+  try {
+    const report = parseCoverage(path, content, projectDirectory);
+    if (!report) {
+      notes.push(`${path} is not an Istanbul, lcov or Cobertura report`);
+    }
+    return report;
+  } catch (error) {
+    notes.push(`coverage report ${path} could not be parsed`);
+    return undefined;
+  }
+}
+
+/**
+ * Loads the coverage report left in the working tree by the last test run,
+ * and a baseline report of the base branch when one is configured
+ *
+ * @param projectDirectory The repository root
+ * @param options Report paths from the project configuration
+ * @returns The reports found, with notes about unusable ones
+ */
+export default async function loadCoverage(
+  projectDirectory: string,
+  options: { report?: string; baseline?: string } = {}
+): Promise<LoadedCoverage> {
+  const notes: string[] = [];
+  let current: CoverageReport | undefined;
+  if (options.report) {
+    current = await readReport(projectDirectory, options.report, notes, true);
+  } else {
+    for (const location of REPORT_LOCATIONS) {
+      current = await readReport(projectDirectory, location, notes, false);
+      if (current) {
+        break;
+      }
+    }
+  }
+  const baseline = options.baseline
+    ? await readReport(projectDirectory, options.baseline, notes, true)
+    : undefined;
+  return { current, baseline, notes };
+}
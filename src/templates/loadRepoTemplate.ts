@@ -0,0 +1,152 @@
+import { readdir, readFile, realpath } from "fs/promises";
+import { join, resolve } from "path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { isInsideDirectory } from "../helpers/index.js";
+
+// Locations GitHub looks at for a single pull request template
+const SINGLE_TEMPLATE_DIRECTORIES = [".github", "", "docs"];
+const SINGLE_TEMPLATE_NAME = "pull_request_template.md";
+const MULTI_TEMPLATE_DIRECTORY = "pull_request_template";
+
+export interface RepoTemplate {
+  // Path relative to the repository root
+  path: string;
+  content: string;
+}
+
+// Helper to find an entry in a directory regardless of its case
+async function findEntry(
+  directory: string,
+  name: string
+): Promise<string | undefined> {
+  try {
+    const entries = await readdir(directory);
+    return entries.find((entry) => entry.toLowerCase() === name.toLowerCase());
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Lists the templates in the `PULL_REQUEST_TEMPLATE/` directories of a repo
+ *
+ * @param projectDirectory The repository root
+ * @returns Relative paths of the markdown templates found
+ */
+export async function listRepoTemplates(
+  projectDirectory: string
+): Promise<string[]> {
+  const templates: string[] = [];
+
+  for (const directory of SINGLE_TEMPLATE_DIRECTORIES) {
+    const multiDirectory = await findEntry(
+      join(projectDirectory, directory),
+      MULTI_TEMPLATE_DIRECTORY
+    );
+    if (!multiDirectory) {
+      continue;
+    }
+
+    try {
+      const entries = await readdir(
+        join(projectDirectory, directory, multiDirectory)
+      );
+      for (const entry of entries.sort()) {
+        if (entry.toLowerCase().endsWith(".md")) {
+          templates.push(join(directory, multiDirectory, entry));
+        }
+      }
+    } catch (error) {
+      // Not a directory
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Finds the pull request template of the target repository
+ *
+ * With a `name`, the template is picked from the `PULL_REQUEST_TEMPLATE/`
+ * directory (`bug` matches `bug.md`), or read from that path when it points
+ * at a file in the repository. Without one, the single
+ * `pull_request_template.md` is used, or the only file in the directory.
+ *
+ * @param projectDirectory The repository root
+ * @param name Optional template name or repository-relative path
+ * @returns The template, or undefined when the repo has none that matches
+ * @throws McpError when the path leads outside the repository
+ */
+export default async function loadRepoTemplate(
+  projectDirectory: string,
+  name?: string
+): Promise<RepoTemplate | undefined> {
+  // A path to a template file anywhere in the repository
+  if (name && (name.includes("/") || name.toLowerCase().endsWith(".md"))) {
+    // The name can come from the repository's own config, and a template
+    // without placeholders is copied into the PR as it is
+    const path = resolve(projectDirectory, name);
+    let target = path;
+    try {
+      // Symbolic links must not lead outside either
+      target = await realpath(path);
+    } catch (error) {
+      // Not a file, try it as a template name below
+    }
+    if (
+      !isInsideDirectory(projectDirectory, path) ||
+      !isInsideDirectory(await realpath(projectDirectory), target)
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `PR template "${name}" is outside the repository`
+      );
+    }
+    try {
+      return { path: name, content: await readFile(target, "utf8") };
+    } catch (error) {
+      // Not a file, try it as a template name below
+    }
+  }
+
+  const templates = await listRepoTemplates(projectDirectory);
+
+  if (name) {
+    const wanted = name.toLowerCase().replace(/\.md$/, "");
+    const path = templates.find(
+      (template) =>
+        template.split(/[\\/]/).pop()!.toLowerCase().replace(/\.md$/, "") ===
+        wanted
+    );
+    return path
+      ? { path, content: await readFile(join(projectDirectory, path), "utf8") }
+      : undefined;
+  }
+
+  for (const directory of SINGLE_TEMPLATE_DIRECTORIES) {
+    const entry = await findEntry(
+      join(projectDirectory, directory),
+      SINGLE_TEMPLATE_NAME
+    );
+    if (entry) {
+      const path = join(directory, entry);
+      try {
+        return {
+          path,
+          content: await readFile(join(projectDirectory, path), "utf8"),
+        };
+      } catch (error) {
+        // A directory with the same name, keep looking
+      }
+    }
+  }
+
+  if (templates.length === 1) {
+    return {
+      path: templates[0],
+      content: await readFile(join(projectDirectory, templates[0]), "utf8"),
+    };
+  }
+
+  return undefined;
+}
@@ -1,48 +1,271 @@
 import {
   generateKeyPoints,
   generateSimpleLogicSummary,
+  generateCommitsSection,
+  generateTypeOfChange,
+  generatePublicApiImpact,
+  generateMigrationNotes,
+  generateSecretsWarning,
+  generateTestingDone,
+  generateChangeStats,
+  generateSuggestedReviewers,
+  getClosedIssues,
+  classifyChanges,
+  detectMigrations,
+  matchTests,
 } from "../helpers/index.js";
+import type {
+  ChangeStats,
+  CommitInfo,
+  CoverageReport,
+  FileCategory,
+  FileClass,
+  KeyPointRule,
+  ParsedDiff,
+  PublicApiReport,
+  ReviewerReport,
+  SecretFinding,
+} from "../helpers/index.js";
+import renderTemplate from "./renderTemplate.js";
+import { wrapSection } from "./sectionAnchors.js";
+
+// Sections of the built-in template that can be switched off
+export const PR_SECTIONS = [
+  "typeOfChange",
+  "changes",
+  "keyPoints",
+  "statistics",
+  "publicApi",
+  "migrations",
+  "commits",
+  "testing",
+  "visualChanges",
+  "checklist",
+  "relatedItems",
+  "additionalNotes",
+  "reviewers",
+] as const;
+
+export type PRSection = (typeof PR_SECTIONS)[number];
+
+// Earlier names of sections, still accepted in the configuration
+export const PR_SECTION_ALIASES = {
+  reviewersGuide: "reviewers",
+} as const;
+
+export interface PRTemplateData {
+  // The PR title
+  title: string;
+  // The PR description
+  description: string;
+  // Summary of files changed
+  changesSummary: string;
+  // Analysis of main logic changes
+  mainLogicChanges: string;
+  // Parsed diff between base and head
+  parsedDiff: ParsedDiff;
+  // Optional screenshots for visual changes
+  screenshots?: { before?: string; after?: string };
+  // Commits between base and head, newest first
+  commits?: CommitInfo[];
+  // Category of each changed file
+  fileCategories?: Record<string, FileCategory>;
+  // Class of each changed file, e.g. generated or vendored
+  fileClasses?: Record<string, FileClass>;
+  // Sections to include, all are enabled unless set to false
+  sections?: Partial<Record<PRSection, boolean>>;
+  // Extra key point rules from the project configuration
+  keyPointRules?: KeyPointRule[];
+  // Public API comparison when the repository is a published package
+  publicApi?: PublicApiReport;
+  // Potential secrets in the added lines, listed in a warning
+  secrets?: SecretFinding[];
+  // Line counts per file, directory and language
+  statistics?: ChangeStats;
+  // Coverage reports of the working tree and of the base branch
+  coverage?: { current?: CoverageReport; baseline?: CoverageReport };
+  // Code owners of the changed files and reviewers suggested from history
+  reviewers?: ReviewerReport;
+}
+
+// Helper to check whether a section is switched on for this PR
+function isSectionEnabled(data: PRTemplateData, section: PRSection): boolean {
+  return data.sections?.[section] !== false;
+}
 
 /**
- * Generates a professional PR template with the provided information
+ * Builds the values available to PR templates as `{{placeholders}}`
  *
- * @param title The PR title
- * @param description The PR description
- * @param changesSummary Summary of files changed
- * @param mainLogicChanges Analysis of main logic changes
- * @param diff Raw diff content for analysis
- * @param screenshots Optional screenshots for visual changes
+ * @param data The information gathered about the PR
+ * @returns Placeholder names mapped to their rendered markdown
+ */
+export function buildTemplateContext(
+  data: PRTemplateData
+): Record<string, string> {
+  const commits = data.commits || [];
+  const closedIssues = getClosedIssues(commits);
+  const enabled = (section: PRSection) => isSectionEnabled(data, section);
+  const migrations = enabled("migrations")
+    ? detectMigrations(data.parsedDiff)
+    : undefined;
+
+  return {
+    title: data.title,
+    description: data.description,
+    secretsWarning:
+      data.secrets && data.secrets.length > 0
+        ? generateSecretsWarning(data.secrets)
+        : "",
+    typeOfChange: enabled("typeOfChange")
+      ? generateTypeOfChange(
+          classifyChanges(
+            commits,
+            data.parsedDiff,
+            data.fileCategories,
+            data.publicApi
+          )
+        )
+      : "",
+    changesSummary: enabled("changes") ? data.changesSummary : "",
+    implementationDetails: enabled("changes") ? data.mainLogicChanges : "",
+    keyPoints: enabled("keyPoints")
+      ? generateKeyPoints(data.parsedDiff, data.keyPointRules, {
+          publicApi: data.publicApi,
+        })
+      : "",
+    publicApiImpact:
+      enabled("publicApi") && data.publicApi
+        ? generatePublicApiImpact(data.publicApi)
+        : "",
+    migrationNotes: migrations ? generateMigrationNotes(migrations) : "",
+    changeStats:
+      enabled("statistics") && data.statistics
+        ? generateChangeStats(data.statistics)
+        : "",
+    commits:
+      enabled("commits") && commits.length > 0
+        ? generateCommitsSection(commits)
+        : "",
+    testingDone: enabled("testing")
+      ? generateTestingDone(
+          matchTests(data.parsedDiff, data.fileClasses),
+          data.parsedDiff,
+          data.coverage
+        )
+      : "",
+    suggestedReviewers:
+      enabled("reviewers") && data.reviewers
+        ? generateSuggestedReviewers(data.reviewers)
+        : "",
+    closedIssues: enabled("relatedItems")
+      ? closedIssues.map((issue) => `- Closes: ${issue}`).join("\n")
+      : "",
+    screenshotBefore: data.screenshots?.before || "",
+    screenshotAfter: data.screenshots?.after || "",
+  };
+}
+
+/**
+ * Renders a PR template from the target repository with the PR information
+ *
+ * Templates without any placeholder are kept as-is and wrapped with the
+ * title, description and the generated change summary, so a plain GitHub
+ * template still produces a useful document.
+ *
+ * @param template The template content, e.g. `.github/pull_request_template.md`
+ * @param data The information gathered about the PR
  * @returns Formatted markdown content for the PR
  */
-export function generatePRMarkdown(
-  title: string,
-  description: string,
-  changesSummary: string,
-  mainLogicChanges: string,
-  diff: string,
-  screenshots?: { before?: string; after?: string }
+export function generatePRMarkdownFromTemplate(
+  template: string,
+  data: PRTemplateData
 ): string {
-  return `# ${title}
+  const context = buildTemplateContext(data);
+
+  if (!/\{\{[#/]?\s*[\w]/.test(template)) {
+    return renderTemplate(
+      `# {{title}}
+
+{{description}}
+
+{{#if secretsWarning}}
+## ⚠️ Potential secrets
+
+{{secretsWarning}}
+
+{{/if}}
+${template.trim()}
+
+---
+
+### What Changed:
+{{changesSummary}}
+
+### Implementation Details:
+{{implementationDetails}}
+{{#if commits}}
+### Commits:
+{{commits}}
+{{/if}}`,
+      context
+    );
+  }
+
+  // The warning is added on top of templates that do not place it
+  return context.secretsWarning &&
+    !/\{\{\s*secretsWarning\s*\}\}/.test(template)
+    ? `## ⚠️ Potential secrets\n\n${context.secretsWarning}\n\n${renderTemplate(
+        template,
+        context
+      )}`
+    : renderTemplate(template, context);
+}
+
+/**
+ * Generates a professional PR template with the provided information
+ *
+ * Generated parts are wrapped in `generate-pr` anchors, so update_pr can
+ * regenerate them later and leave the rest of the document alone.
+ *
+ * @param data The information gathered about the PR
+ * @returns Formatted markdown content for the PR
+ */
+export function generatePRMarkdown(data: PRTemplateData): string {
+  const context = buildTemplateContext(data);
+  const { screenshots } = data;
+  const enabled = (section: PRSection) => isSectionEnabled(data, section);
+
+  const sections: string[] = [
+    `# ${context.title}
 
 ## 🎯 Overview
 
-${description}
+${context.description}`,
+  ];
+
+  // Always shown, sections cannot switch off the warning
+  if (context.secretsWarning) {
+    sections.push(
+      wrapSection(
+        "secrets",
+        `## ⚠️ Potential secrets\n\n${context.secretsWarning}`
+      )
+    );
+  }
 
-## 📋 Type of Change
+  if (enabled("typeOfChange")) {
+    sections.push(`## 📋 Type of Change
 
 <!-- Please check the appropriate options that apply to this PR -->
 
-- [ ] 🐛 Bug fix (non-breaking change which fixes an issue)
-- [ ] ✨ New feature (non-breaking change which adds functionality)
-- [ ] 💥 Breaking change (fix or feature that would cause existing functionality to not work as expected)
-- [ ] 📚 Documentation update
-- [ ] ♻️ Code refactoring (no functional changes, no api changes)
-- [ ] ⚡ Performance improvements
+${wrapSection("typeOfChange", context.typeOfChange)}`);
+  }
 
-## 🔍 Changes Description
+  if (enabled("changes")) {
+    sections.push(`## 🔍 Changes Description
 
 ### What Changed:
-${changesSummary}
+${wrapSection("changesSummary", context.changesSummary)}
 
 ### Why It Changed:
 <!-- Please provide the motivation and context for the changes -->
@@ -50,27 +273,74 @@ ${changesSummary}
 ### Implementation Details:
 
 <!-- This section provides a concise analysis of the key business logic changes -->
-${mainLogicChanges}
+${wrapSection("implementationDetails", context.implementationDetails)}
 
 <!-- The analysis above focuses on explaining the purpose and impact of changes rather than showing raw code -->
 <!-- Sensitive information like API keys, tokens, and environment variables are automatically excluded -->
-<!-- UI component changes include explanations of layout and functionality modifications -->
+<!-- UI component changes include explanations of layout and functionality modifications -->${
+      enabled("keyPoints")
+        ? `
 
 **Key Implementation Points:**
-${generateKeyPoints(diff)}
-
-## 🧪 Testing Done
+${wrapSection("keyPoints", context.keyPoints)}`
+        : ""
+    }`);
+  }
+
+  // Heading inside the anchors, so update_pr adds it to older PRs
+  if (context.changeStats) {
+    sections.push(
+      wrapSection(
+        "statistics",
+        `## 📊 Change Statistics\n\n${context.changeStats}`
+      )
+    );
+  }
+
+  // The heading is inside the anchors, so update_pr can add the section
+  // to PRs created before the package had an API change
+  if (context.publicApiImpact) {
+    sections.push(
+      wrapSection(
+        "publicApi",
+        `## 📦 Public API Impact\n\n${context.publicApiImpact}`
+      )
+    );
+  }
+
+  if (context.migrationNotes) {
+    sections.push(`${wrapSection(
+      "migrations",
+      `## 🗄️ Migration Notes / Rollback\n\n${context.migrationNotes}`
+    )}
+
+### Rollback Plan:
+<!-- Describe how to revert the schema and data if this deploy is rolled back -->`);
+  }
+
+  if (enabled("commits")) {
+    sections.push(`## 🧾 Commits
+
+${wrapSection(
+  "commits",
+  context.commits ||
+    "<!-- No commits in this PR, changes are not yet committed -->"
+)}`);
+  }
+
+  if (enabled("testing")) {
+    sections.push(`## 🧪 Testing Done
 
 <!-- Please describe the tests that you ran to verify your changes -->
 
-- [ ] Unit Tests
-- [ ] Integration Tests
-- [ ] Manual Testing
+${wrapSection("testing", context.testingDone)}
 
 ### Test Coverage:
-<!-- Describe what scenarios were tested -->
+<!-- Describe what scenarios were tested -->`);
+  }
 
-## 📸 Visual Changes
+  if (enabled("visualChanges")) {
+    sections.push(`## 📸 Visual Changes
 
 ${
   screenshots?.before || screenshots?.after
@@ -94,9 +364,11 @@ ${
 }
 `
     : "<!-- No visual changes in this PR -->"
-}
+}`);
+  }
 
-## ✅ Checklist
+  if (enabled("checklist")) {
+    sections.push(`## ✅ Checklist
 
 <!-- Please check all items that apply -->
 
@@ -105,31 +377,40 @@ ${
 - [ ] Tests are passing
 - [ ] Documentation updated
 - [ ] No new warnings generated
-- [ ] Branch is up to date with main
+- [ ] Branch is up to date with main`);
+  }
 
-## 🔗 Related Items
+  if (enabled("relatedItems")) {
+    sections.push(`## 🔗 Related Items
 
 <!-- Link related issues, PRs, or documentation -->
 
 - Related Issue: #
-- Closes: #
-- Documentation: [Link]()
+${context.closedIssues || "- Closes: #"}
+- Documentation: [Link]()`);
+  }
 
-## 📝 Additional Notes
+  if (enabled("additionalNotes")) {
+    sections.push(`## 📝 Additional Notes
 
-<!-- Add any other context about the PR here -->
+<!-- Add any other context about the PR here -->`);
+  }
 
----
+  if (enabled("reviewers")) {
+    sections.push(`---
 
-## 👥 Reviewers Guide
+## 👥 Suggested Reviewers
 
-1. Check implementation approach
-2. Verify test coverage
-3. Review documentation updates
-4. Consider performance implications
+${wrapSection(
+  "reviewers",
+  context.suggestedReviewers ||
+    "_No code owners or earlier authors found for the changed files._"
+)}
 
-<!-- Optional: Add a fun GIF that represents your PR! -->
-`;
+<!-- Optional: Add a fun GIF that represents your PR! -->`);
+  }
+
+  return sections.join("\n\n") + "\n";
 }
 
 /**
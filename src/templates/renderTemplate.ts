@@ -0,0 +1,41 @@
+// Innermost {{#if name}}...{{/if}} or {{#unless name}}...{{/unless}} block
+const CONDITIONAL_BLOCK =
+  /\{\{#(if|unless)\s+(\w+)\s*\}\}((?:(?!\{\{#(?:if|unless)\s)[\s\S])*?)\{\{\/\1\}\}/;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Renders a template with `{{name}}` placeholders and conditional sections
+ *
+ * Supported syntax:
+ * - `{{name}}` is replaced with the value, unknown names are left untouched
+ * - `{{#if name}}...{{else}}...{{/if}}` keeps the first part when the value
+ *   is non-empty, otherwise the `{{else}}` part (if any)
+ * - `{{#unless name}}...{{/unless}}` is the inverse of `#if`
+ *
+ * @param template The template content
+ * @param context Placeholder names mapped to their values
+ * @returns The rendered content
+ */
+export default function renderTemplate(
+  template: string,
+  context: Record<string, string>
+): string {
+  const isSet = (name: string) => Boolean(context[name]?.trim());
+  let rendered = template;
+
+  // Resolve conditionals from the innermost block outwards
+  let match = rendered.match(CONDITIONAL_BLOCK);
+  while (match) {
+    const [block, kind, name, body] = match;
+    const [whenTrue, whenFalse = ""] = body.split(/\{\{\s*else\s*\}\}/);
+    const condition = kind === "if" ? isSet(name) : !isSet(name);
+    rendered = rendered.replace(block, () =>
+      condition ? whenTrue : whenFalse
+    );
+    match = rendered.match(CONDITIONAL_BLOCK);
+  }
+
+  return rendered.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in context ? context[name] : placeholder
+  );
+}
@@ -0,0 +1,214 @@
+// Parts of the built-in template that are regenerated by update_pr; the
+// rest of the document belongs to the people editing the PR
+export const ANCHORED_SECTIONS = [
+  "secrets",
+  "typeOfChange",
+  "changesSummary",
+  "implementationDetails",
+  "keyPoints",
+  "statistics",
+  "publicApi",
+  "migrations",
+  "commits",
+  "testing",
+  "reviewers",
+] as const;
+
+export type AnchoredSection = (typeof ANCHORED_SECTIONS)[number];
+
+// <!-- generate-pr:begin name --> ... <!-- generate-pr:end name -->
+const ANCHORED_BLOCK =
+  /<!-- generate-pr:begin (\w+) -->\n?([\s\S]*?)\n?<!-- generate-pr:end \1 -->/g;
+const CHECKBOX = /^(\s*[-*] \[)([ xX])(\] )(.*)$/;
+// Records which boxes the tool ticked itself, so a later update can tell
+// them from boxes ticked or unticked by hand
+const TICKED_MARKER = /^<!-- generate-pr:ticked (.*) -->$/m;
+// Evidence cited after a label, e.g. " (`src/lib.ts:1`, +2 more)", which
+// changes from one commit to the next
+const LABEL_EVIDENCE = /\s+\(`.*\)$/;
+
+export interface MergedPRBody {
+  body: string;
+  // Sections whose content was replaced
+  updated: AnchoredSection[];
+  // Sections missing from the existing body, appended at the end
+  added: AnchoredSection[];
+  // Sections the regenerated document no longer has, e.g. the secrets
+  // warning once the secret is gone
+  removed: AnchoredSection[];
+}
+
+/**
+ * Wraps generated content in HTML-comment anchors so it can be found and
+ * replaced later without touching the text around it
+ *
+ * @param name The section the content belongs to
+ * @param content The generated markdown
+ * @returns The content between begin and end anchors
+ */
+export function wrapSection(name: AnchoredSection, content: string): string {
+  const boxes = content
+    .split("\n")
+    .map((line) => line.match(CHECKBOX))
+    .filter((match): match is RegExpMatchArray => match !== null);
+  const ticked = boxes
+    .filter((match) => match[2].toLowerCase() === "x")
+    .map(checkboxLabel);
+  return anchorSection(
+    name,
+    boxes.length > 0
+      ? `<!-- generate-pr:ticked ${JSON.stringify(ticked)} -->\n${content}`
+      : content
+  );
+}
+
+// Helper to read the label of a checkbox without the evidence after it, so
+// the same box is found again when its evidence changed
+function checkboxLabel(match: RegExpMatchArray): string {
+  return match[4].trim().replace(LABEL_EVIDENCE, "");
+}
+
+// Helper to put content between the anchors as-is
+function anchorSection(name: AnchoredSection, content: string): string {
+  return `<!-- generate-pr:begin ${name} -->
+${content}
+<!-- generate-pr:end ${name} -->`;
+}
+
+// Helper to read the labels the tool ticked when it generated a section,
+// undefined for sections written before this was recorded
+function readTickedMarker(content: string): Set<string> | undefined {
+  const match = content.match(TICKED_MARKER);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    const labels: unknown = JSON.parse(match[1]);
+    return Array.isArray(labels) ? new Set(labels.map(String)) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Helper to turn CRLF into LF; bodies edited in the GitHub web UI come
+// back with CRLF, and "$" in the patterns does not match before "\r"
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n/g, "\n");
+}
+
+/**
+ * Reads the anchored sections out of a PR body
+ *
+ * @param body Markdown of the PR description
+ * @returns Section names mapped to the content between their anchors
+ */
+export function extractSections(body: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  for (const match of normalizeLineEndings(body).matchAll(ANCHORED_BLOCK)) {
+    sections.set(match[1], match[2]);
+  }
+  return sections;
+}
+
+// Helper to keep boxes ticked or unticked by hand in the regenerated
+// content, matching checkboxes by their label. Boxes still as the tool left
+// them follow the new content, so its own ticks do not pile up
+function carryOverTicks(previous: string, next: string): string {
+  const previousTicks = new Map<string, boolean>();
+  for (const line of previous.split("\n")) {
+    const match = line.match(CHECKBOX);
+    if (match) {
+      previousTicks.set(checkboxLabel(match), match[2].toLowerCase() === "x");
+    }
+  }
+  const generatedTicks = readTickedMarker(previous);
+
+  return next
+    .split("\n")
+    .map((line) => {
+      const match = line.match(CHECKBOX);
+      const label = match ? checkboxLabel(match) : "";
+      if (!match || !previousTicks.has(label)) {
+        return line;
+      }
+      const wasTicked = previousTicks.get(label)!;
+      // Without a record, every tick is taken as set by hand
+      const setByHand = generatedTicks
+        ? wasTicked !== generatedTicks.has(label)
+        : wasTicked;
+      if (!setByHand) {
+        return line;
+      }
+      return `${match[1]}${wasTicked ? "x" : " "}${match[3]}${match[4]}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Merges a regenerated PR document into an existing PR body
+ *
+ * Only the content between `generate-pr` anchors is replaced, and anchored
+ * sections the new document no longer has are removed. Everything else,
+ * such as "Why It Changed" or "Additional Notes", stays as written, and
+ * checkboxes ticked inside anchored sections stay ticked.
+ *
+ * @param existing The current PR body, possibly edited by hand
+ * @param generated A freshly generated document with anchors
+ * @returns The merged body and which sections changed
+ */
+export function mergePRBody(existing: string, generated: string): MergedPRBody {
+  const previous = extractSections(existing);
+  const next = extractSections(generated);
+  const updated: AnchoredSection[] = [];
+  const added: AnchoredSection[] = [];
+  const removed: AnchoredSection[] = [];
+  let body = normalizeLineEndings(existing);
+  const missing: string[] = [];
+
+  for (const [name, content] of next) {
+    const section = name as AnchoredSection;
+    if (!previous.has(name)) {
+      added.push(section);
+      missing.push(anchorSection(section, content));
+      continue;
+    }
+
+    const merged = carryOverTicks(previous.get(name) || "", content);
+    if (merged !== previous.get(name)) {
+      updated.push(section);
+    }
+    body = body.replace(
+      new RegExp(
+        `<!-- generate-pr:begin ${name} -->\\n?[\\s\\S]*?\\n?<!-- generate-pr:end ${name} -->`
+      ),
+      // A function, so "$" in the content is not read as a back-reference
+      () => anchorSection(section, merged)
+    );
+  }
+
+  // Sections such as the secrets warning or the public API impact are only
+  // generated when there is something to say
+  for (const name of previous.keys()) {
+    const section = name as AnchoredSection;
+    if (next.has(name) || !ANCHORED_SECTIONS.includes(section)) {
+      continue;
+    }
+    removed.push(section);
+    body = body.replace(
+      new RegExp(
+        `\\n*<!-- generate-pr:begin ${name} -->[\\s\\S]*?<!-- generate-pr:end ${name} -->\\n*`
+      ),
+      (block, offset: number) =>
+        offset === 0 || offset + block.length === body.length ? "\n" : "\n\n"
+    );
+  }
+  if (removed.length > 0) {
+    body = `${body.replace(/^\n+/, "").trimEnd()}\n`;
+  }
+
+  if (missing.length > 0) {
+    body = `${body.trimEnd()}\n\n${missing.join("\n\n")}\n`;
+  }
+
+  return { body, updated, added, removed };
+}